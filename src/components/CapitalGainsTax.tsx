@@ -0,0 +1,158 @@
+import React, { useMemo } from 'react';
+import { format } from 'date-fns';
+import { CapitalGainsSettings, Payment, ProjectData } from '@/types/project';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  calculateCapitalGains,
+  CAPITAL_GAINS_METHOD_LABELS,
+  DEFAULT_SLAB_RATE,
+  HEALTH_EDUCATION_CESS
+} from '@/utils/capitalGains';
+import { XirrResult } from '@/utils/xirr';
+
+interface CapitalGainsTaxProps {
+  projectData: ProjectData;
+  allPaymentsWithInterest: Payment[];
+  formatCurrency: (value: number) => string;
+  updateProjectData?: (updates: Partial<ProjectData>) => void;
+}
+
+const formatXirr = (xirr: XirrResult) => xirr.rate !== null ? `${xirr.rate.toFixed(2)}%` : 'No solution';
+
+export const CapitalGainsTax: React.FC<CapitalGainsTaxProps> = ({
+  projectData,
+  allPaymentsWithInterest,
+  formatCurrency,
+  updateProjectData
+}) => {
+  const settings = projectData.capitalGains || {};
+
+  const result = useMemo(
+    () => calculateCapitalGains(allPaymentsWithInterest || [], projectData),
+    [allPaymentsWithInterest, projectData]
+  );
+
+  const updateSettings = (updates: Partial<CapitalGainsSettings>) => {
+    updateProjectData?.({ capitalGains: { ...settings, ...updates } });
+  };
+
+  if (!result) return null;
+
+  const years = Math.floor(result.holdingMonths / 12);
+  const stats = [
+    { label: 'Pre-tax XIRR', value: formatXirr(result.preTax), note: 'Before tax on the sale' },
+    {
+      label: 'Post-tax XIRR',
+      value: formatXirr(result.postTax),
+      note: result.transferExpenses > 0 ? 'After tax and transfer expenses' : 'After tax on the sale'
+    },
+    {
+      label: 'Tax on Sale',
+      value: formatCurrency(result.totalTax),
+      note: `${CAPITAL_GAINS_METHOD_LABELS[result.chosen.method]} + ${HEALTH_EDUCATION_CESS}% cess`
+    },
+    { label: 'Post-tax Profit', value: formatCurrency(result.postTaxProfit), note: `Held ${years}y ${result.holdingMonths % 12}m` },
+  ];
+
+  return (
+    <div className="border rounded-md p-3 space-y-3">
+      <div>
+        <h4 className="text-sm font-medium text-gray-700">Capital Gains Tax</h4>
+        <p className="text-xs text-muted-foreground">
+          {result.term === 'long-term' ? 'Long-term' : 'Short-term'} gain on the sale of{' '}
+          {format(result.saleDate, 'dd MMM yyyy')}, held from {format(result.acquisitionDate, 'dd MMM yyyy')}. Property
+          held over 24 months is long term; interest and loan charges aren't part of the cost.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {stats.map(stat => (
+          <div key={stat.label} className="rounded-md bg-gray-50 p-2">
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p className="text-lg font-semibold">{stat.value}</p>
+            <p className="text-xs text-gray-500">{stat.note}</p>
+          </div>
+        ))}
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="text-left font-normal py-1 pr-2">Method</th>
+            <th className="text-right font-normal py-1 px-2">Cost</th>
+            <th className="text-right font-normal py-1 px-2">Gain</th>
+            <th className="text-right font-normal py-1 px-2">Tax before cess</th>
+          </tr>
+        </thead>
+        <tbody>
+          {result.options.map(option => (
+            <tr key={option.method} className={`border-t ${option === result.chosen ? 'font-semibold' : 'text-gray-500'}`}>
+              <td className="py-1 pr-2">
+                {option.method === 'slab' ? `Slab rate (${option.rate}%)` : CAPITAL_GAINS_METHOD_LABELS[option.method]}
+                {result.options.length > 1 && option === result.chosen && ' · lower tax'}
+              </td>
+              <td className="py-1 px-2 text-right">{formatCurrency(option.cost)}</td>
+              <td className={`py-1 px-2 text-right ${option.gain >= 0 ? '' : 'text-red-600'}`}>{formatCurrency(option.gain)}</td>
+              <td className="py-1 px-2 text-right">{formatCurrency(option.tax)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-muted-foreground">
+        Sale {formatCurrency(result.saleProceeds)} · Acquisition {formatCurrency(result.acquisitionCost)}
+        {result.improvementCost > 0 && ` · Improvements ${formatCurrency(result.improvementCost)}`}
+        {result.surcharge > 0 && ` · Surcharge ${formatCurrency(result.surcharge)}`}
+        {` · Cess ${formatCurrency(result.cess)}`}
+      </p>
+
+      {updateProjectData && (
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="w-40">
+            <Label htmlFor="cgAcquisitionDate" className="text-xs">Allotment Date</Label>
+            <Input
+              id="cgAcquisitionDate"
+              type="date"
+              value={settings.acquisitionDate ?? ''}
+              onChange={(e) => updateSettings({ acquisitionDate: e.target.value || null })}
+              className="h-8 text-sm"
+            />
+          </div>
+          <div className="w-28">
+            <Label htmlFor="cgSlabRate" className="text-xs">Slab Rate (%)</Label>
+            <Input
+              id="cgSlabRate"
+              type="number"
+              step="1"
+              value={settings.slabRate ?? projectData.taxProfile?.slabRate ?? DEFAULT_SLAB_RATE}
+              onChange={(e) => updateSettings({ slabRate: Number(e.target.value) })}
+              className="h-8 text-sm"
+            />
+          </div>
+          <div className="w-28">
+            <Label htmlFor="cgSurcharge" className="text-xs">Surcharge (%)</Label>
+            <Input
+              id="cgSurcharge"
+              type="number"
+              step="1"
+              value={settings.surchargePercent ?? 0}
+              onChange={(e) => updateSettings({ surchargePercent: Number(e.target.value) })}
+              className="h-8 text-sm"
+            />
+          </div>
+          <div className="w-36">
+            <Label htmlFor="cgTransferExpenses" className="text-xs">Transfer Expenses</Label>
+            <Input
+              id="cgTransferExpenses"
+              type="number"
+              step="1000"
+              value={settings.transferExpenses ?? 0}
+              onChange={(e) => updateSettings({ transferExpenses: Number(e.target.value) })}
+              className="h-8 text-sm"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,17 +1,29 @@
 import React, { useState, useCallback } from 'react';
 import { ProjectData, Payment, IncomeItem } from '@/types/project';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { TrendingUp, BarChart2, Landmark, Scale, Percent, HandCoins, CalendarDays } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { TrendingUp, BarChart2, Landmark, Scale, Percent, HandCoins, CalendarDays, Target, Wallet, Home, Repeat } from 'lucide-react';
 import { format as formatDateFns, differenceInDays } from 'date-fns';
-import { monthToDate } from '@/components/payments/utils';
-import { processPaymentsWithLoanTracking, getIRRCashFlows } from '@/utils/loanTracker';
-import xirr from 'xirr';
+import { calculateAnalysis, getInvestorCashFlows } from '@/utils/cashFlowAnalysis';
+import { calculateCapitalGains } from '@/utils/capitalGains';
+import { getDiscountRatePercent } from '@/utils/npv';
+import { calculateXIRR, describeXirrResult } from '@/utils/xirr';
+import { calculateReturnMetrics } from '@/utils/returnMetrics';
+import { CapitalGainsTax } from '@/components/CapitalGainsTax';
+import { EmiOptionComparison } from '@/components/EmiOptionComparison';
+import { HomeLoanTaxBenefits } from '@/components/HomeLoanTaxBenefits';
+import { LeverageComparison } from '@/components/LeverageComparison';
+import { NpvAnalysis } from '@/components/NpvAnalysis';
+import { OpportunityCostComparison } from '@/components/OpportunityCostComparison';
+import { RealReturns } from '@/components/RealReturns';
 
 interface CashFlowAnalysisProps {
   projectData: ProjectData;
   allPaymentsWithInterest: Payment[];
   projectEndDate?: Date;
   lastUpdated?: number; // Timestamp to trigger recalculation
+  updateProjectData?: (updates: Partial<ProjectData>) => void;
 }
 
 // Define a type that includes both Payment and IncomeItem
@@ -20,163 +32,27 @@ interface CashFlowItem extends Omit<Payment, 'id' | 'type'> {
   id?: string;
 }
 
-const calculateXIRR = (cashFlowsWithDates: Array<{date: Date, amount: number}>): number => {
-  try {
-    if (cashFlowsWithDates.length < 2) return 0;
-
-    console.log('Calculating XIRR with cash flows:', cashFlowsWithDates);
-    
-    // Check if we have at least one positive and one negative cash flow
-    const hasPositive = cashFlowsWithDates.some(cf => cf.amount > 0);
-    const hasNegative = cashFlowsWithDates.some(cf => cf.amount < 0);
-    
-    if (!hasPositive || !hasNegative) {
-      console.warn('XIRR calculation requires both positive and negative cash flows');
-      return 0;
-    }
-    
-    // Format transactions for the xirr library
-    const transactions = cashFlowsWithDates.map(cf => ({
-      amount: cf.amount,
-      when: cf.date
-    }));
-
-    console.log('XIRR transactions:', transactions);
-    
-    // Calculate XIRR using the xirr library
-    const result = xirr(transactions);
-    return isNaN(result) ? 0 : result * 100; // Convert to percentage
-  } catch (error) {
-    console.error('Error calculating XIRR:', error);
-    return 0;
-  }
-};
-
 export const CashFlowAnalysis: React.FC<CashFlowAnalysisProps> = ({ 
   projectData, 
   allPaymentsWithInterest, 
   projectEndDate,
-  lastUpdated = 0
+  lastUpdated = 0,
+  updateProjectData
 }) => {
   const [analysisData, setAnalysisData] = useState({
     totalInvestment: 0,
     totalReturns: 0,
     netProfit: 0,
     totalInterestPaid: 0,
-    xirrValue: 0,
+    totalInterestCapitalised: 0,
+    totalInterestSubvented: 0,
+    totalLoanCosts: 0,
+    xirrValue: null as number | null,
+    xirr: calculateXIRR([]),
+    npv: 0,
     lastCalculated: null as Date | null
   });
 
-  // Pure calculation function that doesn't modify interest data
-  // Takes payments data as an argument to avoid side effects
-  const calculateAnalysis = (paymentsData: Payment[], projectDataInput: ProjectData) => {
-    console.log('Calculating financial metrics with existing data');
-    console.log('paymentsData length:', paymentsData?.length || 0);
-    console.log('paymentsData:', paymentsData);
-    console.log('projectDataInput:', projectDataInput);
-    
-    if (!projectDataInput) {
-      console.log('No project data input, returning zeros');
-      return {
-        totalInvestment: 0,
-        totalReturns: 0,
-        netProfit: 0,
-        totalInterestPaid: 0,
-        xirrValue: 0,
-        lastCalculated: null
-      };
-    }
-
-    console.log('Calculating financial analysis with:', {
-      payments: paymentsData?.length || 0,
-      rental: projectDataInput.rentalIncome?.length || 0
-    });
-
-    // Total payments (only actual investor money, excluding borrowed funds)
-    let totalPayments = 0;
-    paymentsData.forEach(p => {
-      if (p.type === 'payment') {  // Only count actual payments, not drawdowns (borrowed money)
-        console.log('Found payment (investor money):', p.amount, 'type:', p.type);
-        totalPayments += Math.abs(p.amount);
-      }
-    });
-
-    // Total interest paid
-    let totalInterestPaid = 0;
-    paymentsData.forEach(p => {
-      if (p.type === 'interest') {
-        console.log('Found interest:', p.amount);
-        totalInterestPaid += Math.abs(p.amount); // Ensure positive for display
-      }
-    });
-
-    // Total returns (only net returns, excluding loan repayments)
-    let totalReturns = 0;
-    const paymentsForReturns = processPaymentsWithLoanTracking(paymentsData, true);
-    
-    // Add rental income
-    projectDataInput.rentalIncome?.forEach(ri => {
-      console.log('Found rental income:', ri.amount);
-      totalReturns += ri.amount;
-    });
-    
-    // Add net returns from processed payments (excluding loan repayment portions)
-    paymentsForReturns.forEach(p => {
-      if (p.type === 'return' || p.type === 'repayment') {
-        const netReturn = p.calculatedNetReturn || 0;
-        if (netReturn > 0) {
-          console.log('Found net return:', netReturn, 'from total:', p.amount);
-          totalReturns += netReturn;
-        }
-      }
-    });
-
-    // Calculate total investment (only investor's cash from pocket: payments + interest paid)
-    // Note: Excludes drawdowns as they are borrowed money, not investor money
-    const totalInvestment = Math.abs(totalPayments) + totalInterestPaid;
-
-    
-    // Net profit calculation
-    const netProfit = totalReturns - totalInvestment;
-    
-    console.log('Raw calculations:', {
-      totalPayments,
-      totalInterestPaid,
-      totalReturns,
-      totalInvestment,
-      netProfit
-    });
-    
-    // Calculate XIRR using proper loan tracking
-    const processedPayments = processPaymentsWithLoanTracking(paymentsData, true);
-    const irrCashFlows = getIRRCashFlows(processedPayments);
-    
-    // Add rental income to IRR calculation
-    const allIRRCashFlows = [
-      ...irrCashFlows,
-      ...(projectDataInput.rentalIncome?.map(ri => ({
-        date: ri.date ? new Date(ri.date) : monthToDate(ri.month),
-        amount: ri.amount // Rental income is positive cash flow
-      })) || [])
-    ];
-    
-    console.log('All IRR cash flows for XIRR calculation:', allIRRCashFlows);
-    
-    const xirrValue = calculateXIRR(allIRRCashFlows);
-
-    const result = { 
-      totalInvestment, 
-      totalReturns, 
-      netProfit, 
-      totalInterestPaid,
-      xirrValue,
-      lastCalculated: new Date()
-    };
-    
-    console.log('Analysis results:', result);
-    return result;
-  };
-
   // Currency formatter
   const formatCurrency = (value: number, isInvestment: boolean = false) => {
     // For investment values, use absolute value to remove negative sign
@@ -197,6 +73,27 @@ export const CashFlowAnalysis: React.FC<CashFlowAnalysisProps> = ({
     }
   }, [allPaymentsWithInterest, projectData, projectEndDate, lastUpdated]);
 
+  const investorCashFlows = React.useMemo(
+    () => projectData ? getInvestorCashFlows(allPaymentsWithInterest || [], projectData) : [],
+    [allPaymentsWithInterest, projectData]
+  );
+  const discountRate = projectData ? getDiscountRatePercent(projectData) : 0;
+
+  // ProjectData.discountRate is stored as a decimal
+  const handleDiscountRateChange = (rate: number) => {
+    updateProjectData?.({ discountRate: rate / 100 });
+  };
+
+  const returnMetrics = React.useMemo(
+    () => projectData ? calculateReturnMetrics(allPaymentsWithInterest || [], projectData) : null,
+    [allPaymentsWithInterest, projectData]
+  );
+  const capitalGains = React.useMemo(
+    () => projectData ? calculateCapitalGains(allPaymentsWithInterest || [], projectData) : null,
+    [allPaymentsWithInterest, projectData]
+  );
+  const formatMetricDate = (date: Date | null) => date ? formatDateFns(date, 'MMM yyyy') : '—';
+
   const MetricCard: React.FC<{ title: string; value: string; icon: React.ReactNode; description?: string }> = 
     ({ title, value, icon, description }) => (
     <Card className="flex-1 min-w-[160px] shadow-sm hover:shadow-md transition-shadow duration-200">
@@ -267,18 +164,151 @@ export const CashFlowAnalysis: React.FC<CashFlowAnalysisProps> = ({
           description="Returns - Investment"
         />
         <MetricCard 
-          title="Interest Paid"
-          value={formatCurrency(analysisData.totalInterestPaid)}
+          title={analysisData.totalLoanCosts > 0 ? 'Interest & Charges' : 'Interest Paid'}
+          value={formatCurrency(
+            analysisData.totalInterestPaid + analysisData.totalInterestCapitalised + analysisData.totalLoanCosts
+          )}
           icon={<HandCoins className="h-4 w-4 text-red-500" />}
-          description="Total interest expense"
+          description={[
+            analysisData.totalLoanCosts > 0 && `${formatCurrency(analysisData.totalLoanCosts)} fees & charges`,
+            analysisData.totalInterestCapitalised > 0 && `${formatCurrency(analysisData.totalInterestCapitalised)} capitalised into loan`,
+            analysisData.totalInterestSubvented > 0 && `${formatCurrency(analysisData.totalInterestSubvented)} more paid by builder`
+          ].filter(Boolean).join(' · ') || 'Total interest expense'}
         />
         <MetricCard 
           title="XIRR"
-          value={`${analysisData.xirrValue.toFixed(2)}%`}
+          value={analysisData.xirrValue !== null ? `${analysisData.xirrValue.toFixed(2)}%` : 'No solution'}
           icon={<Percent className="h-4 w-4 text-yellow-500" />}
-          description="Annualized return"
+          description={[
+            describeXirrResult(analysisData.xirr),
+            capitalGains?.postTax.rate != null && `Post-tax ${capitalGains.postTax.rate.toFixed(2)}%`
+          ].filter(Boolean).join(' · ')}
+        />
+        <MetricCard 
+          title="NPV"
+          value={formatCurrency(analysisData.npv)}
+          icon={<Target className="h-4 w-4 text-indigo-500" />}
+          description={`At ${discountRate.toFixed(2)}% discount rate`}
         />
       </div>
+
+      {returnMetrics && (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
+          <MetricCard 
+            title="Equity Multiple"
+            value={returnMetrics.equityMultiple !== null ? `${returnMetrics.equityMultiple.toFixed(2)}x` : '—'}
+            icon={<BarChart2 className="h-4 w-4 text-green-500" />}
+            description="Cash returned per ₹ invested"
+          />
+          <MetricCard 
+            title="Payback"
+            value={formatMetricDate(returnMetrics.paybackDate)}
+            icon={<CalendarDays className="h-4 w-4 text-blue-500" />}
+            description={returnMetrics.paybackDate ? 'Cumulative cash back to zero' : 'Not paid back yet'}
+          />
+          <MetricCard 
+            title="Peak Capital"
+            value={formatCurrency(returnMetrics.peakCapital)}
+            icon={<Wallet className="h-4 w-4 text-red-500" />}
+            description={`Deepest point: ${formatMetricDate(returnMetrics.peakCapitalDate)}`}
+          />
+          <MetricCard 
+            title="Cash-on-Cash"
+            value={returnMetrics.cashOnCashYield !== null ? `${returnMetrics.cashOnCashYield.toFixed(2)}%` : '—'}
+            icon={<Home className="h-4 w-4 text-purple-500" />}
+            description="Annual rent after loan servicing"
+          />
+          <MetricCard 
+            title="MIRR"
+            value={returnMetrics.mirr !== null ? `${returnMetrics.mirr.toFixed(2)}%` : '—'}
+            icon={<Repeat className="h-4 w-4 text-yellow-500" />}
+            description={`Finance ${returnMetrics.financeRate.toFixed(1)}% · Reinvest ${returnMetrics.reinvestmentRate.toFixed(1)}%`}
+          />
+        </div>
+      )}
+
+      {returnMetrics && updateProjectData && (
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="w-36">
+            <Label htmlFor="mirrFinanceRate" className="text-xs">MIRR Finance Rate (%)</Label>
+            <Input
+              id="mirrFinanceRate"
+              type="number"
+              step="0.5"
+              value={returnMetrics.financeRate}
+              onChange={(e) => updateProjectData({ mirrFinanceRate: Number(e.target.value) / 100 })}
+              className="h-8 text-sm"
+            />
+          </div>
+          <div className="w-36">
+            <Label htmlFor="mirrReinvestmentRate" className="text-xs">MIRR Reinvestment Rate (%)</Label>
+            <Input
+              id="mirrReinvestmentRate"
+              type="number"
+              step="0.5"
+              value={returnMetrics.reinvestmentRate}
+              onChange={(e) => updateProjectData({ mirrReinvestmentRate: Number(e.target.value) / 100 })}
+              className="h-8 text-sm"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground pb-2">
+            Defaults to the loan rate and the NPV discount rate.
+          </p>
+        </div>
+      )}
+
+      <NpvAnalysis
+        cashFlows={investorCashFlows}
+        discountRate={discountRate}
+        onDiscountRateChange={handleDiscountRateChange}
+        formatCurrency={formatCurrency}
+      />
+
+      <CapitalGainsTax
+        projectData={projectData}
+        allPaymentsWithInterest={allPaymentsWithInterest}
+        formatCurrency={formatCurrency}
+        updateProjectData={updateProjectData}
+      />
+
+      <RealReturns
+        projectData={projectData}
+        allPaymentsWithInterest={allPaymentsWithInterest}
+        formatCurrency={formatCurrency}
+        updateProjectData={updateProjectData}
+      />
+
+      <OpportunityCostComparison
+        projectData={projectData}
+        allPaymentsWithInterest={allPaymentsWithInterest}
+        formatCurrency={formatCurrency}
+        updateProjectData={updateProjectData}
+      />
+
+      {allPaymentsWithInterest?.some(p => p.type === 'drawdown') && (
+        <LeverageComparison
+          projectData={projectData}
+          allPaymentsWithInterest={allPaymentsWithInterest}
+        />
+      )}
+
+      {allPaymentsWithInterest?.some(p => p.type === 'drawdown') && (
+        <HomeLoanTaxBenefits
+          projectData={projectData}
+          allPaymentsWithInterest={allPaymentsWithInterest}
+          formatCurrency={formatCurrency}
+          updateProjectData={updateProjectData}
+        />
+      )}
+
+      {projectData.emi?.enabled && projectEndDate && (
+        <EmiOptionComparison
+          projectData={projectData}
+          allPaymentsWithInterest={allPaymentsWithInterest}
+          projectEndDate={projectEndDate}
+          formatCurrency={formatCurrency}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
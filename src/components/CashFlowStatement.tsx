@@ -0,0 +1,123 @@
+import React, { useMemo } from 'react';
+import { format } from 'date-fns';
+import { Download } from 'lucide-react';
+import { Payment, ProjectData } from '@/types/project';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { monthToDate } from '@/components/payments/utils';
+import { buildCashFlowStatement } from '@/utils/cashFlowStatement';
+import { exportCashFlowStatementToCsv } from '@/utils/csvExport';
+
+interface CashFlowStatementProps {
+  projectData: ProjectData;
+  allPaymentsWithInterest: Payment[];
+}
+
+const formatAmount = (value: number) => {
+  if (Math.abs(value) < 0.5) return '—';
+  return new Intl.NumberFormat('en-IN', { maximumFractionDigits: 0 }).format(value);
+};
+
+const amountClass = (value: number) => value < -0.5 ? 'text-red-600' : '';
+
+export const CashFlowStatement: React.FC<CashFlowStatementProps> = ({
+  projectData,
+  allPaymentsWithInterest
+}) => {
+  const { toast } = useToast();
+  const rows = useMemo(
+    () => buildCashFlowStatement(allPaymentsWithInterest || [], projectData),
+    [allPaymentsWithInterest, projectData]
+  );
+
+  const totals = useMemo(() => rows.reduce(
+    (sum, row) => ({
+      payments: sum.payments + row.payments,
+      interest: sum.interest + row.interest,
+      rental: sum.rental + row.rental,
+      sale: sum.sale + row.sale,
+      netCashFlow: sum.netCashFlow + row.netCashFlow
+    }),
+    { payments: 0, interest: 0, rental: 0, sale: 0, netCashFlow: 0 }
+  ), [rows]);
+
+  const handleExport = () => {
+    try {
+      const blob = new Blob([exportCashFlowStatementToCsv(rows)], { type: 'text/csv;charset=utf-8;' });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `${projectData.projectName || 'project'}-cash-flow-statement.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      toast({ title: 'CSV Downloaded', description: 'Monthly cash flow statement has been downloaded.' });
+    } catch (error) {
+      console.error('Error exporting cash flow statement:', error);
+      toast({ title: 'Export Error', description: 'Failed to export the cash flow statement.', variant: 'destructive' });
+    }
+  };
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">Add entries to see the monthly cash flow statement.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          Cash from and to your pocket each month; outflows are negative. Loan balance is at month end.
+        </p>
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleExport}>
+          <Download className="w-3 h-3 mr-1" />
+          Export CSV
+        </Button>
+      </div>
+      <div className="border rounded-md max-h-[480px] overflow-auto">
+        <Table className="text-xs">
+          <TableHeader className="sticky top-0 bg-white">
+            <TableRow>
+              <TableHead className="h-8">Month</TableHead>
+              <TableHead className="h-8 text-right">Payments</TableHead>
+              <TableHead className="h-8 text-right">Interest & Charges</TableHead>
+              <TableHead className="h-8 text-right">Rental</TableHead>
+              <TableHead className="h-8 text-right">Sale</TableHead>
+              <TableHead className="h-8 text-right">Net Cash Flow</TableHead>
+              <TableHead className="h-8 text-right">Cumulative</TableHead>
+              <TableHead className="h-8 text-right">Loan Balance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.month}>
+                <TableCell className="py-1">{format(monthToDate(row.month), 'MMM yyyy')}</TableCell>
+                <TableCell className={`py-1 text-right ${amountClass(row.payments)}`}>{formatAmount(row.payments)}</TableCell>
+                <TableCell className={`py-1 text-right ${amountClass(row.interest)}`}>{formatAmount(row.interest)}</TableCell>
+                <TableCell className="py-1 text-right">{formatAmount(row.rental)}</TableCell>
+                <TableCell className="py-1 text-right">{formatAmount(row.sale)}</TableCell>
+                <TableCell className={`py-1 text-right font-medium ${amountClass(row.netCashFlow)}`}>
+                  {formatAmount(row.netCashFlow)}
+                </TableCell>
+                <TableCell className={`py-1 text-right ${amountClass(row.cumulativeCashFlow)}`}>
+                  {formatAmount(row.cumulativeCashFlow)}
+                </TableCell>
+                <TableCell className="py-1 text-right text-gray-600">{formatAmount(row.outstandingBalance)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow className="font-medium">
+              <TableCell className="py-1">Total</TableCell>
+              <TableCell className="py-1 text-right">{formatAmount(totals.payments)}</TableCell>
+              <TableCell className="py-1 text-right">{formatAmount(totals.interest)}</TableCell>
+              <TableCell className="py-1 text-right">{formatAmount(totals.rental)}</TableCell>
+              <TableCell className="py-1 text-right">{formatAmount(totals.sale)}</TableCell>
+              <TableCell className="py-1 text-right">{formatAmount(totals.netCashFlow)}</TableCell>
+              <TableCell className="py-1" colSpan={2} />
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useMemo } from 'react';
+import { Area, Bar, CartesianGrid, ComposedChart, Line, ReferenceLine, TooltipProps, XAxis, YAxis } from 'recharts';
+import { format } from 'date-fns';
+import { Payment, ProjectData } from '@/types/project';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip } from '@/components/ui/chart';
+import { buildCashFlowTimeline, TimelinePoint } from '@/utils/cashFlowStatement';
+
+interface CashFlowTimelineProps {
+  projectData: ProjectData;
+  allPaymentsWithInterest: Payment[];
+}
+
+const positionConfig = {
+  cumulativeCashFlow: { label: 'Cash Position', color: 'hsl(221, 83%, 53%)' },
+  outstandingBalance: { label: 'Loan Balance', color: 'hsl(25, 95%, 53%)' },
+} satisfies ChartConfig;
+
+const monthlyConfig = {
+  outflow: { label: 'Outflow', color: 'hsl(0, 72%, 51%)' },
+  inflow: { label: 'Inflow', color: 'hsl(142, 71%, 45%)' },
+  interestPaid: { label: 'Interest & Charges', color: 'hsl(45, 93%, 47%)' },
+} satisfies ChartConfig;
+
+// Entries listed in a tooltip before the rest are summarised
+const MAX_TOOLTIP_ENTRIES = 8;
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-IN', {
+  style: 'currency',
+  currency: 'INR',
+  maximumFractionDigits: 0
+}).format(value);
+
+const formatLakhs = (value: number) => `${(value / 100000).toFixed(1)}L`;
+
+// Lists the month's series values and the entries behind them
+const TimelineTooltip: React.FC<TooltipProps<number, string> & { config: ChartConfig }> = ({ active, payload, config }) => {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload as TimelinePoint;
+  const shownEntries = point.entries.slice(0, MAX_TOOLTIP_ENTRIES);
+
+  return (
+    <div className="grid min-w-[12rem] max-w-[20rem] gap-1.5 rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+      <div className="font-medium">{point.label}</div>
+      {payload.map(item => (
+        <div key={item.dataKey as string} className="flex items-center justify-between gap-3">
+          <span className="flex items-center gap-1.5 text-muted-foreground">
+            <span className="h-2 w-2 rounded-[2px]" style={{ backgroundColor: item.color }} />
+            {config[item.dataKey as string]?.label}
+          </span>
+          <span className="font-mono tabular-nums">{formatCurrency(Number(item.value))}</span>
+        </div>
+      ))}
+      {shownEntries.length > 0 && (
+        <div className="border-t pt-1.5 space-y-0.5">
+          {shownEntries.map((entry, index) => (
+            <div key={index} className="flex justify-between gap-3">
+              <span className="truncate text-muted-foreground">
+                {format(entry.date, 'dd MMM')} · {entry.description}
+                {entry.column === 'loan' && ' (loan)'}
+              </span>
+              <span className={`font-mono tabular-nums ${entry.amount < 0 ? 'text-red-600' : ''}`}>
+                {formatCurrency(entry.amount)}
+              </span>
+            </div>
+          ))}
+          {point.entries.length > shownEntries.length && (
+            <div className="text-muted-foreground">+{point.entries.length - shownEntries.length} more</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const CashFlowTimeline: React.FC<CashFlowTimelineProps> = ({
+  projectData,
+  allPaymentsWithInterest
+}) => {
+  const timeline = useMemo(
+    () => buildCashFlowTimeline(allPaymentsWithInterest || [], projectData),
+    [allPaymentsWithInterest, projectData]
+  );
+
+  if (timeline.length === 0) {
+    return <p className="text-sm text-muted-foreground">Add entries to see the cash flow timeline.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="border rounded-md p-3 space-y-2">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700">Cash Position and Loan Balance</h4>
+          <p className="text-xs text-muted-foreground">
+            Cumulative cash from your pocket (below zero while invested) against the loan outstanding at month end
+          </p>
+        </div>
+        <ChartContainer config={positionConfig} className="h-64 w-full aspect-auto">
+          <ComposedChart data={timeline} margin={{ left: 12, right: 12, top: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+            <YAxis tickFormatter={formatLakhs} tickLine={false} axisLine={false} width={48} />
+            <ReferenceLine y={0} stroke="#9ca3af" />
+            <ChartTooltip content={<TimelineTooltip config={positionConfig} />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Area
+              dataKey="outstandingBalance"
+              type="stepAfter"
+              fill="var(--color-outstandingBalance)"
+              fillOpacity={0.2}
+              stroke="var(--color-outstandingBalance)"
+            />
+            <Line dataKey="cumulativeCashFlow" type="monotone" stroke="var(--color-cumulativeCashFlow)" strokeWidth={2} dot={false} />
+          </ComposedChart>
+        </ChartContainer>
+      </div>
+
+      <div className="border rounded-md p-3 space-y-2">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700">Monthly Cash Flows</h4>
+          <p className="text-xs text-muted-foreground">Money out and in each month, with interest and charges overlaid</p>
+        </div>
+        <ChartContainer config={monthlyConfig} className="h-64 w-full aspect-auto">
+          <ComposedChart data={timeline} margin={{ left: 12, right: 12, top: 8 }} stackOffset="sign">
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+            <YAxis tickFormatter={formatLakhs} tickLine={false} axisLine={false} width={48} />
+            <ReferenceLine y={0} stroke="#9ca3af" />
+            <ChartTooltip content={<TimelineTooltip config={monthlyConfig} />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="outflow" stackId="cash" fill="var(--color-outflow)" />
+            <Bar dataKey="inflow" stackId="cash" fill="var(--color-inflow)" />
+            <Line dataKey="interestPaid" type="monotone" stroke="var(--color-interestPaid)" strokeWidth={2} dot={false} />
+          </ComposedChart>
+        </ChartContainer>
+      </div>
+    </div>
+  );
+};
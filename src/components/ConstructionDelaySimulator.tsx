@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Check, Loader2, Play } from 'lucide-react';
+import { Payment, ProjectData } from '@/types/project';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ConstructionDelayResult, DelayOutcome, simulateConstructionDelay } from '@/utils/constructionDelay';
+
+interface ConstructionDelaySimulatorProps {
+  projectData: ProjectData;
+  allPaymentsWithInterest: Payment[];
+  projectEndDate: Date;
+  formatCurrency: (value: number) => string;
+  onAcceptDelay?: (result: ConstructionDelayResult) => void;
+}
+
+const formatXirr = (outcome: DelayOutcome) => outcome.xirrValue !== null ? `${outcome.xirrValue.toFixed(2)}%` : 'No solution';
+const formatEndDate = (date: Date | null) => date ? format(date, 'dd MMM yyyy') : '-';
+
+export const ConstructionDelaySimulator: React.FC<ConstructionDelaySimulatorProps> = ({
+  projectData,
+  allPaymentsWithInterest,
+  projectEndDate,
+  formatCurrency,
+  onAcceptDelay
+}) => {
+  const [fromDate, setFromDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [months, setMonths] = useState(6);
+  const [result, setResult] = useState<ConstructionDelayResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const delayDate = new Date(fromDate);
+  const isValidDelay = !isNaN(delayDate.getTime()) && Number.isInteger(months) && months !== 0;
+
+  // Both plans rerun the interest engine, so the comparison is only built on request
+  const runSimulation = () => {
+    setIsRunning(true);
+    setTimeout(() => {
+      try {
+        setResult(simulateConstructionDelay(projectData, allPaymentsWithInterest, projectEndDate, { fromDate: delayDate, months }));
+      } finally {
+        setIsRunning(false);
+      }
+    }, 0);
+  };
+
+  const acceptDelay = () => {
+    if (!result || !onAcceptDelay) return;
+    onAcceptDelay(result);
+    setResult(null);
+  };
+
+  const rows = result ? [
+    { label: 'XIRR', before: formatXirr(result.before), after: formatXirr(result.after) },
+    { label: 'Net Profit', before: formatCurrency(result.before.netProfit), after: formatCurrency(result.after.netProfit) },
+    { label: 'Total Interest', before: formatCurrency(result.before.totalInterest), after: formatCurrency(result.after.totalInterest) },
+    { label: 'Project End', before: formatEndDate(result.before.lastEntryDate), after: formatEndDate(result.after.lastEntryDate) },
+  ] : [];
+
+  return (
+    <div className="border rounded-md p-3 space-y-3">
+      <div>
+        <h4 className="text-sm font-medium text-gray-700">Construction Delay</h4>
+        <p className="text-xs text-muted-foreground">
+          Moves every entry dated on or after the delay date (milestones, drawdowns, possession, registration, the sale
+          and rental income) and recalculates interest. The saved plan only changes if you accept the delay.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="w-40">
+          <Label htmlFor="delayFromDate" className="text-xs">Delay from</Label>
+          <Input
+            id="delayFromDate"
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="h-8 text-sm"
+          />
+        </div>
+        <div className="w-24">
+          <Label htmlFor="delayMonths" className="text-xs">Months</Label>
+          <Input
+            id="delayMonths"
+            type="number"
+            step="1"
+            value={months}
+            onChange={(e) => setMonths(Math.round(Number(e.target.value)))}
+            className="h-8 text-sm"
+          />
+        </div>
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={runSimulation} disabled={isRunning || !isValidDelay}>
+          {isRunning ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Play className="w-3 h-3 mr-1" />}
+          Simulate
+        </Button>
+      </div>
+
+      {result && result.shiftedCount === 0 && (
+        <p className="text-xs text-muted-foreground">No entries fall on or after {format(result.delay.fromDate, 'dd MMM yyyy')}.</p>
+      )}
+
+      {result && result.shiftedCount > 0 && (
+        <>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-normal py-1">
+                  {result.shiftedCount} entries moved {result.delay.months > 0 ? 'later' : 'earlier'} by {Math.abs(result.delay.months)} months
+                </th>
+                <th className="text-right font-normal py-1 px-2">Current plan</th>
+                <th className="text-right font-normal py-1 px-2">Delayed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.label} className="border-t">
+                  <td className="py-1 text-gray-500">{row.label}</td>
+                  <td className="py-1 px-2 text-right">{row.before}</td>
+                  <td className="py-1 px-2 text-right font-semibold">{row.after}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className={`text-xs ${result.extraInterest > 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {result.extraInterest >= 0 ? 'Extra' : 'Saved'} interest: {formatCurrency(Math.abs(result.extraInterest))}
+              {result.before.xirrValue !== null && result.after.xirrValue !== null &&
+                ` · XIRR ${result.after.xirrValue - result.before.xirrValue >= 0 ? '+' : ''}${(result.after.xirrValue - result.before.xirrValue).toFixed(2)} pp`}
+            </p>
+            {onAcceptDelay && (
+              <Button variant="outline" size="sm" className="h-8 text-xs" onClick={acceptDelay}>
+                <Check className="w-3 h-3 mr-1" />
+                Accept delay
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React, { useMemo } from 'react';
+import { Payment, ProjectData } from '@/types/project';
+import { compareEmiOptions, EMI_MODE_LABELS } from '@/utils/emiComparison';
+
+interface EmiOptionComparisonProps {
+  projectData: ProjectData;
+  allPaymentsWithInterest: Payment[];
+  projectEndDate: Date;
+  formatCurrency: (value: number) => string;
+}
+
+export const EmiOptionComparison: React.FC<EmiOptionComparisonProps> = ({
+  projectData,
+  allPaymentsWithInterest,
+  projectEndDate,
+  formatCurrency
+}) => {
+  const results = useMemo(
+    () => compareEmiOptions(projectData, allPaymentsWithInterest, projectEndDate),
+    [projectData, allPaymentsWithInterest, projectEndDate]
+  );
+
+  if (results.length < 2) return null;
+
+  const bestXirr = Math.max(...results.map(result => result.xirrValue ?? -Infinity));
+  const currentMode = projectData.emi?.mode || 'pre-emi';
+
+  return (
+    <div className="border rounded-md p-3">
+      <h4 className="text-sm font-medium text-gray-700 mb-2">Pre-EMI vs Full EMI</h4>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="text-left font-normal py-1">Option</th>
+            <th className="text-right font-normal py-1">XIRR</th>
+            <th className="text-right font-normal py-1">Total Interest</th>
+            <th className="text-right font-normal py-1">Investment</th>
+            <th className="text-right font-normal py-1">Net Profit</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map(result => (
+            <tr key={result.mode} className={`border-t ${result.xirrValue === bestXirr ? 'bg-green-50' : ''}`}>
+              <td className="py-1">
+                {EMI_MODE_LABELS[result.mode]}
+                {result.mode === currentMode && <span className="ml-1 text-gray-400">(current)</span>}
+              </td>
+              <td className="py-1 text-right font-medium">{result.xirrValue !== null ? `${result.xirrValue.toFixed(2)}%` : 'No solution'}</td>
+              <td className="py-1 text-right">{formatCurrency(result.totalInterest)}</td>
+              <td className="py-1 text-right">{formatCurrency(result.totalInvestment)}</td>
+              <td className="py-1 text-right">{formatCurrency(result.netProfit)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-muted-foreground mt-2">
+        Both options are recalculated from the current entries; switch the repayment option in Loan Settings.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import React from 'react';
+import { EmiConfig, EmiMode, ProjectData } from '@/types/project';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { CalendarClock, RefreshCw } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { getEmiRateTerms, getEmiSchedule, getEmiStartDate } from '@/utils/emiSchedule';
+import { calculateFacilityBalances, getReturnAllocation, PRIMARY_FACILITY_ID } from '@/utils/loanTracker';
+
+interface EmiScheduleSettingsProps {
+  projectData: ProjectData;
+  updateProjectData: (updates: Partial<ProjectData>) => void;
+  projectEndDate?: Date;
+  onApplySchedule?: () => void;
+}
+
+const defaultEmiConfig = (): EmiConfig => ({
+  enabled: false,
+  principal: 0,
+  tenureMonths: 240,
+  startDate: format(new Date(), 'yyyy-MM-dd'),
+});
+
+const formatCurrency = (amount: number) =>
+  `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+
+export const EmiScheduleSettings: React.FC<EmiScheduleSettingsProps> = ({
+  projectData,
+  updateProjectData,
+  projectEndDate,
+  onApplySchedule
+}) => {
+  const emi = projectData.emi || defaultEmiConfig();
+  const facilities = projectData.loanFacilities || [];
+
+  const updateEmi = (updates: Partial<EmiConfig>) => {
+    updateProjectData({ emi: { ...emi, ...updates } });
+  };
+
+  const isFullEmi = emi.mode === 'full-emi';
+
+  // Pre-EMI starts on the outstanding balance; full EMI is fixed on the whole disbursed (sanctioned) amount
+  const manualPayments = (projectData.payments || []).filter(p => p.source !== 'emi');
+  const outstanding = calculateFacilityBalances(manualPayments, undefined, getReturnAllocation(projectData.settings))[emi.facilityId || PRIMARY_FACILITY_ID] || 0;
+  const totalDisbursed = manualPayments
+    .filter(p => p.type === 'drawdown' && (p.facilityId || undefined) === (emi.facilityId || undefined))
+    .reduce((sum, p) => sum + Math.abs(p.amount), 0);
+  const suggestedPrincipal = Math.round(isFullEmi ? totalDisbursed : outstanding);
+
+  const endDate = projectEndDate || new Date(new Date().getFullYear() + 30, 0, 1);
+  const { annualRate } = getEmiRateTerms(projectData, endDate);
+  const schedule = getEmiSchedule(manualPayments, { ...projectData, emi }, endDate);
+  const fullEmiStartDate = isFullEmi ? getEmiStartDate(manualPayments, emi) : null;
+  const firstEmi = schedule.find(row => row.emi > 0)?.emi || 0;
+  const totalInterest = schedule.reduce((sum, row) => sum + row.interest, 0);
+
+  return (
+    <Card className="border-blue-200">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <CalendarClock className="w-4 h-4 text-blue-600" />
+            EMI Schedule
+          </span>
+          <Switch
+            checked={emi.enabled}
+            onCheckedChange={(checked) => updateEmi({
+              enabled: checked,
+              ...(checked && emi.principal === 0 ? { principal: suggestedPrincipal } : {})
+            })}
+            aria-label="Repay through EMI"
+          />
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="emiMode">Repayment Option</Label>
+            <select
+              id="emiMode"
+              value={emi.mode || 'pre-emi'}
+              onChange={(e) => updateEmi({ mode: e.target.value as EmiMode })}
+              className="w-full h-8 text-sm rounded-md border border-input px-2"
+            >
+              <option value="pre-emi">Pre-EMI (interest only until EMI starts)</option>
+              <option value="full-emi">Full EMI from first disbursal</option>
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="emiFacility">Loan</Label>
+            <select
+              id="emiFacility"
+              value={emi.facilityId || ''}
+              onChange={(e) => updateEmi({ facilityId: e.target.value || undefined })}
+              className="w-full h-8 text-sm rounded-md border border-input px-2"
+            >
+              <option value="">Primary loan</option>
+              {facilities.map(facility => (
+                <option key={facility.id} value={facility.id}>{facility.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="emiPrincipal">Principal (₹)</Label>
+            <Input
+              id="emiPrincipal"
+              type="number"
+              value={emi.principal}
+              onChange={(e) => updateEmi({ principal: Math.abs(Number(e.target.value)) })}
+              className="h-8 text-sm"
+            />
+            {suggestedPrincipal > 0 && suggestedPrincipal !== emi.principal && (
+              <button
+                type="button"
+                onClick={() => updateEmi({ principal: suggestedPrincipal })}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                Use {isFullEmi ? 'total disbursed' : 'outstanding'} {formatCurrency(suggestedPrincipal)}
+              </button>
+            )}
+          </div>
+          <div>
+            <Label htmlFor="emiTenure">Tenure (months)</Label>
+            <Input
+              id="emiTenure"
+              type="number"
+              value={emi.tenureMonths}
+              onChange={(e) => updateEmi({ tenureMonths: Math.max(1, Math.round(Number(e.target.value))) })}
+              className="h-8 text-sm"
+            />
+          </div>
+          <div>
+            <Label htmlFor="emiStartDate">First EMI</Label>
+            <Input
+              id="emiStartDate"
+              type="date"
+              value={isFullEmi ? fullEmiStartDate || '' : emi.startDate}
+              onChange={(e) => updateEmi({ startDate: e.target.value })}
+              disabled={isFullEmi}
+              className="h-8 text-sm"
+            />
+            {isFullEmi && (
+              <p className="text-xs text-gray-500 mt-1">A month after the first disbursal</p>
+            )}
+          </div>
+        </div>
+
+        {schedule.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs text-gray-600">
+              <span>EMI <span className="font-medium">{formatCurrency(firstEmi)}</span> @ {annualRate.toFixed(2)}%</span>
+              <span>{schedule.length} instalments · Interest {formatCurrency(totalInterest)}</span>
+            </div>
+            <div className="max-h-56 overflow-y-auto border rounded">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr className="text-gray-500">
+                    <th className="px-2 py-1 text-left font-normal">#</th>
+                    <th className="px-2 py-1 text-left font-normal">Date</th>
+                    <th className="px-2 py-1 text-right font-normal">EMI</th>
+                    <th className="px-2 py-1 text-right font-normal">Interest</th>
+                    <th className="px-2 py-1 text-right font-normal">Principal</th>
+                    <th className="px-2 py-1 text-right font-normal">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {schedule.map(row => (
+                    <tr key={row.period} className="border-t">
+                      <td className="px-2 py-1">{row.period}</td>
+                      <td className="px-2 py-1">
+                        {format(parseISO(row.date), 'MMM yyyy')}
+                        {row.disbursement > 0 && (
+                          <span className="ml-1 text-orange-600" title="Disbursed since the previous EMI">
+                            +{formatCurrency(row.disbursement)}
+                          </span>
+                        )}
+                        {row.prepayment > 0 && (
+                          <span className="ml-1 text-green-600" title="Prepayment since the previous EMI">
+                            −{formatCurrency(row.prepayment)}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-2 py-1 text-right">{formatCurrency(row.emi)}</td>
+                      <td className="px-2 py-1 text-right text-purple-600">{formatCurrency(row.interest)}</td>
+                      <td className="px-2 py-1 text-right text-blue-600">{formatCurrency(row.principal)}</td>
+                      <td className="px-2 py-1 text-right">{formatCurrency(row.closingBalance)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {onApplySchedule && (
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-gray-500">
+              EMI entries are regenerated on every interest calculation, picking up rate changes and prepayments.
+            </p>
+            <Button size="sm" className="h-7 text-xs shrink-0" onClick={onApplySchedule}>
+              <RefreshCw className="w-3 h-3 mr-1" />
+              {emi.enabled ? 'Generate Entries' : 'Remove Entries'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,21 +1,62 @@
-
 import React from 'react';
-import { ProjectData } from '@/types/project';
+import { DayCountConvention, InterestMode, ProjectData, RateChange, RestPeriod } from '@/types/project';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { TrendingUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { TrendingUp, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { generateId } from '@/utils/idGenerator';
+import { sortRateSchedule } from '@/utils/interestCalculator';
+import { FloatingRateSettings } from '@/components/FloatingRateSettings';
+import { LoanFacilitiesSettings } from '@/components/LoanFacilitiesSettings';
+import { ReturnAllocationSettings } from '@/components/ReturnAllocationSettings';
+import { InterestHolidaySettings } from '@/components/InterestHolidaySettings';
+import { LoanCostSettings } from '@/components/LoanCostSettings';
+import { EmiScheduleSettings } from '@/components/EmiScheduleSettings';
 
 interface FinancialMetricsProps {
   projectData: ProjectData;
   updateProjectData: (updates: Partial<ProjectData>) => void;
+  projectEndDate?: Date;
+  onApplyEmiSchedule?: () => void;
 }
 
-export const FinancialMetrics: React.FC<FinancialMetricsProps> = ({ projectData, updateProjectData }) => {
+export const FinancialMetrics: React.FC<FinancialMetricsProps> = ({
+  projectData,
+  updateProjectData,
+  projectEndDate,
+  onApplyEmiSchedule
+}) => {
+  const rateSchedule = projectData.rateSchedule || [];
+
   const handleInputChange = (field: keyof ProjectData, value: number) => {
     updateProjectData({ [field]: value });
   };
 
+  const updateRateSchedule = (schedule: RateChange[]) => {
+    updateProjectData({ rateSchedule: sortRateSchedule(schedule) });
+  };
+
+  const handleAddRateChange = () => {
+    updateRateSchedule([
+      ...rateSchedule,
+      {
+        id: generateId('rate'),
+        effectiveFrom: format(new Date(), 'yyyy-MM-dd'),
+        annualRate: projectData.annualInterestRate
+      }
+    ]);
+  };
+
+  const handleRateChangeUpdate = (id: string, updates: Partial<RateChange>) => {
+    updateRateSchedule(rateSchedule.map(change => change.id === id ? { ...change, ...updates } : change));
+  };
+
+  const handleRemoveRateChange = (id: string) => {
+    updateRateSchedule(rateSchedule.filter(change => change.id !== id));
+  };
+
   return (
     <div className="space-y-6">
       <div className="grid gap-6 md:grid-cols-1 lg:grid-cols-1">
@@ -39,10 +80,169 @@ export const FinancialMetrics: React.FC<FinancialMetricsProps> = ({ projectData,
               />
               <p className="text-xs text-gray-500 mt-1">
                 {(projectData.annualInterestRate / 12).toFixed(2)}% monthly rate
+                {rateSchedule.length > 0 && ' (applies until the first rate change)'}
+              </p>
+            </div>
+
+            {/* Interest treatment */}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="interestMode">Interest Treatment</Label>
+                <select
+                  id="interestMode"
+                  value={projectData.interestMode || 'simple'}
+                  onChange={(e) => updateProjectData({ interestMode: e.target.value as InterestMode })}
+                  className="w-full h-9 text-sm rounded-md border border-input px-2"
+                >
+                  <option value="simple">Simple (paid monthly)</option>
+                  <option value="compound">Monthly compounding</option>
+                  <option value="capitalised">Capitalised until date</option>
+                </select>
+              </div>
+              {projectData.interestMode === 'capitalised' && (
+                <div>
+                  <Label htmlFor="capitaliseUntil">Capitalise Until</Label>
+                  <Input
+                    id="capitaliseUntil"
+                    type="date"
+                    value={projectData.capitaliseUntil || ''}
+                    onChange={(e) => updateProjectData({ capitaliseUntil: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+            {projectData.interestMode && projectData.interestMode !== 'simple' && (
+              <p className="text-xs text-gray-500 -mt-2">
+                Capitalised interest is added to the outstanding principal and repaid from returns instead of from pocket.
+              </p>
+            )}
+
+            {/* Day count and rests */}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="dayCountConvention">Day Count</Label>
+                <select
+                  id="dayCountConvention"
+                  value={projectData.dayCountConvention || 'monthly'}
+                  onChange={(e) => updateProjectData({ dayCountConvention: e.target.value as DayCountConvention })}
+                  className="w-full h-9 text-sm rounded-md border border-input px-2"
+                >
+                  <option value="monthly">Monthly (APR / 12)</option>
+                  <option value="actual/365">Actual/365</option>
+                  <option value="actual/360">Actual/360</option>
+                  <option value="30/360">30/360</option>
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="restPeriod">Rests</Label>
+                <select
+                  id="restPeriod"
+                  value={projectData.restPeriod || 'daily'}
+                  onChange={(e) => updateProjectData({ restPeriod: e.target.value as RestPeriod })}
+                  className="w-full h-9 text-sm rounded-md border border-input px-2"
+                >
+                  <option value="daily">Daily</option>
+                  <option value="monthly">Monthly</option>
+                  <option value="annual">Annual (April)</option>
+                </select>
+              </div>
+            </div>
+            {projectData.restPeriod && projectData.restPeriod !== 'daily' && (
+              <p className="text-xs text-gray-500 -mt-2">
+                Repayments reduce the interest-bearing balance only from the next {projectData.restPeriod === 'monthly' ? 'month' : 'financial year'}.
               </p>
+            )}
+
+            {/* Floating rate changes */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Rate Changes</Label>
+                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleAddRateChange}>
+                  <Plus className="w-3 h-3 mr-1" />
+                  Add Change
+                </Button>
+              </div>
+              {projectData.floatingRate?.enabled && (
+                <p className="text-xs text-amber-600">
+                  Manual rate changes are ignored while the benchmark-linked rate is on.
+                </p>
+              )}
+              {rateSchedule.length === 0 ? (
+                <p className="text-xs text-gray-500">
+                  No rate changes. The APR above applies for the whole loan.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {rateSchedule.map(change => (
+                    <div key={change.id} className="flex items-center gap-2">
+                      <Input
+                        type="date"
+                        value={change.effectiveFrom}
+                        onChange={(e) => handleRateChangeUpdate(change.id, { effectiveFrom: e.target.value })}
+                        className="h-8 text-sm"
+                        aria-label="Effective from"
+                      />
+                      <Input
+                        type="number"
+                        step="0.05"
+                        value={change.annualRate}
+                        onChange={(e) => handleRateChangeUpdate(change.id, { annualRate: Number(e.target.value) })}
+                        className="h-8 text-sm w-24"
+                        aria-label="Annual rate (%)"
+                      />
+                      <span className="text-xs text-gray-500">%</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemoveRateChange(change.id)}
+                        className="h-7 w-7 p-0 text-red-600 hover:bg-red-50"
+                        title="Remove rate change"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                  ))}
+                  <p className="text-xs text-gray-500">
+                    Interest for a month is split at each change; recalculate interest to apply.
+                  </p>
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
+
+        <FloatingRateSettings
+          projectData={projectData}
+          updateProjectData={updateProjectData}
+          projectEndDate={projectEndDate}
+        />
+
+        <LoanFacilitiesSettings
+          projectData={projectData}
+          updateProjectData={updateProjectData}
+        />
+
+        <ReturnAllocationSettings
+          projectData={projectData}
+          updateProjectData={updateProjectData}
+        />
+
+        <InterestHolidaySettings
+          projectData={projectData}
+          updateProjectData={updateProjectData}
+        />
+
+        <EmiScheduleSettings
+          projectData={projectData}
+          updateProjectData={updateProjectData}
+          projectEndDate={projectEndDate}
+          onApplySchedule={onApplyEmiSchedule}
+        />
+
+        <LoanCostSettings
+          projectData={projectData}
+          updateProjectData={updateProjectData}
+        />
       </div>
     </div>
   );
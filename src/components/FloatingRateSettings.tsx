@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { BenchmarkRate, FloatingRateConfig, ProjectData, RateResetFrequency } from '@/types/project';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { Landmark, Trash2, Upload } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import {
+  COMMON_BENCHMARKS,
+  deriveFloatingRateSchedule,
+  mergeBenchmarkRates,
+  parseBenchmarkRatesCsv
+} from '@/utils/floatingRate';
+import { getFirstDrawdownDate } from '@/utils/paymentEntries';
+
+interface FloatingRateSettingsProps {
+  projectData: ProjectData;
+  updateProjectData: (updates: Partial<ProjectData>) => void;
+  projectEndDate?: Date;
+}
+
+const defaultFloatingRate = (): FloatingRateConfig => ({
+  enabled: false,
+  benchmark: 'REPO',
+  spread: 2.75,
+  resetFrequency: 'quarterly',
+  firstResetDate: format(new Date(), 'yyyy-MM-dd'),
+});
+
+export const FloatingRateSettings: React.FC<FloatingRateSettingsProps> = ({
+  projectData,
+  updateProjectData,
+  projectEndDate
+}) => {
+  const { toast } = useToast();
+  const [csvText, setCsvText] = useState('');
+  const floatingRate = projectData.floatingRate || defaultFloatingRate();
+  const benchmarkRates = projectData.benchmarkRates || [];
+
+  const updateFloatingRate = (updates: Partial<FloatingRateConfig>) => {
+    updateProjectData({ floatingRate: { ...floatingRate, ...updates } });
+  };
+
+  // Preview of the effective rate from the first drawdown and on each reset date
+  const derivedSchedule = deriveFloatingRateSchedule(
+    floatingRate,
+    benchmarkRates,
+    projectEndDate || new Date(new Date().getFullYear() + 5, 0, 1),
+    getFirstDrawdownDate((projectData.payments || []).filter(p => !p.facilityId))
+  );
+
+  const handleImport = (text: string) => {
+    const { rates, errors } = parseBenchmarkRatesCsv(text, floatingRate.benchmark);
+    if (errors.length > 0) {
+      toast({
+        title: 'Import Warning',
+        description: errors.slice(0, 3).join(' '),
+        variant: 'destructive'
+      });
+    }
+    if (rates.length > 0) {
+      updateProjectData({ benchmarkRates: mergeBenchmarkRates(benchmarkRates, rates) });
+      toast({ description: `Imported ${rates.length} benchmark rate(s).` });
+      setCsvText('');
+    }
+  };
+
+  const handleFileImport = async (file: File) => {
+    try {
+      handleImport(await file.text());
+    } catch (error) {
+      console.error('Error reading benchmark CSV:', error);
+      toast({ title: 'Error', description: 'Failed to read CSV file.', variant: 'destructive' });
+    }
+  };
+
+  const handleRemoveRate = (id: string) => {
+    updateProjectData({ benchmarkRates: benchmarkRates.filter(rate => rate.id !== id) });
+  };
+
+  return (
+    <Card className="border-blue-200">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Landmark className="w-4 h-4 text-blue-600" />
+            Benchmark-Linked Rate
+          </span>
+          <Switch
+            checked={floatingRate.enabled}
+            onCheckedChange={(checked) => updateFloatingRate({ enabled: checked })}
+            aria-label="Use benchmark-linked rate"
+          />
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="benchmark">Benchmark</Label>
+            <Input
+              id="benchmark"
+              list="benchmark-options"
+              value={floatingRate.benchmark}
+              onChange={(e) => updateFloatingRate({ benchmark: e.target.value.toUpperCase() })}
+              className="h-8 text-sm"
+            />
+            <datalist id="benchmark-options">
+              {COMMON_BENCHMARKS.map(benchmark => <option key={benchmark} value={benchmark} />)}
+            </datalist>
+          </div>
+          <div>
+            <Label htmlFor="spread">Spread (%)</Label>
+            <Input
+              id="spread"
+              type="number"
+              step="0.05"
+              value={floatingRate.spread}
+              onChange={(e) => updateFloatingRate({ spread: Number(e.target.value) })}
+              className="h-8 text-sm"
+            />
+          </div>
+          <div>
+            <Label htmlFor="resetFrequency">Reset Frequency</Label>
+            <select
+              id="resetFrequency"
+              value={floatingRate.resetFrequency}
+              onChange={(e) => updateFloatingRate({ resetFrequency: e.target.value as RateResetFrequency })}
+              className="w-full h-8 text-sm rounded-md border border-input px-2"
+            >
+              <option value="monthly">Monthly</option>
+              <option value="quarterly">Quarterly</option>
+              <option value="half-yearly">Half-yearly</option>
+              <option value="annual">Annual</option>
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="firstResetDate">First Reset</Label>
+            <Input
+              id="firstResetDate"
+              type="date"
+              value={floatingRate.firstResetDate}
+              onChange={(e) => updateFloatingRate({ firstResetDate: e.target.value })}
+              className="h-8 text-sm"
+            />
+          </div>
+        </div>
+
+        {floatingRate.enabled && (
+          <div className="text-xs text-gray-600 space-y-1">
+            <p className="font-medium">Effective rate from the first drawdown and each reset</p>
+            {derivedSchedule.length === 0 ? (
+              <p className="text-gray-500">
+                No {floatingRate.benchmark} values on or before the drawdown and reset dates. The APR applies until one is available.
+              </p>
+            ) : (
+              <div className="max-h-32 overflow-y-auto border rounded p-2">
+                {derivedSchedule.map(change => (
+                  <div key={change.id} className="flex justify-between">
+                    <span>{format(parseISO(change.effectiveFrom), 'dd MMM yyyy')}</span>
+                    <span className="font-medium">{change.annualRate.toFixed(2)}%</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Benchmark rate table */}
+        <div className="space-y-2">
+          <Label>Benchmark Rates</Label>
+          <Textarea
+            value={csvText}
+            onChange={(e) => setCsvText(e.target.value)}
+            placeholder={'Date,Benchmark,Rate\n2025-02-07,REPO,6.25\n2025-04-09,REPO,6.00'}
+            className="text-xs font-mono h-20"
+          />
+          <div className="flex items-center gap-2">
+            <Button size="sm" className="h-7 text-xs" onClick={() => handleImport(csvText)} disabled={!csvText.trim()}>
+              <Upload className="w-3 h-3 mr-1" />
+              Import
+            </Button>
+            <Input
+              type="file"
+              accept=".csv,text/csv"
+              className="h-7 text-xs"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFileImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          {benchmarkRates.length > 0 && (
+            <div className="max-h-40 overflow-y-auto border rounded">
+              {benchmarkRates.map((rate: BenchmarkRate) => (
+                <div key={rate.id} className="flex items-center justify-between px-2 py-1 text-xs border-b last:border-b-0">
+                  <span className="w-16 font-medium">{rate.benchmark}</span>
+                  <span>{format(parseISO(rate.effectiveFrom), 'dd MMM yyyy')}</span>
+                  <span>{rate.rate.toFixed(2)}%</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemoveRate(rate.id)}
+                    className="h-6 w-6 p-0 text-red-600 hover:bg-red-50"
+                    title="Remove benchmark rate"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
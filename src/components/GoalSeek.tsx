@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { FilePlus, Loader2, Play } from 'lucide-react';
+import { Payment, ProjectData } from '@/types/project';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  createDraftSaleEntry,
+  getSaleSummary,
+  GOAL_SEEK_STATUS_LABELS,
+  GOAL_VARIABLE_LABELS,
+  GoalMetric,
+  GoalSeekResult,
+  GoalVariable,
+  MAX_SALE_DELAY_MONTHS,
+  solveGoal
+} from '@/utils/goalSeek';
+
+interface GoalSeekProps {
+  projectData: ProjectData;
+  allPaymentsWithInterest: Payment[];
+  projectEndDate: Date;
+  formatCurrency: (value: number) => string;
+  onAddDraftSale?: (sale: Payment) => void;
+}
+
+const DEFAULT_TARGETS: Record<GoalMetric, number> = {
+  xirr: 15,
+  netProfit: 1000000,
+};
+
+export const GoalSeek: React.FC<GoalSeekProps> = ({
+  projectData,
+  allPaymentsWithInterest,
+  projectEndDate,
+  formatCurrency,
+  onAddDraftSale
+}) => {
+  const [variable, setVariable] = useState<GoalVariable>('sale-amount');
+  const [metric, setMetric] = useState<GoalMetric>('xirr');
+  const [target, setTarget] = useState(DEFAULT_TARGETS.xirr);
+  const [saleDate, setSaleDate] = useState(format(projectEndDate, 'yyyy-MM-dd'));
+  const [goal, setGoal] = useState<GoalSeekResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const hasSale = getSaleSummary(projectData, allPaymentsWithInterest) !== null;
+
+  const changeMetric = (next: GoalMetric) => {
+    setMetric(next);
+    setTarget(DEFAULT_TARGETS[next]);
+  };
+
+  // Each trial reruns the interest engine, so the solver only runs on request
+  const runSolver = () => {
+    setIsRunning(true);
+    setTimeout(() => {
+      try {
+        const trialSaleDate = new Date(saleDate);
+        setGoal(solveGoal(projectData, allPaymentsWithInterest, projectEndDate, {
+          variable,
+          metric,
+          target,
+          saleDate: isNaN(trialSaleDate.getTime()) ? undefined : trialSaleDate
+        }));
+      } finally {
+        setIsRunning(false);
+      }
+    }, 0);
+  };
+
+  const formatTarget = (value: number) => metric === 'xirr' ? `${value}% XIRR` : `${formatCurrency(value)} net profit`;
+  const solvedValue = (result: GoalSeekResult) => {
+    switch (result.variable) {
+      case 'sale-amount':
+        return `${formatCurrency(result.saleAmount as number)} on ${format(result.saleDate as Date, 'dd MMM yyyy')}`;
+      case 'sale-date':
+        return format(result.saleDate as Date, 'MMM yyyy');
+      case 'interest-rate':
+        return result.annualRate === null
+          ? `${(result.rateChange as number) >= 0 ? '+' : ''}${(result.rateChange as number).toFixed(2)} pp on loan rates`
+          : `${(result.annualRate as number).toFixed(2)}%`;
+    }
+  };
+  const canAddDraft = goal && onAddDraftSale && goal.variable !== 'interest-rate' &&
+    (goal.status === 'solved' || goal.status === 'always-met') && goal.saleAmount !== null && goal.saleDate !== null;
+
+  return (
+    <div className="border rounded-md p-3 space-y-3">
+      <div>
+        <h4 className="text-sm font-medium text-gray-700">Goal Seek</h4>
+        <p className="text-xs text-muted-foreground">
+          Finds the sale amount, the latest sale date or the highest loan rate that still makes the target.
+          The sale date is searched up to {MAX_SALE_DELAY_MONTHS / 12} years out; rate changes apply to every loan.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="goalVariable" className="text-xs">Solve for</Label>
+          <select
+            id="goalVariable"
+            value={variable}
+            onChange={(e) => setVariable(e.target.value as GoalVariable)}
+            className="h-8 text-sm rounded-md border border-input px-2 block"
+          >
+            {(Object.keys(GOAL_VARIABLE_LABELS) as GoalVariable[]).map(key => (
+              <option key={key} value={key}>{GOAL_VARIABLE_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="goalMetric" className="text-xs">Target</Label>
+          <select
+            id="goalMetric"
+            value={metric}
+            onChange={(e) => changeMetric(e.target.value as GoalMetric)}
+            className="h-8 text-sm rounded-md border border-input px-2 block"
+          >
+            <option value="xirr">XIRR (%)</option>
+            <option value="netProfit">Net Profit (₹)</option>
+          </select>
+        </div>
+        <div className="w-32">
+          <Label htmlFor="goalTarget" className="text-xs">Value</Label>
+          <Input
+            id="goalTarget"
+            type="number"
+            step={metric === 'xirr' ? '0.5' : '10000'}
+            value={target}
+            onChange={(e) => setTarget(Number(e.target.value))}
+            className="h-8 text-sm"
+          />
+        </div>
+        {variable === 'sale-amount' && !hasSale && (
+          <div className="w-40">
+            <Label htmlFor="goalSaleDate" className="text-xs">Sale date</Label>
+            <Input
+              id="goalSaleDate"
+              type="date"
+              value={saleDate}
+              onChange={(e) => setSaleDate(e.target.value)}
+              className="h-8 text-sm"
+            />
+          </div>
+        )}
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={runSolver} disabled={isRunning}>
+          {isRunning ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Play className="w-3 h-3 mr-1" />}
+          Solve
+        </Button>
+      </div>
+
+      {goal && (
+        <div className="rounded-md bg-gray-50 p-2 space-y-1">
+          <p className="text-xs text-muted-foreground">
+            {GOAL_VARIABLE_LABELS[goal.variable]} for {formatTarget(goal.target)}
+          </p>
+          {goal.status === 'solved' || goal.status === 'always-met' ? (
+            <>
+              <p className="text-lg font-semibold">{solvedValue(goal)}</p>
+              {goal.status === 'always-met' && (
+                <p className="text-xs text-amber-700">{GOAL_SEEK_STATUS_LABELS[goal.status]}; the limit of the search is shown.</p>
+              )}
+              {goal.outcome && (
+                <p className="text-xs text-gray-600">
+                  Gives {goal.outcome.xirrValue !== null ? `${goal.outcome.xirrValue.toFixed(2)}% XIRR` : 'no XIRR solution'} and{' '}
+                  {formatCurrency(goal.outcome.netProfit)} net profit
+                </p>
+              )}
+              {canAddDraft && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 text-xs"
+                  onClick={() => onAddDraftSale!(createDraftSaleEntry(goal.saleAmount as number, goal.saleDate as Date))}
+                >
+                  <FilePlus className="w-3 h-3 mr-1" />
+                  {hasSale ? 'Replace sale with draft entry' : 'Add as draft sale entry'}
+                </Button>
+              )}
+            </>
+          ) : (
+            <p className="text-sm font-semibold text-red-600">{GOAL_SEEK_STATUS_LABELS[goal.status]}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+import React, { useMemo } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Payment, ProjectData, PropertyOccupancy, TaxProfile, TaxRegime } from '@/types/project';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { calculateHomeLoanTaxBenefits, DEFAULT_SECTION_80C_LIMIT, DEFAULT_TAX_PROFILE } from '@/utils/homeLoanTax';
+import { XirrResult } from '@/utils/xirr';
+
+interface HomeLoanTaxBenefitsProps {
+  projectData: ProjectData;
+  allPaymentsWithInterest: Payment[];
+  formatCurrency: (value: number) => string;
+  updateProjectData?: (updates: Partial<ProjectData>) => void;
+}
+
+const formatXirr = (xirr: XirrResult) => xirr.rate !== null ? `${xirr.rate.toFixed(2)}%` : 'No solution';
+
+const getRuleNote = (profile: TaxProfile, interestCap: number | null, formatCurrency: (value: number) => string) => {
+  if (profile.occupancy === 'self-occupied') {
+    return profile.regime === 'old'
+      ? `Self-occupied interest is capped at ${formatCurrency(interestCap ?? 0)} a year.`
+      : 'The new regime allows no deduction on a self-occupied home.';
+  }
+  return profile.regime === 'old'
+    ? 'Let-out interest is set against rent after the 30% standard deduction; up to ₹2,00,000 of the loss reduces other income and the rest is carried forward for eight years.'
+    : 'Under the new regime let-out interest only reduces the rent left after the 30% standard deduction.';
+};
+
+export const HomeLoanTaxBenefits: React.FC<HomeLoanTaxBenefitsProps> = ({
+  projectData,
+  allPaymentsWithInterest,
+  formatCurrency,
+  updateProjectData
+}) => {
+  const profile = projectData.taxProfile;
+
+  const benefits = useMemo(
+    () => calculateHomeLoanTaxBenefits(allPaymentsWithInterest || [], projectData),
+    [allPaymentsWithInterest, projectData]
+  );
+
+  const updateProfile = (updates: Partial<TaxProfile>) => {
+    updateProjectData?.({ taxProfile: { ...DEFAULT_TAX_PROFILE, ...profile, ...updates } });
+  };
+
+  if (!profile?.enabled && !updateProjectData) return null;
+
+  const stats = benefits ? [
+    { label: 'Tax Saved', value: formatCurrency(benefits.totalTaxSaving), note: 'Sections 24(b) and 80C, cess included' },
+    { label: 'Post-tax Cost of Debt', value: formatXirr(benefits.postTaxCostOfDebt), note: `Pre-tax ${formatXirr(benefits.costOfDebt)}` },
+    { label: 'XIRR with Tax Savings', value: formatXirr(benefits.postTaxXirr), note: `Without ${formatXirr(benefits.xirr)}` },
+  ] : [];
+
+  return (
+    <div className="border rounded-md p-3 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700">Home Loan Tax Benefits</h4>
+          <p className="text-xs text-muted-foreground">
+            Interest deduction under Section 24(b), with pre-construction interest claimed in five instalments from
+            the year of possession, and principal under Section 80C. Each year's saving is counted on 31 March.
+          </p>
+        </div>
+        {updateProjectData && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs shrink-0"
+            onClick={() => updateProfile({ enabled: !profile?.enabled })}
+          >
+            {profile?.enabled ? <X className="w-3 h-3 mr-1" /> : <Plus className="w-3 h-3 mr-1" />}
+            {profile?.enabled ? 'Turn off' : 'Add tax profile'}
+          </Button>
+        )}
+      </div>
+
+      {profile?.enabled && updateProjectData && (
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <Label htmlFor="taxRegime" className="text-xs block">Regime</Label>
+            <select
+              id="taxRegime"
+              value={profile.regime}
+              onChange={(e) => updateProfile({ regime: e.target.value as TaxRegime })}
+              className="h-8 text-sm rounded-md border border-input px-2"
+            >
+              <option value="old">Old regime</option>
+              <option value="new">New regime</option>
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="taxOccupancy" className="text-xs block">Property</Label>
+            <select
+              id="taxOccupancy"
+              value={profile.occupancy}
+              onChange={(e) => updateProfile({ occupancy: e.target.value as PropertyOccupancy })}
+              className="h-8 text-sm rounded-md border border-input px-2"
+            >
+              <option value="self-occupied">Self-occupied</option>
+              <option value="let-out">Let out</option>
+            </select>
+          </div>
+          <div className="w-28">
+            <Label htmlFor="taxSlabRate" className="text-xs">Slab Rate (%)</Label>
+            <Input
+              id="taxSlabRate"
+              type="number"
+              step="1"
+              value={profile.slabRate}
+              onChange={(e) => updateProfile({ slabRate: Number(e.target.value) })}
+              className="h-8 text-sm"
+            />
+          </div>
+          <div className="w-40">
+            <Label htmlFor="taxPossessionDate" className="text-xs">Possession Date</Label>
+            <Input
+              id="taxPossessionDate"
+              type="date"
+              value={profile.possessionDate ?? ''}
+              onChange={(e) => updateProfile({ possessionDate: e.target.value || null })}
+              className="h-8 text-sm"
+            />
+          </div>
+          {profile.regime === 'old' && (
+            <div className="w-36">
+              <Label htmlFor="taxSection80C" className="text-xs">80C Room</Label>
+              <Input
+                id="taxSection80C"
+                type="number"
+                step="10000"
+                value={profile.section80CLimit ?? DEFAULT_SECTION_80C_LIMIT}
+                onChange={(e) => updateProfile({ section80CLimit: Number(e.target.value) })}
+                className="h-8 text-sm"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {profile?.enabled && !benefits && (
+        <p className="text-xs text-muted-foreground">No loan interest or principal repayments to claim yet.</p>
+      )}
+
+      {benefits && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            {stats.map(stat => (
+              <div key={stat.label} className="rounded-md bg-gray-50 p-2">
+                <p className="text-xs text-muted-foreground">{stat.label}</p>
+                <p className="text-lg font-semibold">{stat.value}</p>
+                <p className="text-xs text-gray-500">{stat.note}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="text-left font-normal py-1 pr-2">Year</th>
+                  <th className="text-right font-normal py-1 px-2">Interest</th>
+                  <th className="text-right font-normal py-1 px-2">Pre-construction</th>
+                  <th className="text-right font-normal py-1 px-2">24(b)</th>
+                  <th className="text-right font-normal py-1 px-2">Principal</th>
+                  <th className="text-right font-normal py-1 px-2">80C</th>
+                  {profile.occupancy === 'let-out' && profile.regime === 'old' && (
+                    <th className="text-right font-normal py-1 px-2">Loss Carried</th>
+                  )}
+                  <th className="text-right font-normal py-1 pl-2">Tax Saved</th>
+                </tr>
+              </thead>
+              <tbody>
+                {benefits.years.map(year => (
+                  <tr key={year.financialYear} className="border-t">
+                    <td className="py-1 pr-2">{year.label}</td>
+                    <td className="py-1 px-2 text-right">{formatCurrency(year.interestPaid)}</td>
+                    <td className="py-1 px-2 text-right">{year.preConstructionInstalment > 0 ? formatCurrency(year.preConstructionInstalment) : '—'}</td>
+                    <td className="py-1 px-2 text-right">{formatCurrency(year.interestDeduction)}</td>
+                    <td className="py-1 px-2 text-right">{formatCurrency(year.principalRepaid)}</td>
+                    <td className="py-1 px-2 text-right">{formatCurrency(year.principalDeduction)}</td>
+                    {profile.occupancy === 'let-out' && profile.regime === 'old' && (
+                      <td className="py-1 px-2 text-right">{formatCurrency(year.lossCarriedForward)}</td>
+                    )}
+                    <td className="py-1 pl-2 text-right font-semibold text-green-700">{formatCurrency(year.taxSaving)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {getRuleNote(profile, benefits.interestCap, formatCurrency)}
+            {benefits.preConstructionInterest > 0 && ` Pre-construction interest: ${formatCurrency(benefits.preConstructionInterest)}.`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React from 'react';
+import { InterestHoliday, InterestHolidayType, ProjectData } from '@/types/project';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { PauseCircle, Plus, Trash2 } from 'lucide-react';
+import { addMonths, format } from 'date-fns';
+import { generateId } from '@/utils/idGenerator';
+import { getFacilityName, PRIMARY_FACILITY_ID } from '@/utils/loanTracker';
+
+interface InterestHolidaySettingsProps {
+  projectData: ProjectData;
+  updateProjectData: (updates: Partial<ProjectData>) => void;
+}
+
+export const InterestHolidaySettings: React.FC<InterestHolidaySettingsProps> = ({
+  projectData,
+  updateProjectData
+}) => {
+  const holidays = projectData.interestHolidays || [];
+  const facilities = projectData.loanFacilities || [];
+
+  const handleAddHoliday = () => {
+    const today = new Date();
+    updateProjectData({
+      interestHolidays: [
+        ...holidays,
+        {
+          id: generateId('holiday'),
+          type: 'subvention',
+          fromDate: format(today, 'yyyy-MM-dd'),
+          toDate: format(addMonths(today, 24), 'yyyy-MM-dd'),
+          description: ''
+        }
+      ]
+    });
+  };
+
+  const handleUpdateHoliday = (id: string, updates: Partial<InterestHoliday>) => {
+    updateProjectData({
+      interestHolidays: holidays.map(holiday => holiday.id === id ? { ...holiday, ...updates } : holiday)
+    });
+  };
+
+  const handleRemoveHoliday = (id: string) => {
+    updateProjectData({ interestHolidays: holidays.filter(holiday => holiday.id !== id) });
+  };
+
+  return (
+    <Card className="border-blue-200">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <PauseCircle className="w-4 h-4 text-blue-600" />
+            Subvention &amp; Moratorium
+          </span>
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleAddHoliday}>
+            <Plus className="w-3 h-3 mr-1" />
+            Add Period
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {holidays.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            Add a period when the builder pays the interest (e.g. a 20:80 scheme until possession) or when interest is deferred.
+          </p>
+        ) : (
+          holidays.map(holiday => (
+            <div key={holiday.id} className="border rounded p-2 space-y-2">
+              <div className="flex items-center gap-2">
+                <select
+                  value={holiday.type}
+                  onChange={(e) => handleUpdateHoliday(holiday.id, { type: e.target.value as InterestHolidayType })}
+                  className="h-8 text-sm rounded-md border border-input px-2"
+                  aria-label="Period type"
+                >
+                  <option value="subvention">Subvention (builder pays)</option>
+                  <option value="moratorium">Moratorium (pay at end)</option>
+                </select>
+                <Input
+                  value={holiday.description || ''}
+                  onChange={(e) => handleUpdateHoliday(holiday.id, { description: e.target.value })}
+                  placeholder="Note"
+                  className="h-8 text-sm"
+                  aria-label="Period note"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemoveHoliday(holiday.id)}
+                  className="h-7 w-7 p-0 text-red-600 hover:bg-red-50"
+                  title="Remove period"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <Label className="text-xs">From</Label>
+                  <Input
+                    type="date"
+                    value={holiday.fromDate}
+                    onChange={(e) => handleUpdateHoliday(holiday.id, { fromDate: e.target.value })}
+                    className="h-8 text-sm"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs">To</Label>
+                  <Input
+                    type="date"
+                    value={holiday.toDate}
+                    onChange={(e) => handleUpdateHoliday(holiday.id, { toDate: e.target.value })}
+                    className="h-8 text-sm"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs">Loan</Label>
+                  <select
+                    value={holiday.facilityId || ''}
+                    onChange={(e) => handleUpdateHoliday(holiday.id, { facilityId: e.target.value || undefined })}
+                    className="w-full h-8 text-sm rounded-md border border-input px-2"
+                  >
+                    <option value="">{getFacilityName(PRIMARY_FACILITY_ID)}</option>
+                    {facilities.map(facility => (
+                      <option key={facility.id} value={facility.id}>{facility.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+        {holidays.length > 0 && (
+          <p className="text-xs text-gray-500">
+            Interest for months ending within a period is still calculated and shown. Subvented interest is left out of
+            your investment and XIRR; moratorium interest counts as paid on the period's end date.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import { Payment, ProjectData } from '@/types/project';
+import { calculateLeverageAnalysis } from '@/utils/cashFlowAnalysis';
+import { describeXirrResult, XirrResult } from '@/utils/xirr';
+
+interface LeverageComparisonProps {
+  projectData: ProjectData;
+  allPaymentsWithInterest: Payment[];
+}
+
+const formatRate = (result: XirrResult) => result.rate !== null ? `${result.rate.toFixed(2)}%` : 'No solution';
+
+export const LeverageComparison: React.FC<LeverageComparisonProps> = ({
+  projectData,
+  allPaymentsWithInterest
+}) => {
+  const analysis = useMemo(
+    () => calculateLeverageAnalysis(allPaymentsWithInterest, projectData),
+    [allPaymentsWithInterest, projectData]
+  );
+
+  const rows: Array<{ label: string; result: XirrResult; note: string }> = [
+    { label: 'Levered XIRR', result: analysis.levered, note: 'Your own cash, after loan flows' },
+    { label: 'Unlevered XIRR', result: analysis.unlevered, note: 'Property alone, bought without a loan' },
+    { label: 'Cost of Debt', result: analysis.costOfDebt, note: 'Interest and fees paid, net of subvention' }
+  ];
+
+  return (
+    <div className="border rounded-md p-3">
+      <h4 className="text-sm font-medium text-gray-700 mb-2">Levered vs Unlevered</h4>
+      <table className="w-full text-xs">
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.label} className="border-t first:border-t-0">
+              <td className="py-1">{row.label}</td>
+              <td className="py-1 text-right font-medium">{formatRate(row.result)}</td>
+              <td className="py-1 pl-3 text-gray-500">
+                {row.result.status === 'ok' && row.result.roots.length < 2 ? row.note : describeXirrResult(row.result)}
+              </td>
+            </tr>
+          ))}
+          <tr className="border-t">
+            <td className="py-1">Leverage Spread</td>
+            <td className={`py-1 text-right font-medium ${
+              analysis.spread === null ? '' : analysis.spread >= 0 ? 'text-green-700' : 'text-red-700'
+            }`}>
+              {analysis.spread !== null ? `${analysis.spread >= 0 ? '+' : ''}${analysis.spread.toFixed(2)} pp` : '—'}
+            </td>
+            <td className="py-1 pl-3 text-gray-500">
+              {analysis.spread === null
+                ? 'Needs both returns'
+                : analysis.spread >= 0 ? 'The loan added to your return' : 'The loan cost more than it earned'}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+      <p className="text-xs text-muted-foreground mt-2">
+        Leverage helps while the property earns more than the cost of debt. A loan balance still outstanding is
+        treated as repaid on the last entry's date.
+      </p>
+    </div>
+  );
+};
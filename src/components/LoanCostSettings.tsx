@@ -0,0 +1,142 @@
+import React from 'react';
+import { LateEmiPayment, LoanCostRules, ProjectData } from '@/types/project';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Plus, Receipt, Trash2 } from 'lucide-react';
+import { addDays, format } from 'date-fns';
+import { generateId } from '@/utils/idGenerator';
+import { getFacilityName, PRIMARY_FACILITY_ID } from '@/utils/loanTracker';
+import { getLoanCostRules } from '@/utils/loanCosts';
+
+interface LoanCostSettingsProps {
+  projectData: ProjectData;
+  updateProjectData: (updates: Partial<ProjectData>) => void;
+}
+
+const RULE_FIELDS: Array<{ field: keyof LoanCostRules; label: string; step: string }> = [
+  { field: 'processingFeePercent', label: 'Processing (%)', step: '0.05' },
+  { field: 'processingFeeFlat', label: 'Flat fee (₹)', step: '500' },
+  { field: 'prepaymentChargePercent', label: 'Prepayment (%)', step: '0.25' },
+  { field: 'penalRate', label: 'Penal (% p.a.)', step: '0.5' },
+];
+
+export const LoanCostSettings: React.FC<LoanCostSettingsProps> = ({
+  projectData,
+  updateProjectData
+}) => {
+  const facilities = projectData.loanFacilities || [];
+  const loanKeys = [PRIMARY_FACILITY_ID, ...facilities.map(facility => facility.id)];
+  const emi = projectData.emi;
+  const latePayments = emi?.latePayments || [];
+
+  const handleRuleChange = (facilityKey: string, field: keyof LoanCostRules, value: string) => {
+    const rules = { ...getLoanCostRules(projectData, facilityKey), [field]: value === '' ? undefined : Math.abs(Number(value)) };
+    if (facilityKey === PRIMARY_FACILITY_ID) {
+      updateProjectData({ loanCostRules: rules });
+    } else {
+      updateProjectData({
+        loanFacilities: facilities.map(facility => facility.id === facilityKey ? { ...facility, costRules: rules } : facility)
+      });
+    }
+  };
+
+  const updateLatePayments = (payments: LateEmiPayment[]) => {
+    if (!emi) return;
+    updateProjectData({ emi: { ...emi, latePayments: payments } });
+  };
+
+  const handleAddLatePayment = () => {
+    const emiDate = emi?.startDate || format(new Date(), 'yyyy-MM-dd');
+    updateLatePayments([
+      ...latePayments,
+      { id: generateId('late-emi'), emiDate, paidDate: format(addDays(new Date(emiDate), 15), 'yyyy-MM-dd') }
+    ]);
+  };
+
+  const handleUpdateLatePayment = (id: string, updates: Partial<LateEmiPayment>) => {
+    updateLatePayments(latePayments.map(late => late.id === id ? { ...late, ...updates } : late));
+  };
+
+  return (
+    <Card className="border-blue-200">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <Receipt className="w-4 h-4 text-blue-600" />
+          Fees &amp; Charges
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loanKeys.map(facilityKey => {
+          const rules = getLoanCostRules(projectData, facilityKey);
+          return (
+            <div key={facilityKey} className="border rounded p-2 space-y-2">
+              <div className="text-xs font-medium">{getFacilityName(facilityKey, facilities)}</div>
+              <div className="grid grid-cols-4 gap-2">
+                {RULE_FIELDS.map(({ field, label, step }) => (
+                  <div key={field}>
+                    <Label className="text-xs">{label}</Label>
+                    <Input
+                      type="number"
+                      step={step}
+                      value={rules[field] ?? ''}
+                      onChange={(e) => handleRuleChange(facilityKey, field, e.target.value)}
+                      className="h-8 text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+
+        {emi?.enabled && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Late EMI payments</Label>
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleAddLatePayment}>
+                <Plus className="w-3 h-3 mr-1" />
+                Add Late EMI
+              </Button>
+            </div>
+            {latePayments.map(late => (
+              <div key={late.id} className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  value={late.emiDate}
+                  onChange={(e) => handleUpdateLatePayment(late.id, { emiDate: e.target.value })}
+                  className="h-8 text-sm"
+                  aria-label="EMI due date"
+                />
+                <span className="text-xs text-gray-500">paid</span>
+                <Input
+                  type="date"
+                  value={late.paidDate}
+                  onChange={(e) => handleUpdateLatePayment(late.id, { paidDate: e.target.value })}
+                  className="h-8 text-sm"
+                  aria-label="Date paid"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateLatePayments(latePayments.filter(l => l.id !== late.id))}
+                  className="h-7 w-7 p-0 text-red-600 hover:bg-red-50"
+                  title="Remove late EMI"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500">
+          Fees are added as loan cost entries on every interest calculation: the processing fee on the first drawdown,
+          prepayment charges on principal repaid outside the EMIs (including from a sale), and penal interest on late EMIs.
+          Other charges can be entered manually as a Loan Cost.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,146 @@
+import React from 'react';
+import { LoanFacility, ProjectData } from '@/types/project';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Layers, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { generateId } from '@/utils/idGenerator';
+import { calculateFacilityBalances, getFacilityName, getReturnAllocation, PRIMARY_FACILITY_ID } from '@/utils/loanTracker';
+
+interface LoanFacilitiesSettingsProps {
+  projectData: ProjectData;
+  updateProjectData: (updates: Partial<ProjectData>) => void;
+}
+
+const formatCurrency = (amount: number) =>
+  `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+
+export const LoanFacilitiesSettings: React.FC<LoanFacilitiesSettingsProps> = ({
+  projectData,
+  updateProjectData
+}) => {
+  const facilities = projectData.loanFacilities || [];
+  const balances = calculateFacilityBalances(projectData.payments || [], undefined, getReturnAllocation(projectData.settings));
+
+  const handleAddFacility = () => {
+    updateProjectData({
+      loanFacilities: [
+        ...facilities,
+        {
+          id: generateId('facility'),
+          name: `Loan ${facilities.length + 2}`,
+          lender: '',
+          annualRate: projectData.annualInterestRate,
+          startDate: format(new Date(), 'yyyy-MM-dd')
+        }
+      ]
+    });
+  };
+
+  const handleUpdateFacility = (id: string, updates: Partial<LoanFacility>) => {
+    updateProjectData({
+      loanFacilities: facilities.map(facility => facility.id === id ? { ...facility, ...updates } : facility)
+    });
+  };
+
+  // Entries of a removed facility fall back to the primary loan
+  const handleRemoveFacility = (id: string) => {
+    updateProjectData({
+      loanFacilities: facilities.filter(facility => facility.id !== id),
+      payments: projectData.payments.map(payment =>
+        payment.facilityId === id ? { ...payment, facilityId: undefined } : payment
+      )
+    });
+  };
+
+  return (
+    <Card className="border-blue-200">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Layers className="w-4 h-4 text-blue-600" />
+            Loan Facilities
+          </span>
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleAddFacility}>
+            <Plus className="w-3 h-3 mr-1" />
+            Add Facility
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between text-xs border rounded px-2 py-1.5 bg-gray-50">
+          <span className="font-medium">{getFacilityName(PRIMARY_FACILITY_ID)}</span>
+          <span className="text-gray-500">Rate settings above</span>
+          <span className="text-red-600">{formatCurrency(balances[PRIMARY_FACILITY_ID] || 0)}</span>
+        </div>
+
+        {facilities.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            All drawdowns and repayments belong to the primary loan. Add a facility for a top-up or personal loan with its own rate.
+          </p>
+        ) : (
+          facilities.map(facility => (
+            <div key={facility.id} className="border rounded p-2 space-y-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={facility.name}
+                  onChange={(e) => handleUpdateFacility(facility.id, { name: e.target.value })}
+                  className="h-8 text-sm"
+                  aria-label="Facility name"
+                />
+                <span className="text-xs text-red-600 whitespace-nowrap">
+                  {formatCurrency(balances[facility.id] || 0)}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemoveFacility(facility.id)}
+                  className="h-7 w-7 p-0 text-red-600 hover:bg-red-50"
+                  title="Remove facility"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <Label className="text-xs">Lender</Label>
+                  <Input
+                    value={facility.lender || ''}
+                    onChange={(e) => handleUpdateFacility(facility.id, { lender: e.target.value })}
+                    className="h-8 text-sm"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs">Rate (%)</Label>
+                  <Input
+                    type="number"
+                    step="0.05"
+                    value={facility.annualRate}
+                    onChange={(e) => handleUpdateFacility(facility.id, { annualRate: Number(e.target.value) })}
+                    className="h-8 text-sm"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs">Start Date</Label>
+                  <Input
+                    type="date"
+                    value={facility.startDate || ''}
+                    onChange={(e) => handleUpdateFacility(facility.id, { startDate: e.target.value })}
+                    className="h-8 text-sm"
+                  />
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+        {facilities.length > 0 && (
+          <p className="text-xs text-gray-500">
+            Tag drawdowns and repayments to a facility in the cash flow table; each facility accrues its own interest from its start date.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,280 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Loader2, Play, Square } from 'lucide-react';
+import { Payment, ProjectData } from '@/types/project';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import {
+  buildHistogram,
+  DEFAULT_MONTE_CARLO_CONFIG,
+  Distribution,
+  MonteCarloConfig,
+  MonteCarloResult,
+  PercentileSummary,
+  runMonteCarlo
+} from '@/utils/monteCarlo';
+import type { MonteCarloMessage, MonteCarloRequest } from '@/workers/monteCarlo.worker';
+
+interface MonteCarloSimulationProps {
+  projectData: ProjectData;
+  allPaymentsWithInterest: Payment[];
+  projectEndDate: Date;
+  formatCurrency: (value: number) => string;
+}
+
+type DistributionKey = 'salePricePercent' | 'saleDelayMonths' | 'rateChangePerYear' | 'vacancyPercent';
+type HistogramMetric = 'xirr' | 'netProfit';
+// Parameter names of every distribution kind: mean, sd, min, mode, max
+type FieldsOf<D> = D extends Distribution ? Exclude<keyof D, 'kind'> : never;
+type DistributionField = FieldsOf<Distribution>;
+
+// Fields shown for each input; the distribution kind of each input is fixed
+const DISTRIBUTION_INPUTS: Array<{ key: DistributionKey; label: string; fields: Array<{ field: DistributionField; label: string }> }> = [
+  { key: 'salePricePercent', label: 'Sale price change (%)', fields: [{ field: 'mean', label: 'Mean' }, { field: 'sd', label: 'Std dev' }] },
+  { key: 'saleDelayMonths', label: 'Sale delay (months)', fields: [{ field: 'min', label: 'Min' }, { field: 'mode', label: 'Likely' }, { field: 'max', label: 'Max' }] },
+  { key: 'rateChangePerYear', label: 'Rate move per year (pp)', fields: [{ field: 'mean', label: 'Mean' }, { field: 'sd', label: 'Std dev' }] },
+  { key: 'vacancyPercent', label: 'Rental vacancy (%)', fields: [{ field: 'min', label: 'Min' }, { field: 'max', label: 'Max' }] },
+];
+
+const getDistributionField = (distribution: Distribution, field: DistributionField): number => {
+  switch (distribution.kind) {
+    case 'normal':
+      return field === 'mean' || field === 'sd' ? distribution[field] : 0;
+    case 'triangular':
+      return field === 'min' || field === 'mode' || field === 'max' ? distribution[field] : 0;
+    case 'uniform':
+      return field === 'min' || field === 'max' ? distribution[field] : 0;
+  }
+};
+
+const chartConfig = {
+  count: { label: 'Iterations', color: 'hsl(221, 83%, 53%)' },
+} satisfies ChartConfig;
+
+const MAX_ITERATIONS = 10000;
+
+export const MonteCarloSimulation: React.FC<MonteCarloSimulationProps> = ({
+  projectData,
+  allPaymentsWithInterest,
+  projectEndDate,
+  formatCurrency
+}) => {
+  const [config, setConfig] = useState<MonteCarloConfig>(DEFAULT_MONTE_CARLO_CONFIG);
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [completed, setCompleted] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [metric, setMetric] = useState<HistogramMetric>('xirr');
+  const workerRef = useRef<Worker | null>(null);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const updateDistribution = (key: DistributionKey, field: DistributionField, value: number) => {
+    setConfig(prev => ({ ...prev, [key]: { ...prev[key], [field]: value } as Distribution }));
+  };
+
+  const finish = (next: MonteCarloResult | null, message: string | null = null) => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setResult(next);
+    setError(message);
+    setCompleted(null);
+  };
+
+  const runOnMainThread = (request: MonteCarloRequest) => {
+    setTimeout(() => {
+      try {
+        finish(runMonteCarlo(request.projectData, request.payments, request.projectEndDate, request.config));
+      } catch (runError) {
+        finish(null, runError instanceof Error ? runError.message : String(runError));
+      }
+    }, 0);
+  };
+
+  // Each iteration reruns the interest engine, so the simulation runs in a worker where one is available
+  const runSimulation = () => {
+    const request: MonteCarloRequest = { projectData, payments: allPaymentsWithInterest, projectEndDate, config };
+    setCompleted(0);
+    setError(null);
+
+    if (typeof Worker === 'undefined') {
+      runOnMainThread(request);
+      return;
+    }
+    try {
+      const worker = new Worker(new URL('../workers/monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+      workerRef.current = worker;
+      worker.onmessage = (event: MessageEvent<MonteCarloMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') setCompleted(message.completed);
+        else if (message.type === 'done') finish(message.result);
+        else finish(null, message.message);
+      };
+      worker.onerror = (event) => finish(null, event.message || 'The simulation stopped unexpectedly.');
+      worker.postMessage(request);
+    } catch {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      runOnMainThread(request);
+    }
+  };
+
+  const cancelSimulation = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setCompleted(null);
+  };
+
+  const isRunning = completed !== null;
+  const values = result ? (metric === 'xirr' ? result.xirrValues : result.netProfits) : [];
+  const formatValue = (value: number) => metric === 'xirr' ? `${value.toFixed(1)}%` : formatCurrency(value);
+  const histogram = buildHistogram(values).map(bin => ({
+    label: formatValue((bin.from + bin.to) / 2),
+    range: `${formatValue(bin.from)} to ${formatValue(bin.to)}`,
+    midpoint: (bin.from + bin.to) / 2,
+    count: bin.count
+  }));
+  const zeroBin = histogram.find((bin, index) => bin.midpoint >= 0 && (index === 0 || histogram[index - 1].midpoint < 0));
+
+  const renderPercentiles = (title: string, summary: PercentileSummary | null, format: (value: number) => string) => (
+    <div className="rounded-md bg-gray-50 p-2">
+      <p className="text-xs text-muted-foreground">{title}</p>
+      {summary ? (
+        <div className="grid grid-cols-3 gap-2 text-sm">
+          {(['p10', 'p50', 'p90'] as const).map(key => (
+            <div key={key}>
+              <span className="text-xs text-gray-500">{key.toUpperCase()}</span>
+              <p className={`font-semibold ${summary[key] < 0 ? 'text-red-600' : ''}`}>{format(summary[key])}</p>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm font-semibold">No solution</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="border rounded-md p-3 space-y-3">
+      <div>
+        <h4 className="text-sm font-medium text-gray-700">Monte Carlo Simulation</h4>
+        <p className="text-xs text-muted-foreground">
+          Draws the sale price (normal), sale delay (triangular), a yearly random walk of the main loan's rate (normal)
+          and rental vacancy (uniform) for each iteration, then recalculates interest and returns.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {DISTRIBUTION_INPUTS.map(input => (
+          <div key={input.key} className="space-y-1">
+            <Label className="text-xs">{input.label}</Label>
+            <div className="flex gap-2">
+              {input.fields.map(({ field, label }) => (
+                <Input
+                  key={field}
+                  type="number"
+                  step="0.25"
+                  value={getDistributionField(config[input.key], field)}
+                  onChange={(e) => updateDistribution(input.key, field, Number(e.target.value))}
+                  className="h-8 text-sm"
+                  aria-label={`${input.label} ${label}`}
+                  title={label}
+                />
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">{input.fields.map(({ label }) => label).join(' / ')}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="w-28">
+          <Label htmlFor="monteCarloIterations" className="text-xs">Iterations</Label>
+          <Input
+            id="monteCarloIterations"
+            type="number"
+            min="100"
+            max={MAX_ITERATIONS}
+            step="100"
+            value={config.iterations}
+            onChange={(e) => setConfig(prev => ({ ...prev, iterations: Math.min(MAX_ITERATIONS, Math.max(1, Math.round(Number(e.target.value)))) }))}
+            className="h-8 text-sm"
+          />
+        </div>
+        {isRunning ? (
+          <>
+            <Button variant="outline" size="sm" className="h-8 text-xs" onClick={cancelSimulation} disabled={!workerRef.current}>
+              <Square className="w-3 h-3 mr-1" />
+              Stop
+            </Button>
+            <span className="flex items-center text-xs text-muted-foreground">
+              <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+              {completed} / {config.iterations}
+            </span>
+          </>
+        ) : (
+          <Button variant="outline" size="sm" className="h-8 text-xs" onClick={runSimulation} disabled={config.iterations < 1}>
+            <Play className="w-3 h-3 mr-1" />
+            Run
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-600">Simulation failed: {error}</p>}
+
+      {result && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            {renderPercentiles('XIRR', result.xirr, value => `${value.toFixed(2)}%`)}
+            {renderPercentiles('Net Profit', result.netProfit, formatCurrency)}
+            <div className="rounded-md bg-gray-50 p-2">
+              <p className="text-xs text-muted-foreground">Probability of loss</p>
+              <p className={`text-lg font-semibold ${result.probabilityOfLoss > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {(result.probabilityOfLoss * 100).toFixed(1)}%
+              </p>
+              <p className="text-xs text-gray-500">
+                Current plan: {result.base.xirrValue !== null ? `${result.base.xirrValue.toFixed(2)}%` : 'No solution'}, {formatCurrency(result.base.netProfit)}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <select
+              value={metric}
+              onChange={(e) => setMetric(e.target.value as HistogramMetric)}
+              className="h-8 text-sm rounded-md border border-input px-2"
+              aria-label="Distribution"
+            >
+              <option value="xirr">XIRR</option>
+              <option value="netProfit">Net Profit</option>
+            </select>
+            <span className="text-xs text-muted-foreground">
+              {result.iterations} iterations
+              {result.unsolved > 0 && `; ${result.unsolved} without an XIRR solution are left out of the XIRR figures`}
+            </span>
+          </div>
+
+          {histogram.length > 0 && (
+            <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+              <BarChart data={histogram} margin={{ left: 12, right: 12, top: 8 }} barCategoryGap={1}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={36} allowDecimals={false} />
+                {zeroBin && histogram[0].midpoint < 0 && <ReferenceLine x={zeroBin.label} stroke="#9ca3af" />}
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) => payload?.[0]?.payload?.range}
+                    />
+                  }
+                />
+                <Bar dataKey="count" fill="var(--color-count)" fillOpacity={0.8} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useMemo } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { findNpvZeroCrossings, getNpvCurve } from '@/utils/npv';
+
+interface NpvAnalysisProps {
+  cashFlows: Array<{ date: Date; amount: number }>;
+  discountRate: number; // Annual rate as a percentage
+  onDiscountRateChange: (rate: number) => void;
+  formatCurrency: (value: number) => string;
+}
+
+const chartConfig = {
+  npv: { label: 'NPV', color: 'hsl(221, 83%, 53%)' },
+} satisfies ChartConfig;
+
+// Keeps the curve readable: wide enough to show where NPV crosses zero for typical projects
+const CURVE_MAX_RATE = 40;
+
+export const NpvAnalysis: React.FC<NpvAnalysisProps> = ({
+  cashFlows,
+  discountRate,
+  onDiscountRateChange,
+  formatCurrency
+}) => {
+  const curve = useMemo(
+    () => getNpvCurve(cashFlows, 0, Math.max(CURVE_MAX_RATE, Math.ceil(discountRate / 5) * 5)),
+    [cashFlows, discountRate]
+  );
+  const crossings = useMemo(() => findNpvZeroCrossings(curve), [curve]);
+
+  if (cashFlows.length < 2) return null;
+
+  return (
+    <div className="border rounded-md p-3 space-y-2">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700">NPV vs Discount Rate</h4>
+          <p className="text-xs text-muted-foreground">
+            {crossings.length === 0
+              ? `NPV doesn't cross zero between 0% and ${curve[curve.length - 1]?.rate}%`
+              : `NPV crosses zero at ${crossings.map(rate => `${rate.toFixed(1)}%`).join(', ')}`}
+          </p>
+        </div>
+        <div className="w-32">
+          <Label htmlFor="discountRate" className="text-xs">Discount Rate (%)</Label>
+          <Input
+            id="discountRate"
+            type="number"
+            step="0.5"
+            value={discountRate}
+            onChange={(e) => onDiscountRateChange(Number(e.target.value))}
+            className="h-8 text-sm"
+          />
+        </div>
+      </div>
+      <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+        <LineChart data={curve} margin={{ left: 12, right: 12, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="rate" tickFormatter={(rate) => `${rate}%`} tickLine={false} axisLine={false} />
+          <YAxis
+            tickFormatter={(value) => `${(value / 100000).toFixed(1)}L`}
+            tickLine={false}
+            axisLine={false}
+            width={48}
+          />
+          <ReferenceLine y={0} stroke="#9ca3af" />
+          <ReferenceLine x={Math.round(discountRate)} stroke="#f59e0b" strokeDasharray="4 4" />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => `At ${payload?.[0]?.payload?.rate}%`}
+                formatter={(value) => formatCurrency(Number(value))}
+              />
+            }
+          />
+          <Line dataKey="npv" type="monotone" stroke="var(--color-npv)" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+};
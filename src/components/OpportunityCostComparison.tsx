@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Plus, Trash2, Upload } from 'lucide-react';
+import { Payment, ProjectData, ReturnBenchmark } from '@/types/project';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import {
+  compareWithBenchmarks,
+  createReturnBenchmark,
+  parseIndexLevelsCsv,
+  PRESET_RETURN_BENCHMARKS
+} from '@/utils/benchmarkComparison';
+
+interface OpportunityCostComparisonProps {
+  projectData: ProjectData;
+  allPaymentsWithInterest: Payment[];
+  formatCurrency: (value: number) => string;
+  updateProjectData?: (updates: Partial<ProjectData>) => void;
+}
+
+const formatSigned = (value: number, formatValue: (value: number) => string) => `${value > 0 ? '+' : ''}${formatValue(value)}`;
+
+export const OpportunityCostComparison: React.FC<OpportunityCostComparisonProps> = ({
+  projectData,
+  allPaymentsWithInterest,
+  formatCurrency,
+  updateProjectData
+}) => {
+  const { toast } = useToast();
+  const [indexName, setIndexName] = useState('');
+  const benchmarks = projectData.returnBenchmarks || [];
+
+  const comparisons = useMemo(
+    () => compareWithBenchmarks(allPaymentsWithInterest || [], projectData),
+    [allPaymentsWithInterest, projectData]
+  );
+
+  const updateBenchmarks = (next: ReturnBenchmark[]) => updateProjectData?.({ returnBenchmarks: next });
+
+  const handleIndexFile = async (file: File) => {
+    try {
+      const { levels, errors } = parseIndexLevelsCsv(await file.text());
+      if (errors.length > 0) {
+        toast({ title: 'Import Warning', description: errors.slice(0, 3).join(' '), variant: 'destructive' });
+      }
+      if (levels.length < 2) {
+        toast({ title: 'Error', description: 'The file needs at least two dated index levels.', variant: 'destructive' });
+        return;
+      }
+      updateBenchmarks([
+        ...benchmarks,
+        createReturnBenchmark({ name: indexName.trim() || file.name.replace(/\.csv$/i, ''), kind: 'index', levels })
+      ]);
+      setIndexName('');
+      toast({ description: `Loaded ${levels.length} index levels.` });
+    } catch (error) {
+      console.error('Error reading index CSV:', error);
+      toast({ title: 'Error', description: 'Failed to read CSV file.', variant: 'destructive' });
+    }
+  };
+
+  if (comparisons.length === 0 && !updateProjectData) return null;
+
+  return (
+    <div className="border rounded-md p-3 space-y-3">
+      <div>
+        <h4 className="text-sm font-medium text-gray-700">Opportunity Cost</h4>
+        <p className="text-xs text-muted-foreground">
+          Puts every rupee invested into each alternative instead, reinvests the project's inflows there too, and
+          compares both on the date of the last cash flow. Alpha is the yearly return earned over the alternative.
+        </p>
+      </div>
+
+      {comparisons.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-normal py-1 pr-2">Alternative</th>
+                <th className="text-right font-normal py-1 px-2">Return</th>
+                <th className="text-right font-normal py-1 px-2">Alternative Wealth</th>
+                <th className="text-right font-normal py-1 px-2">Project Wealth</th>
+                <th className="text-right font-normal py-1 px-2">Difference</th>
+                <th className="text-right font-normal py-1 px-2">Alpha</th>
+                {updateProjectData && <th />}
+              </tr>
+            </thead>
+            <tbody>
+              {comparisons.map(comparison => {
+                const { benchmark } = comparison;
+                return (
+                  <tr key={benchmark.id} className="border-t">
+                    <td className="py-1 pr-2">
+                      {benchmark.name}
+                      {benchmark.kind === 'index' && comparison.dataEndDate && comparison.dataEndDate < comparison.endDate && (
+                        <span className="block text-gray-500">Levels end {format(comparison.dataEndDate, 'dd MMM yyyy')}</span>
+                      )}
+                    </td>
+                    <td className="py-1 px-2 text-right">
+                      {benchmark.kind === 'fixed-rate' && updateProjectData ? (
+                        <Input
+                          type="number"
+                          step="0.25"
+                          value={benchmark.annualRate ?? 0}
+                          onChange={(e) => updateBenchmarks(benchmarks.map(item =>
+                            item.id === benchmark.id ? { ...item, annualRate: Number(e.target.value) } : item
+                          ))}
+                          className="h-7 w-20 text-xs ml-auto"
+                          aria-label={`${benchmark.name} rate (%)`}
+                        />
+                      ) : comparison.benchmarkReturn !== null ? `${comparison.benchmarkReturn.toFixed(2)}%` : '—'}
+                    </td>
+                    {comparison.status === 'missing-data' ? (
+                      <td colSpan={4} className="py-1 px-2 text-right text-gray-500">
+                        Index levels start after the first cash flow
+                      </td>
+                    ) : (
+                      <>
+                        <td className="py-1 px-2 text-right">{formatCurrency(comparison.benchmarkWealth)}</td>
+                        <td className="py-1 px-2 text-right">{formatCurrency(comparison.projectWealth)}</td>
+                        <td className={`py-1 px-2 text-right ${comparison.wealthDifference >= 0 ? 'text-green-700' : 'text-red-600'}`}>
+                          {formatSigned(comparison.wealthDifference, formatCurrency)}
+                        </td>
+                        <td className={`py-1 px-2 text-right font-semibold ${(comparison.alpha ?? 0) >= 0 ? 'text-green-700' : 'text-red-600'}`}>
+                          {comparison.alpha !== null ? `${formatSigned(comparison.alpha, value => value.toFixed(2))}%` : 'No solution'}
+                        </td>
+                      </>
+                    )}
+                    {updateProjectData && (
+                      <td className="py-1 pl-2 text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          onClick={() => updateBenchmarks(benchmarks.filter(item => item.id !== benchmark.id))}
+                          aria-label={`Remove ${benchmark.name}`}
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {comparisons[0] && (
+            <p className="text-xs text-muted-foreground mt-1">Compared on {format(comparisons[0].endDate, 'dd MMM yyyy')}</p>
+          )}
+        </div>
+      )}
+
+      {updateProjectData && (
+        <div className="flex flex-wrap items-center gap-2">
+          {PRESET_RETURN_BENCHMARKS.map(preset => (
+            <Button
+              key={preset.name}
+              variant="outline"
+              size="sm"
+              className="h-8 text-xs"
+              onClick={() => updateBenchmarks([...benchmarks, createReturnBenchmark(preset)])}
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              {preset.name}
+            </Button>
+          ))}
+          <Input
+            value={indexName}
+            onChange={(e) => setIndexName(e.target.value)}
+            placeholder="Index name (e.g. Nifty 50 TRI)"
+            className="h-8 text-xs w-48"
+          />
+          <label className="inline-flex items-center h-8 px-3 text-xs rounded-md border border-input cursor-pointer hover:bg-accent">
+            <Upload className="w-3 h-3 mr-1" />
+            Load index CSV
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleIndexFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
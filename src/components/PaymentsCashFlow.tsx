@@ -3,15 +3,25 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Payment, IncomeItem, ProjectData } from '@/types/project';
 import { useToast } from '@/hooks/use-toast';
 import { useProject } from '@/contexts/ProjectContext';
 import { SaveDiscardActionBar, CompactSaveButton } from '@/components/SaveDiscardActionBar';
 import { CashFlowAnalysis } from '@/components/CashFlowAnalysis';
+import { CashFlowStatement } from '@/components/CashFlowStatement';
+import { CashFlowTimeline } from '@/components/CashFlowTimeline';
+import { SensitivityAnalysis } from '@/components/SensitivityAnalysis';
+import { TornadoChart } from '@/components/TornadoChart';
+import { MonteCarloSimulation } from '@/components/MonteCarloSimulation';
+import { GoalSeek } from '@/components/GoalSeek';
+import { ConstructionDelaySimulator } from '@/components/ConstructionDelaySimulator';
+import { FinancialMetrics } from '@/components/FinancialMetrics';
 import { PaymentsTable } from '@/components/payments/PaymentsTable';
-import { Plus, ArrowUpDown, X, Upload, Copy, Calculator, Save, Database, Download, Wand2, Loader2, Trash2 } from 'lucide-react';
+import { Plus, ArrowUpDown, X, Upload, Copy, Calculator, Save, Database, Download, Wand2, Loader2, Trash2, SlidersHorizontal } from 'lucide-react';
 import { exportToCsv } from '@/utils/csvExport';
 import {
   formatCurrency,
@@ -25,7 +35,10 @@ import { parseISO, startOfMonth, endOfMonth, addMonths, compareAsc, isBefore, is
 import { calculateDerivedProjectEndDate } from '@/utils/projectDateUtils';
 import { fetchAllEntries, fetchProject, sanitizePaymentData } from '@/services/firestoreService';
 import AITextImporter from '@/components/AITextImporter';
-import { calculateMonthlyInterestLogic } from '@/utils/interestCalculator';
+import { calculateProjectInterest } from '@/utils/projectInterest';
+import { getReturnAllocation } from '@/utils/loanTracker';
+import { getSaleEntries } from '@/utils/paymentEntries';
+import { ConstructionDelayResult } from '@/utils/constructionDelay';
 
 // Collection name for payments
 const PAYMENTS_COLLECTION = 'projects'; // Renamed from 'test' to 'projects'
@@ -57,6 +70,7 @@ const PaymentsCashFlow: React.FC<PaymentsCashFlowProps> = ({
   const [isImportOpen, setIsImportOpen] = useState(false);
   const [isAIImportOpen, setIsAIImportOpen] = useState(false);
   const [isClearSessionDialogOpen, setIsClearSessionDialogOpen] = useState(false);
+  const [isLoanSettingsOpen, setIsLoanSettingsOpen] = useState(false);
   const [interestRate, setInterestRate] = useState<number>(projectData.annualInterestRate || 12);
   const [newPayment, setNewPayment] = useState<Partial<Payment>>({
     month: dateToMonth(new Date()),
@@ -75,7 +89,7 @@ const PaymentsCashFlow: React.FC<PaymentsCashFlowProps> = ({
   // Reset interest details when core data changes
   useEffect(() => {
     setCurrentInterestDetails(null);
-  }, [projectData.payments, projectData.rentalIncome, interestRate]);
+  }, [projectData.payments, projectData.rentalIncome, interestRate, projectData.rateSchedule, projectData.floatingRate, projectData.benchmarkRates, projectData.dayCountConvention, projectData.restPeriod, projectData.loanFacilities, projectData.emi, projectData.interestHolidays, projectData.loanCostRules, projectData.settings]);
 
   // Sync local interestRate state with project data when switching projects
   useEffect(() => {
@@ -353,6 +367,18 @@ const PaymentsCashFlow: React.FC<PaymentsCashFlowProps> = ({
     updateProjectData({ projectEndDate: date });
   };
 
+  // Short description of any rate variation on top of the base APR
+  const rateSummary = projectData.floatingRate?.enabled
+    ? `${projectData.floatingRate.benchmark} + ${projectData.floatingRate.spread}%`
+    : projectData.rateSchedule?.length
+      ? `${projectData.rateSchedule.length} rate change(s)`
+      : null;
+
+  // Run the interest engine with the project's current loan settings
+  const runInterestCalculation = (basePayments: Payment[]) => {
+    return calculateProjectInterest({ ...projectData, annualInterestRate: interestRate }, basePayments, projectEndDate);
+  };
+
   useEffect(() => {
     const handleProjectRefresh = () => {
       if (!projectId) {
@@ -412,18 +438,14 @@ const PaymentsCashFlow: React.FC<PaymentsCashFlowProps> = ({
       const basePayments = projectData.payments.filter(p => p.type !== 'interest');
       
       // Use the new interest calculation with project end date
-      const interestResult = calculateMonthlyInterestLogic({
-        payments: basePayments,
-        interestRate: interestRate,
-        projectEndDate
-      });
+      const interestResult = runInterestCalculation(basePayments);
       
       // Update local state with new calculations (memory-first approach)
       updatePayments(interestResult.allPaymentsWithInterest);
 
       toast({
         title: 'Interest Calculated', 
-        description: `Interest calculated up to ${projectEndDate instanceof Date && !isNaN(projectEndDate) ? projectEndDate.toLocaleDateString() : 'project end'} at ${interestRate}% annual rate. Use "Save to Firebase" to persist changes.` 
+        description: `Interest calculated up to ${projectEndDate instanceof Date && !isNaN(projectEndDate) ? projectEndDate.toLocaleDateString() : 'project end'} at ${interestRate}% annual rate${rateSummary ? ` (${rateSummary})` : ''}. Use "Save to Firebase" to persist changes.` 
       });
     } catch (error) {
       console.error('Error calculating interest:', error);
@@ -683,7 +705,9 @@ const PaymentsCashFlow: React.FC<PaymentsCashFlowProps> = ({
       id: editingPayment, // Keep the original ID to ensure we're updating, not creating
       date,
       month: dateToMonth(date),
-      amount: editValues.type === 'payment' ? -Math.abs(Number(editValues.amount)) : Math.abs(Number(editValues.amount)),
+      amount: editValues.type === 'payment' || editValues.type === 'fee'
+        ? -Math.abs(Number(editValues.amount))
+        : Math.abs(Number(editValues.amount)),
     };
 
     // Update the payment in the local state
@@ -691,11 +715,7 @@ const PaymentsCashFlow: React.FC<PaymentsCashFlowProps> = ({
 
     // Recalculate interest with the updated payments array
     const basePayments = updatedPayments.filter(p => p.type !== 'interest');
-    const interestResult = calculateMonthlyInterestLogic({
-      payments: basePayments,
-      interestRate: interestRate,
-      projectEndDate
-    });
+    const interestResult = runInterestCalculation(basePayments);
 
     // Update local state with new calculations (memory-first approach)
     updatePayments(interestResult.allPaymentsWithInterest);
@@ -736,7 +756,7 @@ const PaymentsCashFlow: React.FC<PaymentsCashFlowProps> = ({
     }
     
     // Determine the correct sign for the amount based on payment type
-    const amount = newPayment.type === 'payment' ? -Math.abs(amountValue) : Math.abs(amountValue);
+    const amount = newPayment.type === 'payment' || newPayment.type === 'fee' ? -Math.abs(amountValue) : Math.abs(amountValue);
     
     const paymentToAdd: Payment = {
       id: '', // Will be set by generateStableId
@@ -744,7 +764,8 @@ const PaymentsCashFlow: React.FC<PaymentsCashFlowProps> = ({
       amount: amount,
       description: newPayment.description.trim(),
       date: dateObj,
-      type: newPayment.type as 'payment' | 'return' | 'interest',
+      type: newPayment.type as 'payment' | 'return' | 'interest' | 'fee',
+      ...(newPayment.type === 'fee' ? { costKind: 'other' as const } : {})
     };
     
     // Generate a stable ID for the new payment
@@ -817,6 +838,37 @@ const PaymentsCashFlow: React.FC<PaymentsCashFlowProps> = ({
     setIsClearSessionDialogOpen(false);
   };
 
+  // After confirmation the draft replaces only the sale the goal seek scaled; prepayments and other returns stay
+  const handleAddDraftSale = (sale: Payment) => {
+    const saleEntries = getSaleEntries(projectData.payments);
+    const saleIncome = (projectData.rentalIncome || []).filter(income => income.type === 'sale');
+    const replaced = saleEntries.length + saleIncome.length;
+    if (replaced > 0 && !window.confirm(
+      `Replace the current sale (${replaced} ${replaced === 1 ? 'entry' : 'entries'}) with the draft sale entry?`
+    )) {
+      return;
+    }
+    updateProjectData({
+      payments: [...projectData.payments.filter(p => !saleEntries.includes(p)), sale],
+      rentalIncome: (projectData.rentalIncome || []).filter(income => income.type !== 'sale')
+    });
+    toast({ description: "Draft sale entry added. Use 'Save to Firebase' to persist changes." });
+  };
+
+  // Replaces the plan with the delayed one, interest and loan dates included, and moves the end date with it
+  const handleAcceptDelay = (result: ConstructionDelayResult) => {
+    updateProjectData({
+      ...result.projectUpdates,
+      payments: result.payments,
+      rentalIncome: result.rentalIncome,
+      projectEndDate: result.projectEndDate
+    });
+    toast({
+      title: 'Delay Applied',
+      description: `${result.shiftedCount} entries moved by ${result.delay.months} months. Use 'Save to Firebase' to persist changes.`
+    });
+  };
+
   // Toggle handlers for type changes
   const handleTogglePaymentType = (paymentId: string, currentType: string) => {
     // Toggle between payment <-> drawdown
@@ -830,11 +882,7 @@ const PaymentsCashFlow: React.FC<PaymentsCashFlowProps> = ({
     
     // Calculate interest with the updated payments array
     const basePayments = updatedPayments.filter(p => p.type !== 'interest');
-    const interestResult = calculateMonthlyInterestLogic({
-      payments: basePayments,
-      interestRate: interestRate,
-      projectEndDate
-    });
+    const interestResult = runInterestCalculation(basePayments);
     
     // Update the payments with the new interest calculations (memory-first approach)
     updatePayments(interestResult.allPaymentsWithInterest);
@@ -854,11 +902,7 @@ const PaymentsCashFlow: React.FC<PaymentsCashFlowProps> = ({
     
     // Calculate interest with the updated payments array
     const basePayments = updatedPayments.filter(p => p.type !== 'interest');
-    const interestResult = calculateMonthlyInterestLogic({
-      payments: basePayments,
-      interestRate: interestRate,
-      projectEndDate
-    });
+    const interestResult = runInterestCalculation(basePayments);
     
     // Update the payments with the new interest calculations (memory-first approach)
     updatePayments(interestResult.allPaymentsWithInterest);
@@ -902,6 +946,18 @@ const PaymentsCashFlow: React.FC<PaymentsCashFlowProps> = ({
                     step="0.1"
                   />
                   <span className="text-sm text-gray-600 min-w-0">% annual</span>
+                  <Button
+                    onClick={() => setIsLoanSettingsOpen(true)}
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 px-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100"
+                    title="Loan Settings"
+                  >
+                    <SlidersHorizontal className="w-4 h-4 mr-1" />
+                    <span className="text-xs">
+                      {rateSummary || 'Rates'}
+                    </span>
+                  </Button>
                 </div>
               </div>
             </div>
@@ -997,11 +1053,67 @@ const PaymentsCashFlow: React.FC<PaymentsCashFlowProps> = ({
 
         {/* Full-Width Financial Summary */}
         {!showOnlyCashFlow && (
-          <CashFlowAnalysis
-            projectData={projectData}
-            allPaymentsWithInterest={allPaymentsWithInterest.length > 0 ? allPaymentsWithInterest : projectData.payments}
-            projectEndDate={projectEndDate}
-          />
+          <Tabs defaultValue="analysis" className="space-y-3">
+            <TabsList>
+              <TabsTrigger value="analysis">Analysis</TabsTrigger>
+              <TabsTrigger value="timeline">Timeline</TabsTrigger>
+              <TabsTrigger value="statement">Monthly Statement</TabsTrigger>
+              <TabsTrigger value="scenarios">Scenarios</TabsTrigger>
+            </TabsList>
+            <TabsContent value="analysis">
+              <CashFlowAnalysis
+                projectData={projectData}
+                allPaymentsWithInterest={allPaymentsWithInterest.length > 0 ? allPaymentsWithInterest : projectData.payments}
+                projectEndDate={projectEndDate}
+                updateProjectData={updateProjectData}
+              />
+            </TabsContent>
+            <TabsContent value="timeline">
+              <CashFlowTimeline
+                projectData={projectData}
+                allPaymentsWithInterest={allPaymentsWithInterest.length > 0 ? allPaymentsWithInterest : projectData.payments}
+              />
+            </TabsContent>
+            <TabsContent value="statement">
+              <CashFlowStatement
+                projectData={projectData}
+                allPaymentsWithInterest={allPaymentsWithInterest.length > 0 ? allPaymentsWithInterest : projectData.payments}
+              />
+            </TabsContent>
+            <TabsContent value="scenarios" className="space-y-4">
+              <SensitivityAnalysis
+                projectData={{ ...projectData, annualInterestRate: interestRate }}
+                allPaymentsWithInterest={allPaymentsWithInterest.length > 0 ? allPaymentsWithInterest : projectData.payments}
+                projectEndDate={projectEndDate}
+                formatCurrency={formatCurrency}
+              />
+              <TornadoChart
+                projectData={{ ...projectData, annualInterestRate: interestRate }}
+                allPaymentsWithInterest={allPaymentsWithInterest.length > 0 ? allPaymentsWithInterest : projectData.payments}
+                projectEndDate={projectEndDate}
+              />
+              <GoalSeek
+                projectData={{ ...projectData, annualInterestRate: interestRate }}
+                allPaymentsWithInterest={allPaymentsWithInterest.length > 0 ? allPaymentsWithInterest : projectData.payments}
+                projectEndDate={projectEndDate}
+                formatCurrency={formatCurrency}
+                onAddDraftSale={handleAddDraftSale}
+              />
+              <ConstructionDelaySimulator
+                projectData={{ ...projectData, annualInterestRate: interestRate }}
+                allPaymentsWithInterest={allPaymentsWithInterest.length > 0 ? allPaymentsWithInterest : projectData.payments}
+                projectEndDate={projectEndDate}
+                formatCurrency={formatCurrency}
+                onAcceptDelay={handleAcceptDelay}
+              />
+              <MonteCarloSimulation
+                projectData={{ ...projectData, annualInterestRate: interestRate }}
+                allPaymentsWithInterest={allPaymentsWithInterest.length > 0 ? allPaymentsWithInterest : projectData.payments}
+                projectEndDate={projectEndDate}
+                formatCurrency={formatCurrency}
+              />
+            </TabsContent>
+          </Tabs>
         )}
 
         {/* Cash Flow Table */}
@@ -1026,6 +1138,8 @@ const PaymentsCashFlow: React.FC<PaymentsCashFlowProps> = ({
           onSaveNew={handleSaveNew}
           onCancelNew={handleCancelNew}
           onUpdatePayment={(payment) => updatePayments(projectData.payments.map(p => p.id === payment.id ? payment : p))}
+          facilities={projectData.loanFacilities}
+          returnAllocation={getReturnAllocation(projectData.settings)}
         />
       </div>
 
@@ -1115,6 +1229,21 @@ const PaymentsCashFlow: React.FC<PaymentsCashFlowProps> = ({
         />
       )}
       
+      {/* Loan Settings Dialog */}
+      <Dialog open={isLoanSettingsOpen} onOpenChange={setIsLoanSettingsOpen}>
+        <DialogContent className="sm:max-w-[560px] max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Loan Settings</DialogTitle>
+          </DialogHeader>
+          <FinancialMetrics
+            projectData={projectData}
+            updateProjectData={updateProjectData}
+            projectEndDate={projectEndDate}
+            onApplyEmiSchedule={handleCalculateInterest}
+          />
+        </DialogContent>
+      </Dialog>
+
       {/* Clear Project Confirmation Dialog */}
       <AlertDialog open={isClearSessionDialogOpen} onOpenChange={setIsClearSessionDialogOpen}>
         <AlertDialogContent>
@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { AnnualInflation, InflationSettings, Payment, ProjectData } from '@/types/project';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { monthToDate } from '@/components/payments/utils';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { calculateRealReturns, DEFAULT_PROJECTED_INFLATION, getInflationRate } from '@/utils/inflation';
+import { XirrResult } from '@/utils/xirr';
+
+interface RealReturnsProps {
+  projectData: ProjectData;
+  allPaymentsWithInterest: Payment[];
+  formatCurrency: (value: number) => string;
+  updateProjectData?: (updates: Partial<ProjectData>) => void;
+}
+
+const chartConfig = {
+  nominal: { label: 'Nominal', color: 'hsl(221, 83%, 53%)' },
+  real: { label: "Today's Rupees", color: 'hsl(142, 71%, 45%)' },
+} satisfies ChartConfig;
+
+const formatLakhs = (value: number) => `${(value / 100000).toFixed(1)}L`;
+const formatXirr = (xirr: XirrResult) => xirr.rate !== null ? `${xirr.rate.toFixed(2)}%` : 'No solution';
+
+export const RealReturns: React.FC<RealReturnsProps> = ({
+  projectData,
+  allPaymentsWithInterest,
+  formatCurrency,
+  updateProjectData
+}) => {
+  const [showTable, setShowTable] = useState(false);
+  const settings = projectData.inflation || {};
+
+  const realReturns = useMemo(
+    () => calculateRealReturns(allPaymentsWithInterest || [], projectData),
+    [allPaymentsWithInterest, projectData]
+  );
+
+  const updateSettings = (updates: Partial<InflationSettings>) => {
+    updateProjectData?.({ inflation: { ...settings, ...updates } });
+  };
+
+  // Years from the first cash flow to today or the last cash flow, whichever is later
+  const years = useMemo(() => {
+    const points = realReturns.timeline;
+    if (points.length === 0) return [];
+    const firstYear = monthToDate(points[0].month).getFullYear();
+    const lastYear = Math.max(monthToDate(points[points.length - 1].month).getFullYear(), new Date().getFullYear());
+    return Array.from({ length: lastYear - firstYear + 1 }, (_, index) => firstYear + index);
+  }, [realReturns.timeline]);
+
+  const setYearRate = (year: number, value: string) => {
+    const others = (settings.cpiTable || []).filter(entry => entry.year !== year);
+    const cpiTable: AnnualInflation[] = value === ''
+      ? others
+      : [...others, { year, rate: Number(value) }].sort((a, b) => a.year - b.year);
+    updateSettings({ cpiTable });
+  };
+
+  if (realReturns.timeline.length === 0) return null;
+
+  const stats = [
+    { label: 'Real XIRR', value: formatXirr(realReturns.real), note: `Nominal ${formatXirr(realReturns.nominal)}` },
+    { label: "Real Profit (today's ₹)", value: formatCurrency(realReturns.realProfit), note: `Nominal ${formatCurrency(realReturns.nominalProfit)}` },
+    {
+      label: 'Average Inflation',
+      value: realReturns.averageInflation !== null ? `${realReturns.averageInflation.toFixed(2)}%` : '—',
+      note: settings.manualRate != null ? 'Flat rate override' : 'CPI table'
+    },
+  ];
+
+  return (
+    <div className="border rounded-md p-3 space-y-3">
+      <div>
+        <h4 className="text-sm font-medium text-gray-700">Real Returns</h4>
+        <p className="text-xs text-muted-foreground">
+          Cash flows restated in today's rupees using CPI inflation, so returns earned over long possession timelines
+          aren't overstated.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        {stats.map(stat => (
+          <div key={stat.label} className="rounded-md bg-gray-50 p-2">
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p className="text-lg font-semibold">{stat.value}</p>
+            <p className="text-xs text-gray-500">{stat.note}</p>
+          </div>
+        ))}
+      </div>
+
+      <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+        <LineChart data={realReturns.timeline} margin={{ left: 12, right: 12, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+          <YAxis tickFormatter={formatLakhs} tickLine={false} axisLine={false} width={48} />
+          <ReferenceLine y={0} stroke="#9ca3af" />
+          <ChartTooltip content={<ChartTooltipContent formatter={(value, name) => (
+            <div className="flex w-full justify-between gap-3">
+              <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label}</span>
+              <span className="font-mono tabular-nums">{formatCurrency(Number(value))}</span>
+            </div>
+          )} />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Line dataKey="nominal" type="monotone" stroke="var(--color-nominal)" strokeWidth={2} dot={false} />
+          <Line dataKey="real" type="monotone" stroke="var(--color-real)" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ChartContainer>
+
+      {updateProjectData && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="w-36">
+              <Label htmlFor="inflationManualRate" className="text-xs">Flat Rate Override (%)</Label>
+              <Input
+                id="inflationManualRate"
+                type="number"
+                step="0.25"
+                value={settings.manualRate ?? ''}
+                placeholder="Use CPI table"
+                onChange={(e) => updateSettings({ manualRate: e.target.value === '' ? null : Number(e.target.value) })}
+                className="h-8 text-sm"
+              />
+            </div>
+            <div className="w-36">
+              <Label htmlFor="inflationProjectedRate" className="text-xs">Future Years (%)</Label>
+              <Input
+                id="inflationProjectedRate"
+                type="number"
+                step="0.25"
+                value={settings.projectedRate ?? DEFAULT_PROJECTED_INFLATION}
+                onChange={(e) => updateSettings({ projectedRate: Number(e.target.value) })}
+                className="h-8 text-sm"
+              />
+            </div>
+            <button
+              type="button"
+              className="flex items-center text-xs text-blue-600 pb-2"
+              onClick={() => setShowTable(!showTable)}
+            >
+              {showTable ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+              CPI table
+            </button>
+          </div>
+
+          {showTable && (
+            <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+              {years.map(year => {
+                const override = settings.cpiTable?.find(entry => entry.year === year);
+                return (
+                  <div key={year}>
+                    <Label htmlFor={`cpi-${year}`} className="text-xs">{year}</Label>
+                    <Input
+                      id={`cpi-${year}`}
+                      type="number"
+                      step="0.1"
+                      value={override ? override.rate : ''}
+                      placeholder={getInflationRate(year, { ...settings, manualRate: null }).toFixed(2)}
+                      onChange={(e) => setYearRate(year, e.target.value)}
+                      className={`h-7 text-xs ${override ? 'border-blue-300' : ''}`}
+                      disabled={settings.manualRate != null}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React from 'react';
+import { ProjectData, ReturnAllocation, ReturnAllocationStrategy } from '@/types/project';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Split } from 'lucide-react';
+import { getFacilityName, getReturnAllocation, PRIMARY_FACILITY_ID, RETURN_ALLOCATION_LABELS } from '@/utils/loanTracker';
+
+interface ReturnAllocationSettingsProps {
+  projectData: ProjectData;
+  updateProjectData: (updates: Partial<ProjectData>) => void;
+}
+
+export const ReturnAllocationSettings: React.FC<ReturnAllocationSettingsProps> = ({
+  projectData,
+  updateProjectData
+}) => {
+  const allocation = getReturnAllocation(projectData.settings);
+  const facilities = projectData.loanFacilities || [];
+
+  const updateAllocation = (updates: Partial<ReturnAllocation>) => {
+    updateProjectData({
+      settings: { ...projectData.settings, returnAllocation: { ...allocation, ...updates } }
+    });
+  };
+
+  return (
+    <Card className="border-blue-200">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <Split className="w-4 h-4 text-blue-600" />
+          Return Allocation
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div>
+          <Label htmlFor="returnAllocation">Returns and sale proceeds</Label>
+          <select
+            id="returnAllocation"
+            value={allocation.strategy}
+            onChange={(e) => updateAllocation({ strategy: e.target.value as ReturnAllocationStrategy })}
+            className="w-full h-8 text-sm rounded-md border border-input px-2"
+          >
+            {(Object.keys(RETURN_ALLOCATION_LABELS) as ReturnAllocationStrategy[]).map(strategy => (
+              <option key={strategy} value={strategy}>{RETURN_ALLOCATION_LABELS[strategy]}</option>
+            ))}
+          </select>
+        </div>
+
+        {allocation.strategy === 'percentage' && (
+          <div>
+            <Label htmlFor="allocationPercentage">Share to the loan (%)</Label>
+            <Input
+              id="allocationPercentage"
+              type="number"
+              min="0"
+              max="100"
+              value={allocation.percentage ?? 100}
+              onChange={(e) => updateAllocation({ percentage: Math.min(100, Math.max(0, Number(e.target.value))) })}
+              className="h-8 text-sm"
+            />
+          </div>
+        )}
+
+        {allocation.strategy === 'cash-buffer' && (
+          <div>
+            <Label htmlFor="allocationCashBuffer">Cash kept from each return (₹)</Label>
+            <Input
+              id="allocationCashBuffer"
+              type="number"
+              min="0"
+              value={allocation.cashBuffer ?? 0}
+              onChange={(e) => updateAllocation({ cashBuffer: Math.abs(Number(e.target.value)) })}
+              className="h-8 text-sm"
+            />
+          </div>
+        )}
+
+        {allocation.strategy === 'facility' && (
+          <div>
+            <Label htmlFor="allocationFacility">Loan to repay</Label>
+            <select
+              id="allocationFacility"
+              value={allocation.facilityId || ''}
+              onChange={(e) => updateAllocation({ facilityId: e.target.value || undefined })}
+              className="w-full h-8 text-sm rounded-md border border-input px-2"
+            >
+              <option value="">{getFacilityName(PRIMARY_FACILITY_ID)}</option>
+              {facilities.map(facility => (
+                <option key={facility.id} value={facility.id}>{facility.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500">
+          Applies to returns without a manual split. The part not used to repay the loan counts as net return in the XIRR.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
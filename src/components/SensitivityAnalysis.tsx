@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { Loader2, Play } from 'lucide-react';
+import { Payment, ProjectData } from '@/types/project';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  buildSensitivityGrid,
+  SCENARIO_VARIABLES,
+  ScenarioResult,
+  ScenarioVariable,
+  SensitivityGrid
+} from '@/utils/scenarioAnalysis';
+
+interface SensitivityAnalysisProps {
+  projectData: ProjectData;
+  allPaymentsWithInterest: Payment[];
+  projectEndDate: Date;
+  formatCurrency: (value: number) => string;
+}
+
+type SensitivityMetric = 'xirr' | 'netProfit';
+
+const parseValues = (text: string): number[] =>
+  text.split(',').map(value => value.trim()).filter(Boolean).map(Number).filter(value => !isNaN(value));
+
+const formatStep = (variable: ScenarioVariable, value: number) => {
+  const { unit } = SCENARIO_VARIABLES[variable];
+  const sign = value > 0 ? '+' : '';
+  return unit === '%' ? `${sign}${value}%` : `${sign}${value} ${unit}`;
+};
+
+export const SensitivityAnalysis: React.FC<SensitivityAnalysisProps> = ({
+  projectData,
+  allPaymentsWithInterest,
+  projectEndDate,
+  formatCurrency
+}) => {
+  const [rowVariable, setRowVariable] = useState<ScenarioVariable>('sale-date');
+  const [columnVariable, setColumnVariable] = useState<ScenarioVariable>('sale-amount');
+  const [rowValuesText, setRowValuesText] = useState(SCENARIO_VARIABLES['sale-date'].defaultValues.join(', '));
+  const [columnValuesText, setColumnValuesText] = useState(SCENARIO_VARIABLES['sale-amount'].defaultValues.join(', '));
+  const [metric, setMetric] = useState<SensitivityMetric>('xirr');
+  const [grid, setGrid] = useState<SensitivityGrid | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const variables = Object.keys(SCENARIO_VARIABLES) as ScenarioVariable[];
+
+  const changeRowVariable = (variable: ScenarioVariable) => {
+    setRowVariable(variable);
+    setRowValuesText(SCENARIO_VARIABLES[variable].defaultValues.join(', '));
+  };
+
+  const changeColumnVariable = (variable: ScenarioVariable) => {
+    setColumnVariable(variable);
+    setColumnValuesText(SCENARIO_VARIABLES[variable].defaultValues.join(', '));
+  };
+
+  // Each cell reruns the interest engine, so the grid is only built on request
+  const runGrid = () => {
+    setIsRunning(true);
+    setTimeout(() => {
+      try {
+        setGrid(buildSensitivityGrid(
+          projectData,
+          allPaymentsWithInterest,
+          projectEndDate,
+          rowVariable,
+          parseValues(rowValuesText),
+          columnVariable,
+          parseValues(columnValuesText)
+        ));
+      } finally {
+        setIsRunning(false);
+      }
+    }, 0);
+  };
+
+  const metricValue = (result: ScenarioResult) => metric === 'xirr' ? result.xirrValue : result.netProfit;
+  const formatMetric = (result: ScenarioResult) => {
+    if (metric === 'netProfit') return formatCurrency(result.netProfit);
+    return result.xirrValue !== null ? `${result.xirrValue.toFixed(2)}%` : 'No solution';
+  };
+  const cellClass = (result: ScenarioResult, isBase: boolean) => {
+    const value = metricValue(result);
+    const base = grid ? metricValue(grid.base) : null;
+    if (isBase) return 'bg-blue-50 font-semibold';
+    if (value === null || base === null || Math.abs(value - base) < 1e-6) return '';
+    return value > base ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800';
+  };
+
+  return (
+    <div className="border rounded-md p-3 space-y-3">
+      <div>
+        <h4 className="text-sm font-medium text-gray-700">Sensitivity Analysis</h4>
+        <p className="text-xs text-muted-foreground">
+          Recalculates interest, EMIs and returns for each combination without changing the saved project.
+          Milestone delay moves payments and drawdowns that aren't due yet.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="sensitivityRows" className="text-xs">Rows</Label>
+          <div className="flex gap-2">
+            <select
+              id="sensitivityRows"
+              value={rowVariable}
+              onChange={(e) => changeRowVariable(e.target.value as ScenarioVariable)}
+              className="h-8 text-sm rounded-md border border-input px-2"
+            >
+              {variables.map(variable => (
+                <option key={variable} value={variable} disabled={variable === columnVariable}>
+                  {SCENARIO_VARIABLES[variable].label}
+                </option>
+              ))}
+            </select>
+            <Input
+              value={rowValuesText}
+              onChange={(e) => setRowValuesText(e.target.value)}
+              className="h-8 text-sm"
+              placeholder={`Values in ${SCENARIO_VARIABLES[rowVariable].unit}, comma separated`}
+            />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="sensitivityColumns" className="text-xs">Columns</Label>
+          <div className="flex gap-2">
+            <select
+              id="sensitivityColumns"
+              value={columnVariable}
+              onChange={(e) => changeColumnVariable(e.target.value as ScenarioVariable)}
+              className="h-8 text-sm rounded-md border border-input px-2"
+            >
+              {variables.map(variable => (
+                <option key={variable} value={variable} disabled={variable === rowVariable}>
+                  {SCENARIO_VARIABLES[variable].label}
+                </option>
+              ))}
+            </select>
+            <Input
+              value={columnValuesText}
+              onChange={(e) => setColumnValuesText(e.target.value)}
+              className="h-8 text-sm"
+              placeholder={`Values in ${SCENARIO_VARIABLES[columnVariable].unit}, comma separated`}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as SensitivityMetric)}
+          className="h-8 text-sm rounded-md border border-input px-2"
+          aria-label="Metric"
+        >
+          <option value="xirr">XIRR</option>
+          <option value="netProfit">Net Profit</option>
+        </select>
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={runGrid} disabled={isRunning}>
+          {isRunning ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Play className="w-3 h-3 mr-1" />}
+          Run
+        </Button>
+        {grid && (
+          <span className="text-xs text-muted-foreground">
+            Current plan: {formatMetric(grid.base)}
+          </span>
+        )}
+      </div>
+
+      {grid && grid.rowValues.length > 0 && grid.columnValues.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-normal py-1 pr-2">
+                  {SCENARIO_VARIABLES[grid.rowVariable].label} \ {SCENARIO_VARIABLES[grid.columnVariable].label}
+                </th>
+                {grid.columnValues.map(value => (
+                  <th key={value} className="text-right font-normal py-1 px-2">{formatStep(grid.columnVariable, value)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {grid.cells.map((row, rowIndex) => (
+                <tr key={grid.rowValues[rowIndex]} className="border-t">
+                  <td className="py-1 pr-2 text-gray-500">{formatStep(grid.rowVariable, grid.rowValues[rowIndex])}</td>
+                  {row.map((result, columnIndex) => (
+                    <td
+                      key={grid.columnValues[columnIndex]}
+                      className={`py-1 px-2 text-right ${cellClass(
+                        result,
+                        grid.rowValues[rowIndex] === 0 && grid.columnValues[columnIndex] === 0
+                      )}`}
+                    >
+                      {formatMetric(result)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
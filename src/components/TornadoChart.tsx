@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Loader2, Play } from 'lucide-react';
+import { Payment, ProjectData } from '@/types/project';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { buildTornado, TornadoAnalysis } from '@/utils/scenarioAnalysis';
+
+interface TornadoChartProps {
+  projectData: ProjectData;
+  allPaymentsWithInterest: Payment[];
+  projectEndDate: Date;
+}
+
+const chartConfig = {
+  low: { label: 'Driver lowered', color: 'hsl(0, 72%, 51%)' },
+  high: { label: 'Driver raised', color: 'hsl(142, 71%, 45%)' },
+} satisfies ChartConfig;
+
+const BAR_SIZE = 14;
+
+export const TornadoChart: React.FC<TornadoChartProps> = ({
+  projectData,
+  allPaymentsWithInterest,
+  projectEndDate
+}) => {
+  const [percent, setPercent] = useState(10);
+  const [analysis, setAnalysis] = useState<TornadoAnalysis | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // Two scenarios per driver rerun the interest engine, so the chart is only built on request
+  const runTornado = () => {
+    setIsRunning(true);
+    setTimeout(() => {
+      try {
+        setAnalysis(buildTornado(projectData, allPaymentsWithInterest, projectEndDate, percent));
+      } finally {
+        setIsRunning(false);
+      }
+    }, 0);
+  };
+
+  const baseXirr = analysis?.base.xirrValue ?? null;
+  // Bars show each scenario's XIRR relative to the current plan
+  const data = baseXirr === null || !analysis ? [] : analysis.drivers
+    .filter(driver => driver.swing !== null)
+    .map(driver => ({
+      label: driver.label,
+      low: (driver.low.xirrValue as number) - baseXirr,
+      high: (driver.high.xirrValue as number) - baseXirr
+    }));
+  const unsolved = analysis?.drivers.filter(driver => driver.swing === null) || [];
+
+  return (
+    <div className="border rounded-md p-3 space-y-3">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700">Return Drivers</h4>
+          <p className="text-xs text-muted-foreground">
+            Moves each driver down and up on its own and ranks them by how far XIRR moves.
+            Interiors are payments whose description mentions interiors, furnishing, fit-out or renovation.
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="w-24">
+            <Label htmlFor="tornadoPercent" className="text-xs">Change (±%)</Label>
+            <Input
+              id="tornadoPercent"
+              type="number"
+              min="1"
+              step="1"
+              value={percent}
+              onChange={(e) => setPercent(Math.max(0, Number(e.target.value)))}
+              className="h-8 text-sm"
+            />
+          </div>
+          <Button variant="outline" size="sm" className="h-8 text-xs" onClick={runTornado} disabled={isRunning || percent <= 0}>
+            {isRunning ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Play className="w-3 h-3 mr-1" />}
+            Run
+          </Button>
+        </div>
+      </div>
+
+      {analysis && baseXirr === null && (
+        <p className="text-xs text-muted-foreground">The current plan has no XIRR to compare against.</p>
+      )}
+
+      {data.length > 0 && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            Current plan XIRR {baseXirr?.toFixed(2)}%; bars show the change in percentage points at ±{analysis?.percent}%.
+          </p>
+          <ChartContainer config={chartConfig} className="w-full aspect-auto" style={{ height: 60 + data.length * 36 }}>
+            <BarChart data={data} layout="vertical" margin={{ left: 12, right: 12 }} barSize={BAR_SIZE} barGap={-BAR_SIZE}>
+              <CartesianGrid horizontal={false} />
+              <XAxis type="number" tickFormatter={(value) => `${value > 0 ? '+' : ''}${Number(value).toFixed(1)}`} tickLine={false} axisLine={false} />
+              <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={140} />
+              <ReferenceLine x={0} stroke="#9ca3af" />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    formatter={(value, name) => (
+                      <div className="flex w-full justify-between gap-3">
+                        <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label}</span>
+                        <span className="font-mono tabular-nums">
+                          {((baseXirr as number) + Number(value)).toFixed(2)}% ({Number(value) >= 0 ? '+' : ''}{Number(value).toFixed(2)} pp)
+                        </span>
+                      </div>
+                    )}
+                  />
+                }
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="low" fill="var(--color-low)" fillOpacity={0.8} />
+              <Bar dataKey="high" fill="var(--color-high)" fillOpacity={0.8} />
+            </BarChart>
+          </ChartContainer>
+        </>
+      )}
+
+      {unsolved.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          No XIRR solution when moving: {unsolved.map(driver => driver.label).join(', ')}
+        </p>
+      )}
+
+      {analysis && analysis.drivers.length === 0 && (
+        <p className="text-xs text-muted-foreground">Add a sale, loan or rental entries to see their effect on returns.</p>
+      )}
+    </div>
+  );
+};
@@ -4,8 +4,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Payment } from '@/types/project';
-import { calculateLoanBalance } from '@/utils/loanTracker';
+import { LoanFacility, Payment, ReturnAllocation } from '@/types/project';
+import { allocateReturn, describeReturnAllocation, processPaymentsWithLoanTracking } from '@/utils/loanTracker';
 import { Info, AlertCircle } from 'lucide-react';
 
 interface LoanAdjustmentDialogProps {
@@ -14,6 +14,8 @@ interface LoanAdjustmentDialogProps {
   payment: Payment;
   allPayments: Payment[];
   onSave: (updatedPayment: Payment) => void;
+  returnAllocation?: ReturnAllocation;
+  facilities?: LoanFacility[];
 }
 
 export const LoanAdjustmentDialog: React.FC<LoanAdjustmentDialogProps> = ({
@@ -21,7 +23,9 @@ export const LoanAdjustmentDialog: React.FC<LoanAdjustmentDialogProps> = ({
   onOpenChange,
   payment,
   allPayments,
-  onSave
+  onSave,
+  returnAllocation = { strategy: 'full' },
+  facilities = []
 }) => {
   const [loanAdjustment, setLoanAdjustment] = useState<number>(0);
   const [netReturn, setNetReturn] = useState<number>(0);
@@ -29,14 +33,25 @@ export const LoanAdjustmentDialog: React.FC<LoanAdjustmentDialogProps> = ({
 
   const totalAmount = Math.abs(payment.amount);
   
-  // Calculate current loan balance before this payment
-  const paymentIndex = allPayments.findIndex(p => p.id === payment.id);
-  const loanBalance = calculateLoanBalance(allPayments, paymentIndex);
+  // Facility balances just before this payment, with earlier returns allocated by the project's strategy
+  const processedPayment = processPaymentsWithLoanTracking(allPayments, returnAllocation).find(p => p.id === payment.id);
+  const balancesBefore: Record<string, number> = {};
+  Object.entries(processedPayment?.facilityBalances || {}).forEach(([facilityKey, balance]) => {
+    balancesBefore[facilityKey] = balance + (processedPayment?.facilityAdjustments?.[facilityKey] || 0);
+  });
+  const loanBalance = {
+    outstanding: Object.values(balancesBefore).reduce((sum, balance) => sum + balance, 0)
+  };
+
+  // What the strategy applies to the loan; repayments always go to the loan in full
+  const strategyLoanAdjustment = payment.type === 'return'
+    ? allocateReturn(totalAmount, balancesBefore, returnAllocation)
+    : Math.min(totalAmount, loanBalance.outstanding);
   
   // Initialize values when dialog opens
   useEffect(() => {
     if (open) {
-      // Use existing values if available, otherwise auto-calculate
+      // Use existing values if available, otherwise follow the allocation strategy
       const existingLoanAdjustment = payment.loanAdjustment || 0;
       const existingNetReturn = payment.netReturn || 0;
       
@@ -45,15 +60,12 @@ export const LoanAdjustmentDialog: React.FC<LoanAdjustmentDialogProps> = ({
         setLoanAdjustment(existingLoanAdjustment);
         setNetReturn(existingNetReturn);
       } else {
-        // Auto-calculate based on loan balance
-        const autoLoanAdjustment = Math.min(totalAmount, loanBalance.outstanding);
-        const autoNetReturn = totalAmount - autoLoanAdjustment;
-        setLoanAdjustment(autoLoanAdjustment);
-        setNetReturn(autoNetReturn);
+        setLoanAdjustment(strategyLoanAdjustment);
+        setNetReturn(totalAmount - strategyLoanAdjustment);
       }
       setError('');
     }
-  }, [open, payment, totalAmount, loanBalance.outstanding]);
+  }, [open, payment, totalAmount, strategyLoanAdjustment]);
 
   // Validate amounts
   useEffect(() => {
@@ -93,6 +105,15 @@ export const LoanAdjustmentDialog: React.FC<LoanAdjustmentDialogProps> = ({
     onOpenChange(false);
   };
 
+  // Drops the manual split so the entry follows the project's allocation strategy again
+  const handleFollowStrategy = () => {
+    const updatedPayment: Payment = { ...payment, isPartialLoanPayment: false };
+    delete updatedPayment.loanAdjustment;
+    delete updatedPayment.netReturn;
+    onSave(updatedPayment);
+    onOpenChange(false);
+  };
+
   const handleCancel = () => {
     onOpenChange(false);
   };
@@ -124,6 +145,11 @@ export const LoanAdjustmentDialog: React.FC<LoanAdjustmentDialogProps> = ({
                 <div className="font-medium text-red-600">₹{loanBalance.outstanding.toLocaleString('en-IN', { minimumFractionDigits: 2 })}</div>
               </div>
             </div>
+            {payment.type === 'return' && (
+              <div className="text-xs text-gray-500 mt-2">
+                Strategy: {describeReturnAllocation(returnAllocation, facilities)} (₹{strategyLoanAdjustment.toLocaleString('en-IN', { minimumFractionDigits: 2 })} to loan)
+              </div>
+            )}
           </div>
 
           {/* Loan Adjustment Input */}
@@ -225,10 +251,25 @@ export const LoanAdjustmentDialog: React.FC<LoanAdjustmentDialogProps> = ({
             >
               All Return
             </Button>
+            {payment.type === 'return' && (
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={() => handleLoanAdjustmentChange(strategyLoanAdjustment)}
+                className="flex-1"
+              >
+                Use Strategy
+              </Button>
+            )}
           </div>
         </div>
 
         <DialogFooter>
+          {payment.loanAdjustment !== undefined && (
+            <Button variant="ghost" onClick={handleFollowStrategy} className="mr-auto">
+              Reset to Strategy
+            </Button>
+          )}
           <Button variant="outline" onClick={handleCancel}>
             Cancel
           </Button>
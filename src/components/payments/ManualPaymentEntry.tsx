@@ -95,12 +95,13 @@ export const ManualPaymentEntry: React.FC<ManualPaymentEntryProps> = ({
           value={newPayment.type || 'payment'}
           onChange={(e) => setNewPayment({
             ...newPayment,
-            type: e.target.value as 'payment' | 'return'
+            type: e.target.value as 'payment' | 'return' | 'fee'
           })}
           className="w-full h-8 text-xs rounded-md border border-blue-200 px-2 bg-white"
         >
           <option value="payment">Payment</option>
           <option value="return">Return</option>
+          <option value="fee">Loan Cost</option>
         </select>
       </TableCell>
       <TableCell className="p-1 pt-2">
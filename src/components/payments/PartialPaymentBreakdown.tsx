@@ -1,18 +1,52 @@
 import React, { useState } from 'react';
 import { ChevronDown, ChevronRight, Info } from 'lucide-react';
-import { ProcessedPayment } from '@/utils/loanTracker';
+import { LoanFacility, ReturnAllocation } from '@/types/project';
+import { describeReturnAllocation, getFacilityName, ProcessedPayment } from '@/utils/loanTracker';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 
+interface FacilityBreakdownRowsProps {
+  payment: ProcessedPayment;
+  facilities: LoanFacility[];
+  formatCurrency: (amount: number) => string;
+}
+
+/**
+ * One row per loan facility the payment was applied to
+ */
+export const FacilityBreakdownRows: React.FC<FacilityBreakdownRowsProps> = ({
+  payment,
+  facilities,
+  formatCurrency
+}) => {
+  const rows = Object.entries(payment.facilityAdjustments || {}).filter(([, amount]) => amount > 0);
+  if (rows.length === 0) return null;
+
+  return (
+    <>
+      {rows.map(([facilityKey, amount]) => (
+        <div key={facilityKey} className="flex justify-between gap-2">
+          <span className="text-blue-500">↳ {getFacilityName(facilityKey, facilities)}:</span>
+          <span className="text-blue-500">{formatCurrency(amount)}</span>
+        </div>
+      ))}
+    </>
+  );
+};
+
 interface PartialPaymentBreakdownProps {
   payment: ProcessedPayment;
   formatCurrency: (amount: number) => string;
   showDetails?: boolean;
+  facilities?: LoanFacility[];
+  returnAllocation?: ReturnAllocation;
 }
 
 export const PartialPaymentBreakdown: React.FC<PartialPaymentBreakdownProps> = ({
   payment,
   formatCurrency,
-  showDetails = true
+  showDetails = true,
+  facilities = [],
+  returnAllocation
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   
@@ -56,6 +90,9 @@ export const PartialPaymentBreakdown: React.FC<PartialPaymentBreakdownProps> = (
                       {formatCurrency(loanPortion)} ({loanPercentage.toFixed(1)}%)
                     </span>
                   </div>
+                  {facilities.length > 0 && (
+                    <FacilityBreakdownRows payment={payment} facilities={facilities} formatCurrency={formatCurrency} />
+                  )}
                   <div className="flex justify-between">
                     <span>Net Return:</span>
                     <span className="font-medium text-green-600">
@@ -68,6 +105,13 @@ export const PartialPaymentBreakdown: React.FC<PartialPaymentBreakdownProps> = (
                     <span>{formatCurrency(totalAmount)}</span>
                   </div>
                 </div>
+                {returnAllocation && payment.type === 'return' && (
+                  <p className="text-xs text-gray-500">
+                    {payment.loanAdjustment !== undefined
+                      ? 'Split set manually'
+                      : describeReturnAllocation(returnAllocation, facilities)}
+                  </p>
+                )}
               </div>
             </PopoverContent>
           </Popover>
@@ -95,6 +139,9 @@ export const PartialPaymentBreakdown: React.FC<PartialPaymentBreakdownProps> = (
                   </span>
                 </div>
               )}
+              {hasLoanAdjustment && facilities.length > 0 && (
+                <FacilityBreakdownRows payment={payment} facilities={facilities} formatCurrency={formatCurrency} />
+              )}
               {hasNetReturn && (
                 <div className="flex justify-between">
                   <span className="text-green-600">→ Net Return:</span>
@@ -6,11 +6,13 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { EnhancedCalendar } from '@/components/ui/enhanced-calendar';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Payment } from '@/types/project';
-import { processPaymentsWithLoanTracking, ProcessedPayment } from '@/utils/loanTracker';
-import { PartialPaymentBreakdown, PartialPaymentIndicator, LoanBalanceDisplay } from './PartialPaymentBreakdown';
+import { LoanFacility, Payment, ReturnAllocation } from '@/types/project';
+import { getFacilityName, PRIMARY_FACILITY_ID, processPaymentsWithLoanTracking, ProcessedPayment } from '@/utils/loanTracker';
+import { PartialPaymentBreakdown, PartialPaymentIndicator, LoanBalanceDisplay, FacilityBreakdownRows } from './PartialPaymentBreakdown';
 import { LoanAdjustmentDialog } from './LoanAdjustmentDialog';
-type PaymentType = 'payment' | 'return' | 'interest' | 'drawdown' | 'repayment';
+import { LOAN_COST_LABELS } from '@/utils/loanCosts';
+import { getEntryDate } from '@/utils/paymentEntries';
+type PaymentType = 'payment' | 'return' | 'interest' | 'drawdown' | 'repayment' | 'fee';
 import { Trash2, CalendarIcon, Pencil, Check, X, Plus, Settings, Filter, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -21,8 +23,13 @@ const PAYMENT_TYPE_CONFIG: Record<PaymentType, { label: string; bgClass: string;
   interest: { label: 'Interest', bgClass: 'bg-purple-100', textClass: 'text-purple-800', borderClass: 'border-purple-300' },
   drawdown: { label: 'Drawdown', bgClass: 'bg-orange-100', textClass: 'text-orange-800', borderClass: 'border-orange-300' },
   repayment: { label: 'Repayment', bgClass: 'bg-blue-100', textClass: 'text-blue-800', borderClass: 'border-blue-300' },
+  fee: { label: 'Loan Cost', bgClass: 'bg-amber-100', textClass: 'text-amber-800', borderClass: 'border-amber-300' },
 };
 
+// Returns and repayments bring money in, except EMI principal which is paid from pocket
+const isInflow = (payment: Payment) =>
+  ['return', 'repayment'].includes(payment.type as string) && payment.source !== 'emi';
+
 type SortField = 'date' | 'amount' | 'type' | 'description' | 'balance';
 type SortDirection = 'asc' | 'desc' | null;
 
@@ -47,6 +54,8 @@ interface PaymentsTableProps {
   onTogglePaymentType?: (id: string, currentType: string) => void;
   onToggleReturnType?: (id: string, currentType: string) => void;
   onUpdatePayment?: (payment: Payment) => void;
+  facilities?: LoanFacility[];
+  returnAllocation?: ReturnAllocation;
 }
 
 export const PaymentsTable: React.FC<PaymentsTableProps> = ({
@@ -69,7 +78,9 @@ export const PaymentsTable: React.FC<PaymentsTableProps> = ({
   onCancelNew = () => {},
   onTogglePaymentType,
   onToggleReturnType,
-  onUpdatePayment
+  onUpdatePayment,
+  facilities = [],
+  returnAllocation = { strategy: 'full' }
 }) => {
   const [loanAdjustmentDialog, setLoanAdjustmentDialog] = useState<{
     open: boolean;
@@ -78,7 +89,7 @@ export const PaymentsTable: React.FC<PaymentsTableProps> = ({
 
   // Filter state - all types selected by default
   const [activeFilters, setActiveFilters] = useState<Set<PaymentType>>(
-    new Set(['payment', 'return', 'interest', 'drawdown', 'repayment'])
+    new Set(['payment', 'return', 'interest', 'drawdown', 'repayment', 'fee'])
   );
 
   // Sort state
@@ -209,7 +220,7 @@ export const PaymentsTable: React.FC<PaymentsTableProps> = ({
 
   // Process filtered payments with loan tracking
   // Note: We process ALL payments first to get correct running balances, then filter the display
-  const allPaymentsWithBalance = processPaymentsWithLoanTracking(payments, true);
+  const allPaymentsWithBalance = processPaymentsWithLoanTracking(payments, returnAllocation);
 
   // Create a map of payment ID to processed payment for quick lookup
   const balanceMap = useMemo(() => {
@@ -424,12 +435,12 @@ export const PaymentsTable: React.FC<PaymentsTableProps> = ({
                   ) : (
                     <div className="flex flex-col items-center gap-1">
                       <span className={`text-sm ${
-                        ['return', 'repayment'].includes(payment.type as string) ? 'text-green-600' : 
+                        isInflow(payment) ? 'text-green-600' : 
                         (payment.type as PaymentType) === 'interest' ? 'text-purple-600' : 
                         'text-red-600'
                       }`}>
-                        {/* Show + for returns and repayments, - for payments and interest */}
-                        {['return', 'repayment'].includes(payment.type as string) ? '+' : '-'}
+                        {/* Show + for returns and repayments, - for payments, interest and EMI principal */}
+                        {isInflow(payment) ? '+' : '-'}
                         {/* Show absolute value of amount */}
                         {Math.abs(payment.amount).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                       </span>
@@ -445,6 +456,13 @@ export const PaymentsTable: React.FC<PaymentsTableProps> = ({
                           {((payment as ProcessedPayment).calculatedNetReturn || 0) > 0 && (
                             <div>Return: ₹{((payment as ProcessedPayment).calculatedNetReturn || 0).toLocaleString()}</div>
                           )}
+                          {facilities.length > 0 && (
+                            <FacilityBreakdownRows
+                              payment={payment as ProcessedPayment}
+                              facilities={facilities}
+                              formatCurrency={formatCurrency}
+                            />
+                          )}
                         </div>
                       )}
                     </div>
@@ -459,6 +477,7 @@ export const PaymentsTable: React.FC<PaymentsTableProps> = ({
                     >
                       <option value="payment">Payment</option>
                       <option value="return">Return</option>
+                      <option value="fee">Loan Cost</option>
                     </select>
                   ) : (
                     <div className="flex justify-center">
@@ -467,10 +486,82 @@ export const PaymentsTable: React.FC<PaymentsTableProps> = ({
                           payment.type === 'drawdown' ? 'bg-orange-100 text-orange-800 border border-orange-300' :
                           payment.type === 'return' ? 'bg-green-100 text-green-800' :
                           payment.type === 'interest' ? 'bg-purple-100 text-purple-800' :
+                          payment.type === 'fee' ? 'bg-amber-100 text-amber-800' :
                           'bg-red-100 text-red-800'}
                       `}>
-                        {payment.type.toUpperCase()}
+                        {payment.type === 'fee' ? LOAN_COST_LABELS[payment.costKind || 'other'].toUpperCase() : payment.type.toUpperCase()}
                       </span>
+                      {payment.source === 'emi' && (
+                        <span
+                          className="ml-1 inline-flex items-center px-1.5 py-0.5 rounded-full text-xs bg-blue-50 text-blue-700 border border-blue-200"
+                          title="Generated by the EMI schedule"
+                        >
+                          EMI
+                        </span>
+                      )}
+                      {payment.capitalised && (
+                        <span
+                          className="ml-1 inline-flex items-center px-1.5 py-0.5 rounded-full text-xs bg-purple-50 text-purple-700 border border-purple-200"
+                          title="Added to loan principal"
+                        >
+                          Capitalised
+                        </span>
+                      )}
+                      {payment.subvented && (
+                        <span
+                          className="ml-1 inline-flex items-center px-1.5 py-0.5 rounded-full text-xs bg-green-50 text-green-700 border border-green-200"
+                          title="Paid by the builder; shown for reference only"
+                        >
+                          Subvention
+                        </span>
+                      )}
+                      {payment.deferredTo && (
+                        <span
+                          className="ml-1 inline-flex items-center px-1.5 py-0.5 rounded-full text-xs bg-amber-50 text-amber-700 border border-amber-200"
+                          title={`Moratorium: due on ${payment.deferredTo}`}
+                        >
+                          Deferred
+                        </span>
+                      )}
+                      {/* Sale marker: picks which returns and lender repayments are the sale proceeds */}
+                      {onUpdatePayment && (payment.type === 'return' || (payment.type === 'repayment' && payment.source !== 'emi')) && (
+                        <button
+                          type="button"
+                          onClick={() => onUpdatePayment({ ...payment, sale: !payment.sale })}
+                          className={`ml-1 inline-flex items-center px-1.5 py-0.5 rounded-full text-xs border ${
+                            payment.sale ? 'bg-green-50 text-green-700 border-green-200' : 'bg-white text-gray-400 border-gray-200'
+                          }`}
+                          title={payment.sale ? 'Proceeds of the property sale' : 'Mark as proceeds of the property sale'}
+                        >
+                          Sale
+                        </button>
+                      )}
+                      {/* Facility tag: editable on loan movements and manual fees, read-only on generated entries; drawdowns can't precede a facility's sanction */}
+                      {facilities.length > 0 && (payment.type === 'drawdown' || payment.type === 'repayment' ||
+                        (payment.type === 'fee' && payment.source !== 'loan-cost')) && (
+                        <select
+                          value={payment.facilityId || ''}
+                          onChange={(e) => onUpdatePayment?.({ ...payment, facilityId: e.target.value || undefined })}
+                          className="ml-1 h-6 text-xs rounded border border-input px-1 bg-white"
+                          title="Loan facility"
+                        >
+                          <option value="">{getFacilityName(PRIMARY_FACILITY_ID)}</option>
+                          {facilities.map(facility => (
+                            <option
+                              key={facility.id}
+                              value={facility.id}
+                              disabled={payment.type === 'drawdown' && !!facility.startDate && format(getEntryDate(payment), 'yyyy-MM-dd') < facility.startDate}
+                            >
+                              {facility.name}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                      {facilities.length > 0 && (payment.type === 'interest' || payment.source === 'loan-cost') && payment.facilityId && (
+                        <span className="ml-1 inline-flex items-center px-1.5 py-0.5 rounded-full text-xs bg-gray-50 text-gray-700 border border-gray-200">
+                          {getFacilityName(payment.facilityId, facilities)}
+                        </span>
+                      )}
                     </div>
                   )}
                 </TableCell>
@@ -491,6 +582,15 @@ export const PaymentsTable: React.FC<PaymentsTableProps> = ({
                     balance={(payment as ProcessedPayment).runningLoanBalance || 0}
                     formatCurrency={formatCurrency}
                   />
+                  {facilities.length > 0 && (payment as ProcessedPayment).facilityBalances && (
+                    <div className="text-xs text-gray-500">
+                      {Object.entries((payment as ProcessedPayment).facilityBalances)
+                        .filter(([, balance]) => balance > 0)
+                        .map(([facilityKey, balance]) => (
+                          <div key={facilityKey}>{getFacilityName(facilityKey, facilities)}: {formatCurrency(balance)}</div>
+                        ))}
+                    </div>
+                  )}
                 </TableCell>
                 <TableCell className="p-1 text-center w-24">
                   {editingPayment === payment.id ? (
@@ -712,6 +812,8 @@ export const PaymentsTable: React.FC<PaymentsTableProps> = ({
           onOpenChange={(open) => setLoanAdjustmentDialog({ open, payment: null })}
           payment={loanAdjustmentDialog.payment}
           allPayments={payments}
+          returnAllocation={returnAllocation}
+          facilities={facilities}
           onSave={(updatedPayment) => {
             if (onUpdatePayment) {
               onUpdatePayment(updatedPayment);
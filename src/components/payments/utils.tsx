@@ -88,50 +88,5 @@ export const parseDate = (dateStr: string): number => {
   }
 };
 
-export const monthToDate = (monthNumber: number): Date => {
-  // Handle invalid month values
-  if (typeof monthNumber !== 'number' || isNaN(monthNumber)) {
-    console.error('Invalid month number passed to monthToDate:', monthNumber);
-    return new Date(); // Return current date as fallback
-  }
-  
-  // For negative months, clamp to 0 (Jan 2024)
-  if (monthNumber < 0) {
-    console.warn('Negative month number in monthToDate:', monthNumber, 'using 0 instead (Jan 2024)');
-    monthNumber = 0;
-  }
-  
-  const baseYear = 2024;
-  const baseMonth = 0; // January (0-based)
-  
-  // Calculate the actual year and month
-  const totalMonths = monthNumber + baseMonth;
-  const year = baseYear + Math.floor(totalMonths / 12);
-  const monthIndex = totalMonths % 12;
-  
-  const result = new Date(year, monthIndex, 1);
-  console.log(`monthToDate: ${monthNumber} -> ${year}-${monthIndex + 1} (${result.toISOString()})`);
-  return result;
-};
-
-export const dateToMonth = (date: Date): number => {
-  // Make sure we have a valid Date object
-  if (!(date instanceof Date) || isNaN(date.getTime())) {
-    console.error('Invalid date passed to dateToMonth:', date);
-    return 0; // Return a safe default
-  }
-  
-  const baseYear = 2024;
-  const baseMonth = 0; // January (0-based)
-  
-  const currentYear = date.getFullYear();
-  const currentMonth = date.getMonth(); // 0-based month index
-  
-  // Calculate the difference in years and add the month difference
-  const yearDiff = currentYear - baseYear;
-  const monthDiff = (yearDiff * 12) + (currentMonth - baseMonth);
-  
-  console.log(`dateToMonth: ${date.toISOString()} -> (${currentYear}-${currentMonth + 1}) = ${monthDiff} months since ${baseYear}-${baseMonth + 1}`);
-  
-  return monthDiff;
-};
+// Month helpers live with the calculation utilities; re-exported for the components that import them from here
+export { dateToMonth, monthToDate } from '@/utils/paymentEntries';
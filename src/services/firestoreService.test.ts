@@ -227,6 +227,23 @@ describe('firestoreService', () => {
       }));
       expect(result).toBe(mockProjectId);
     });
+
+    it('should keep the sale marker through a save and reload', async () => {
+      // SCENARIO: User marks the sale entry, saves and opens the project again
+      const saleEntry: Payment = { ...mockPayments[1], sale: true };
+      vi.mocked(getDoc).mockResolvedValueOnce({ exists: () => false, data: () => null } as never);
+      vi.mocked(setDoc).mockResolvedValue(undefined);
+
+      // Action: Save, then fetch what was written
+      await savePayments([mockPayments[0], saleEntry], mockProjectId);
+      const saved = vi.mocked(setDoc).mock.calls[0][1];
+      vi.mocked(getDoc).mockResolvedValueOnce({ exists: () => true, data: () => saved } as never);
+      const result = await fetchProject(mockProjectId);
+
+      // Verification: Only the marked entry comes back as the sale
+      expect(result.entries.find(entry => entry.id === 'payment-2')!.sale).toBe(true);
+      expect(result.entries.find(entry => entry.id === 'payment-1')).not.toHaveProperty('sale');
+    });
   });
 
   describe('fetchProject', () => {
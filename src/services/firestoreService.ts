@@ -183,6 +183,13 @@ export const sanitizePaymentData = (payment: Payment): any => {
   if (payment.description !== undefined) sanitized.description = payment.description;
   if (payment.debtFunded !== undefined) sanitized.debtFunded = payment.debtFunded;
   if (payment.type !== undefined) sanitized.type = payment.type;
+  if (payment.capitalised !== undefined) sanitized.capitalised = payment.capitalised;
+  if (payment.facilityId !== undefined) sanitized.facilityId = payment.facilityId;
+  if (payment.source !== undefined) sanitized.source = payment.source;
+  if (payment.costKind !== undefined) sanitized.costKind = payment.costKind;
+  if (payment.subvented !== undefined) sanitized.subvented = payment.subvented;
+  if (payment.deferredTo !== undefined) sanitized.deferredTo = payment.deferredTo;
+  if (payment.sale !== undefined) sanitized.sale = payment.sale;
   
   // Handle date specifically (convert to Firestore timestamp if it's a Date object)
   if (payment.date !== undefined) {
@@ -14,7 +14,7 @@ export interface Payment {
   description?: string | any; // Allow React nodes for formatted descriptions
   debtFunded?: boolean;
   date?: Date | string;
-  type?: 'payment' | 'return' | 'interest' | 'drawdown' | 'repayment';
+  type?: 'payment' | 'return' | 'interest' | 'drawdown' | 'repayment' | 'fee';
   breakdown?: InterestBreakdownItem[];
   debtDrawdown?: boolean;
   applyToDebt?: boolean;
@@ -23,6 +23,13 @@ export interface Payment {
   loanAdjustment?: number; // Amount applied to loan principal
   netReturn?: number; // Amount after loan adjustment (for IRR calculation)
   isPartialLoanPayment?: boolean; // Flag to indicate this is a partial loan payment
+  capitalised?: boolean; // Interest added to the loan principal instead of being paid in cash
+  facilityId?: string; // Loan facility of a drawdown/repayment/interest entry; untagged entries belong to the primary loan
+  source?: 'emi' | 'loan-cost'; // Generated by the EMI schedule or loan cost rules (regenerated on every interest calculation)
+  costKind?: LoanCostKind; // Kind of a 'fee' entry
+  subvented?: boolean; // Interest borne by a third party (builder subvention); shown for reference only
+  deferredTo?: string; // ISO date a moratorium defers this interest to
+  sale?: boolean; // Proceeds of the property sale, on a return or a repayment paid straight to the lender
 }
 
 export interface IncomeItem {
@@ -40,9 +47,151 @@ export interface ExpenseItem {
   type: 'operating' | 'interest' | 'selling';
 }
 
+export interface RateChange {
+  id: string;
+  effectiveFrom: string; // ISO date (yyyy-MM-dd) from which the new rate applies
+  annualRate: number; // Annual interest rate as a percentage
+}
+
+export interface BenchmarkRate {
+  id: string;
+  benchmark: string; // e.g. 'REPO', 'MCLR'
+  effectiveFrom: string; // ISO date (yyyy-MM-dd)
+  rate: number; // Benchmark value as a percentage
+}
+
+export type RateResetFrequency = 'monthly' | 'quarterly' | 'half-yearly' | 'annual';
+
+export interface FloatingRateConfig {
+  enabled: boolean;
+  benchmark: string;
+  spread: number; // Percentage points added to the benchmark
+  resetFrequency: RateResetFrequency;
+  firstResetDate: string; // ISO date of the first reset; later resets follow the frequency
+}
+
+// What the investor's cash could have earned instead: a fixed annual rate (deposits, debt funds) or an index series
+export type ReturnBenchmarkKind = 'fixed-rate' | 'index';
+
+export interface IndexLevel {
+  date: string; // ISO date (yyyy-MM-dd)
+  value: number; // Index level; a total return index includes dividends
+}
+
+export interface ReturnBenchmark {
+  id: string;
+  name: string; // e.g. 'Bank FD', 'Nifty 50 TRI'
+  kind: ReturnBenchmarkKind;
+  annualRate?: number; // 'fixed-rate': annual return as a percentage
+  levels?: IndexLevel[]; // 'index': dated levels sorted by date
+}
+
+export interface AnnualInflation {
+  year: number; // Calendar year
+  rate: number; // CPI inflation over the year as a percentage
+}
+
+// How cash flows are deflated into today's rupees
+export interface InflationSettings {
+  cpiTable?: AnnualInflation[]; // Year-by-year overrides of the built-in CPI table
+  manualRate?: number | null; // When set, one flat annual rate replaces the CPI table (null once cleared)
+  projectedRate?: number; // Annual rate for years the table doesn't cover (defaults to 5%)
+}
+
+// How the sale is taxed as a capital gain
+export interface CapitalGainsSettings {
+  acquisitionDate?: string | null; // ISO allotment date the holding period runs from; defaults to the first payment
+  slabRate?: number; // Marginal income tax rate for short-term gains as a percentage (defaults to the tax profile's, else 30)
+  surchargePercent?: number; // Surcharge on the tax as a percentage (defaults to 0)
+  transferExpenses?: number; // Brokerage and other costs of the sale
+}
+
+// The investor's income tax position, for home loan deductions
+export type TaxRegime = 'old' | 'new';
+export type PropertyOccupancy = 'self-occupied' | 'let-out';
+
+export interface TaxProfile {
+  enabled: boolean;
+  regime: TaxRegime;
+  slabRate: number; // Marginal income tax rate as a percentage
+  occupancy: PropertyOccupancy;
+  possessionDate?: string | null; // ISO date construction was completed; interest of earlier years is pre-construction
+  section80CLimit?: number; // Room left under Section 80C for principal (defaults to 1,50,000)
+}
+
+// Costs of borrowing besides interest, recorded as 'fee' entries
+export type LoanCostKind = 'processing-fee' | 'prepayment-charge' | 'penal-interest' | 'other';
+
+export interface LoanCostRules {
+  processingFeePercent?: number; // % of the amount drawn, charged on the first drawdown
+  processingFeeFlat?: number; // Fixed amount added to the processing fee
+  prepaymentChargePercent?: number; // % of principal repaid outside the EMI schedule (prepayment or foreclosure)
+  penalRate?: number; // Annual % charged on an overdue EMI for the days it is late
+}
+
+export interface LoanFacility {
+  id: string;
+  name: string; // e.g. 'Top-up loan'
+  lender?: string;
+  annualRate: number; // Fixed annual interest rate as a percentage
+  startDate?: string; // ISO date the facility was sanctioned
+  costRules?: LoanCostRules;
+}
+
+// 'pre-emi' pays interest only on disbursed amounts until EMIs start; 'full-emi' pays the EMI from the first disbursal
+export type EmiMode = 'pre-emi' | 'full-emi';
+
+export interface EmiConfig {
+  enabled: boolean;
+  mode?: EmiMode; // Defaults to 'pre-emi'
+  facilityId?: string; // Loan repaid by the EMI; undefined for the primary loan
+  principal: number; // Outstanding principal when EMIs start (sanctioned amount for full EMI)
+  tenureMonths: number;
+  startDate: string; // ISO date of the first pre-EMI-mode EMI; full EMI starts a month after the first disbursal
+  latePayments?: LateEmiPayment[]; // EMIs paid after their due date (charged penal interest)
+}
+
+export interface LateEmiPayment {
+  id: string;
+  emiDate: string; // ISO due date of the EMI
+  paidDate: string; // ISO date it was actually paid
+}
+
+// 'subvention': a third party (usually the builder) pays the interest; 'moratorium': interest falls due at the end of the range
+export type InterestHolidayType = 'subvention' | 'moratorium';
+
+export interface InterestHoliday {
+  id: string;
+  type: InterestHolidayType;
+  fromDate: string; // ISO date; interest for months ending within the range is covered
+  toDate: string; // ISO date
+  facilityId?: string; // Loan the holiday applies to; undefined for the primary loan
+  description?: string; // e.g. '20:80 scheme until possession'
+}
+
+export type InterestMode = 'simple' | 'compound' | 'capitalised';
+
+// 'monthly' charges 1/12 of the annual rate per month, spread over the actual days in that month
+export type DayCountConvention = 'monthly' | 'actual/365' | 'actual/360' | '30/360';
+
+// How often repayments are credited to the interest-bearing balance
+export type RestPeriod = 'daily' | 'monthly' | 'annual';
+
 export interface ProjectData {
   projectName: string;
   annualInterestRate: number; // Annual interest rate as a percentage (e.g., 12 for 12%)
+  rateSchedule?: RateChange[]; // Dated rate changes for floating-rate loans (base rate applies before the first change)
+  benchmarkRates?: BenchmarkRate[]; // Published benchmark values (repo, MCLR, ...)
+  floatingRate?: FloatingRateConfig; // Benchmark + spread pricing; replaces rateSchedule when enabled
+  interestMode?: InterestMode; // How unpaid interest treats the principal (defaults to simple)
+  capitaliseUntil?: string; // ISO date; in 'capitalised' mode interest for months ending by this date is added to principal
+  dayCountConvention?: DayCountConvention; // Defaults to 'monthly'
+  restPeriod?: RestPeriod; // Defaults to 'daily'
+  loanFacilities?: LoanFacility[]; // Additional loans besides the primary loan priced by the settings above
+  loanCostRules?: LoanCostRules; // Fees and charges of the primary loan
+  emi?: EmiConfig; // Fixed EMI repayment once the loan is fully disbursed
+  interestHolidays?: InterestHoliday[]; // Subvention and moratorium periods
+  settings?: ProjectSettings;
   projectEndDate?: Date; // Project end date for interest calculations
   purchasePrice: number;
   closingCosts: number;
@@ -55,23 +204,41 @@ export interface ProjectData {
   saleMonth?: number;
   sellingCosts?: number;
   monthlyInterestRate?: number;
-  discountRate?: number;
+  discountRate?: number; // Annual discount rate for NPV as a decimal (e.g., 0.12 for 12%)
+  mirrFinanceRate?: number; // MIRR rate on outflows as a decimal (defaults to the loan rate)
+  mirrReinvestmentRate?: number; // MIRR rate on inflows as a decimal (defaults to the discount rate)
+  returnBenchmarks?: ReturnBenchmark[]; // Alternatives the investor's cash flows are compared with
+  inflation?: InflationSettings; // CPI assumptions for real returns
+  capitalGains?: CapitalGainsSettings; // Tax on the sale for post-tax returns
+  taxProfile?: TaxProfile; // Section 24(b) and 80C deductions on the loan
   payments: Payment[];
   rentalIncome: IncomeItem[];
   operatingExpenses?: ExpenseItem[];
 }
 
+// One month of the cash flow statement; outflows are negative
 export interface CashFlowRow {
   month: number;
-  payments: number;
-  interest: number;
+  payments: number; // Property payments and EMI principal from pocket
+  interest: number; // Interest paid plus loan fees and charges
   rental: number;
-  sale: number;
+  sale: number; // Sale proceeds and returns after the loan's share
   netCashFlow: number;
   cumulativeCashFlow: number;
-  outstandingBalance: number;
+  outstandingBalance: number; // Loan balance at the end of the month
+}
+
+// How returns are split between repaying the loan and the investor's net return
+export type ReturnAllocationStrategy = 'full' | 'percentage' | 'cash-buffer' | 'facility' | 'none';
+
+export interface ReturnAllocation {
+  strategy: ReturnAllocationStrategy;
+  percentage?: number; // 'percentage': share of each return applied to the loan
+  cashBuffer?: number; // 'cash-buffer': amount of each return kept as cash before repaying the loan
+  facilityId?: string; // 'facility': loan the returns repay (undefined for the primary loan)
 }
 
 export interface ProjectSettings {
-  autoRepayInflow: boolean;
+  autoRepayInflow?: boolean; // Legacy switch: false keeps returns out of the loan when no allocation is set
+  returnAllocation?: ReturnAllocation;
 }
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { compareWithBenchmark, compareWithBenchmarks, getGrowthFactor, parseIndexLevelsCsv } from './benchmarkComparison';
+import { Payment, ProjectData, ReturnBenchmark } from '@/types/project';
+
+describe('benchmark comparison', () => {
+  // Two years of 365 days at exactly 10% a year
+  const cashFlows = [
+    { date: new Date(2021, 0, 1), amount: -1000 },
+    { date: new Date(2023, 0, 1), amount: 1210 }
+  ];
+  const deposit: ReturnBenchmark = { id: 'fd', name: 'Fixed deposit', kind: 'fixed-rate', annualRate: 5 };
+  const index: ReturnBenchmark = {
+    id: 'nifty',
+    name: 'Index',
+    kind: 'index',
+    levels: [
+      { date: '2021-01-01', value: 100 },
+      { date: '2022-01-01', value: 110 },
+      { date: '2023-01-01', value: 121 }
+    ]
+  };
+
+  it('should grow money at a fixed rate or along an index', () => {
+    expect(getGrowthFactor(deposit, new Date(2021, 0, 1), new Date(2023, 0, 1))).toBeCloseTo(1.1025, 10);
+    expect(getGrowthFactor(index, new Date(2021, 5, 1), new Date(2022, 5, 1))).toBeCloseTo(1.1, 10);
+    expect(getGrowthFactor(index, new Date(2020, 11, 31), new Date(2022, 5, 1))).toBeNull();
+  });
+
+  it('should compare terminal wealth and the excess return over a fixed rate', () => {
+    const comparison = compareWithBenchmark(cashFlows, deposit);
+
+    expect(comparison.status).toBe('ok');
+    expect(comparison.benchmarkReturn).toBeCloseTo(5, 8);
+    expect(comparison.benchmarkWealth).toBeCloseTo(1102.5, 6);
+    expect(comparison.projectWealth).toBeCloseTo(1210, 6);
+    expect(comparison.wealthDifference).toBeCloseTo(107.5, 6);
+    // 1.10 / 1.05 - 1
+    expect(comparison.alpha!).toBeCloseTo(4.7619, 3);
+  });
+
+  it('should show no alpha against an index that matched the project', () => {
+    const comparison = compareWithBenchmark(cashFlows, index);
+
+    expect(comparison.benchmarkReturn).toBeCloseTo(10, 8);
+    expect(comparison.wealthDifference).toBeCloseTo(0, 6);
+    expect(comparison.alpha!).toBeCloseTo(0, 4);
+    expect(comparison.dataEndDate).toEqual(new Date(2023, 0, 1));
+
+    const lateIndex = { ...index, levels: index.levels!.slice(1) };
+    expect(compareWithBenchmark(cashFlows, lateIndex).status).toBe('missing-data');
+  });
+
+  it('should use the investor cash flows of a project', () => {
+    const payments: Payment[] = [
+      { id: 'p1', amount: 100000, type: 'payment', date: new Date(2021, 0, 1), month: -36 },
+      { id: 'r1', amount: 121000, type: 'return', date: new Date(2023, 0, 1), month: -12 }
+    ];
+    const projectData = {
+      projectName: 'Test',
+      annualInterestRate: 9,
+      purchasePrice: 0,
+      closingCosts: 0,
+      payments,
+      rentalIncome: [],
+      returnBenchmarks: [deposit, index]
+    } as ProjectData;
+
+    const [fd, nifty] = compareWithBenchmarks(payments, projectData);
+    expect(fd.wealthDifference).toBeCloseTo(10750, 2);
+    expect(nifty.alpha!).toBeCloseTo(0, 4);
+  });
+
+  it('should parse index levels from CSV', () => {
+    const { levels, errors } = parseIndexLevelsCsv('Date,Close\n01-01-2021,100\n2022-01-01,110\n2022-06-01,0');
+    expect(levels).toEqual([{ date: '2021-01-01', value: 100 }, { date: '2022-01-01', value: 110 }]);
+    expect(errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,123 @@
+import { parseISO } from 'date-fns';
+import { IndexLevel, Payment, ProjectData, ReturnBenchmark } from '@/types/project';
+import { getInvestorCashFlows } from '@/utils/cashFlowAnalysis';
+import { getValueOn, parseDatedValuesCsv } from '@/utils/datedSeries';
+import { generateId } from '@/utils/idGenerator';
+import { calculateXIRR } from '@/utils/xirr';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Starting points for the usual Indian alternatives; rates are editable once added
+export const PRESET_RETURN_BENCHMARKS: Array<Omit<ReturnBenchmark, 'id'>> = [
+  { name: 'Fixed deposit', kind: 'fixed-rate', annualRate: 7 },
+  { name: 'Debt fund', kind: 'fixed-rate', annualRate: 7.5 },
+];
+
+export interface BenchmarkComparison {
+  benchmark: ReturnBenchmark;
+  status: 'ok' | 'missing-data'; // missing-data: the index starts after the first cash flow
+  endDate: Date; // Date of the last cash flow, where wealth is compared
+  benchmarkReturn: number | null; // Annualised benchmark return from the first cash flow to the end date (%)
+  benchmarkWealth: number; // What the outflows would have grown to in the benchmark
+  projectWealth: number; // Project inflows, reinvested in the benchmark until the end date
+  wealthDifference: number; // Project minus benchmark; positive when the project did better
+  alpha: number | null; // Annual return over the benchmark (direct alpha, %); null when it has no solution
+  dataEndDate: Date | null; // Last index level; later flows use it
+}
+
+/**
+ * How much one rupee grows between two dates in a benchmark
+ * @returns Growth factor, or null when an index has no level on or before the start
+ */
+export const getGrowthFactor = (benchmark: ReturnBenchmark, from: Date, to: Date): number | null => {
+  if (benchmark.kind === 'fixed-rate') {
+    const years = (to.getTime() - from.getTime()) / MS_PER_DAY / 365;
+    return Math.pow(1 + (benchmark.annualRate || 0) / 100, years);
+  }
+
+  const series = (benchmark.levels || []).map(level => ({ date: level.date, value: level.value }));
+  const start = getValueOn(series, from);
+  const end = getValueOn(series, to);
+  return start && end !== null ? end / start : null;
+};
+
+/**
+ * Runs the investor's cash flows through a benchmark: every outflow is invested in it, every inflow is
+ * reinvested in it, and both pots are compared on the date of the last flow
+ * @param cashFlows Investor cash flows (negative out, positive in)
+ */
+export const compareWithBenchmark = (
+  cashFlows: Array<{ date: Date; amount: number }>,
+  benchmark: ReturnBenchmark
+): BenchmarkComparison => {
+  const times = cashFlows.map(cf => cf.date.getTime());
+  const startDate = new Date(Math.min(...times));
+  const endDate = new Date(Math.max(...times));
+  const lastLevel = benchmark.kind === 'index' ? benchmark.levels?.[benchmark.levels.length - 1] : undefined;
+  const dataEndDate = lastLevel ? parseISO(lastLevel.date) : null;
+
+  const growth = cashFlows.map(cf => getGrowthFactor(benchmark, cf.date, endDate));
+  if (cashFlows.length === 0 || growth.some(factor => factor === null)) {
+    return {
+      benchmark,
+      status: 'missing-data',
+      endDate,
+      benchmarkReturn: null,
+      benchmarkWealth: 0,
+      projectWealth: 0,
+      wealthDifference: 0,
+      alpha: null,
+      dataEndDate
+    };
+  }
+
+  const grownFlows = cashFlows.map((cf, index) => ({ date: cf.date, amount: cf.amount * (growth[index] as number) }));
+  const benchmarkWealth = grownFlows.filter(cf => cf.amount < 0).reduce((sum, cf) => sum - cf.amount, 0);
+  const projectWealth = grownFlows.filter(cf => cf.amount > 0).reduce((sum, cf) => sum + cf.amount, 0);
+  const years = (endDate.getTime() - startDate.getTime()) / MS_PER_DAY / 365;
+  const periodGrowth = getGrowthFactor(benchmark, startDate, endDate) as number;
+
+  return {
+    benchmark,
+    status: 'ok',
+    endDate,
+    benchmarkReturn: years > 0 ? (Math.pow(periodGrowth, 1 / years) - 1) * 100 : null,
+    benchmarkWealth,
+    projectWealth,
+    wealthDifference: projectWealth - benchmarkWealth,
+    // The XIRR of the flows grown at the benchmark is the return earned over and above it
+    alpha: calculateXIRR(grownFlows).rate,
+    dataEndDate
+  };
+};
+
+/**
+ * Compares a project's investor cash flows with each of its return benchmarks
+ * @param paymentsData Entries including calculated interest
+ * @param projectData Project with rental income, return allocation and benchmarks
+ */
+export const compareWithBenchmarks = (paymentsData: Payment[], projectData: ProjectData): BenchmarkComparison[] => {
+  const cashFlows = getInvestorCashFlows(paymentsData, projectData).filter(cf => !isNaN(cf.date.getTime()) && cf.amount !== 0);
+  if (cashFlows.length < 2) return [];
+  return (projectData.returnBenchmarks || []).map(benchmark => compareWithBenchmark(cashFlows, benchmark));
+};
+
+/**
+ * Parses index levels from a "Date,Value" CSV (an NSE / BSE historical download trimmed to date and close)
+ * @param csvText Raw CSV text
+ * @returns Levels sorted by date, plus per-line errors
+ */
+export const parseIndexLevelsCsv = (csvText: string): { levels: IndexLevel[]; errors: string[] } => {
+  const { values, errors } = parseDatedValuesCsv(csvText);
+  const levels = values.filter(value => value.value > 0).map(value => ({ date: value.date, value: value.value }));
+  if (levels.length < values.length) errors.push('Index levels must be positive; zero and negative values were skipped');
+  return { levels, errors };
+};
+
+/**
+ * Creates a benchmark ready to be stored on the project
+ */
+export const createReturnBenchmark = (benchmark: Omit<ReturnBenchmark, 'id'>): ReturnBenchmark => ({
+  id: generateId('benchmark'),
+  ...benchmark
+});
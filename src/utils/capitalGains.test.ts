@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { calculateCapitalGains, getCostInflationIndex, getFinancialYear } from './capitalGains';
+import { Payment, ProjectData } from '@/types/project';
+
+const createProject = (payments: Payment[], overrides: Partial<ProjectData> = {}): ProjectData => ({
+  projectName: 'Test',
+  annualInterestRate: 9,
+  purchasePrice: 0,
+  closingCosts: 0,
+  payments,
+  rentalIncome: [],
+  ...overrides
+} as ProjectData);
+
+describe('capitalGains', () => {
+  it('should index by Indian financial year', () => {
+    expect(getFinancialYear(new Date(2024, 2, 31))).toBe(2023);
+    expect(getFinancialYear(new Date(2024, 3, 1))).toBe(2024);
+    expect(getCostInflationIndex(2020)).toBe(301);
+    expect(getCostInflationIndex(1995)).toBe(100);
+    expect(getCostInflationIndex(2040)).toBe(376);
+  });
+
+  it('should tax a sale within 24 months at the slab rate plus cess', () => {
+    const payments: Payment[] = [
+      { id: 'p1', amount: 5000000, type: 'payment', date: new Date(2024, 0, 10), month: 0 },
+      { id: 'r1', amount: 6000000, type: 'return', date: new Date(2025, 5, 10), month: 17 }
+    ];
+    const result = calculateCapitalGains(payments, createProject(payments))!;
+
+    expect(result.term).toBe('short-term');
+    expect(result.options).toHaveLength(1);
+    expect(result.chosen.gain).toBe(1000000);
+    expect(result.totalTax).toBeCloseTo(1000000 * 0.3 * 1.04, 6);
+    expect(result.postTax.rate!).toBeLessThan(result.preTax.rate!);
+    expect(result.postTaxProfit).toBeCloseTo(1000000 - result.totalTax, 6);
+  });
+
+  it('should offer 20% with indexation for property bought before 23 July 2024 and pick the lower tax', () => {
+    const payments: Payment[] = [
+      { id: 'p1', amount: 4000000, type: 'payment', date: new Date(2016, 5, 1), month: -91 },
+      { id: 'p2', amount: 1000000, type: 'payment', date: new Date(2020, 5, 1), month: -43, description: 'Interiors' },
+      { id: 'r1', amount: 9000000, type: 'return', date: new Date(2025, 5, 1), month: 17 }
+    ];
+    const result = calculateCapitalGains(payments, createProject(payments))!;
+
+    expect(result.term).toBe('long-term');
+    expect(result.acquisitionCost).toBe(4000000);
+    expect(result.improvementCost).toBe(1000000);
+    const [plain, indexed] = result.options;
+    expect(plain.method).toBe('without-indexation');
+    expect(plain.tax).toBeCloseTo(4000000 * 0.125, 6);
+    // Each instalment is indexed from its own year: FY 2016-17 (264) and FY 2020-21 (301) to FY 2025-26 (376)
+    expect(indexed.cost).toBeCloseTo(4000000 * 376 / 264 + 1000000 * 376 / 301, 6);
+    expect(indexed.tax).toBeCloseTo((9000000 - indexed.cost) * 0.2, 6);
+    expect(result.chosen).toBe(indexed.tax < plain.tax ? indexed : plain);
+  });
+
+  it('should only allow 12.5% without indexation for later acquisitions and count loan-funded costs', () => {
+    const payments: Payment[] = [
+      { id: 'p1', amount: 1000000, type: 'payment', date: new Date(2024, 7, 1), month: 7 },
+      { id: 'd1', amount: 4000000, type: 'drawdown', date: new Date(2024, 8, 1), month: 8 },
+      { id: 'i1', amount: 30000, type: 'interest', date: new Date(2024, 9, 1), month: 9 },
+      { id: 'r1', amount: 7000000, type: 'return', date: new Date(2027, 0, 1), month: 36 }
+    ];
+    const result = calculateCapitalGains(payments, createProject(payments, {
+      capitalGains: { surchargePercent: 10, transferExpenses: 100000 }
+    }))!;
+
+    expect(result.options.map(option => option.method)).toEqual(['without-indexation']);
+    expect(result.acquisitionCost).toBe(5000000);
+    expect(result.chosen.gain).toBe(1900000);
+    expect(result.totalTax).toBeCloseTo(1900000 * 0.125 * 1.1 * 1.04, 6);
+  });
+
+  it('should run the holding period from the allotment date and skip projects without a sale', () => {
+    const payments: Payment[] = [
+      { id: 'p1', amount: 5000000, type: 'payment', date: new Date(2024, 0, 10), month: 0 },
+      { id: 'r1', amount: 6000000, type: 'return', date: new Date(2025, 5, 10), month: 17 }
+    ];
+    const result = calculateCapitalGains(payments, createProject(payments, { capitalGains: { acquisitionDate: '2023-01-01' } }))!;
+    expect(result.term).toBe('long-term');
+    expect(result.holdingMonths).toBe(29);
+
+    expect(calculateCapitalGains(payments.slice(0, 1), createProject(payments.slice(0, 1)))).toBeNull();
+  });
+
+  it('should leave prepayments out of the sale proceeds and the sale date', () => {
+    const payments: Payment[] = [
+      { id: 'p1', amount: 1000000, type: 'payment', date: new Date(2024, 0, 10), month: 0 },
+      { id: 'd1', amount: 4000000, type: 'drawdown', date: new Date(2024, 0, 10), month: 0 },
+      { id: 'r1', amount: 6000000, type: 'return', date: new Date(2025, 5, 10), month: 17 },
+      { id: 'pp1', amount: 500000, type: 'repayment', date: new Date(2026, 5, 10), month: 29 }
+    ];
+    const result = calculateCapitalGains(payments, createProject(payments))!;
+    expect(result.saleProceeds).toBe(6000000);
+    expect(result.saleDate).toEqual(new Date(2025, 5, 10));
+    expect(result.term).toBe('short-term');
+
+    // Proceeds paid straight to the lender count once marked as the sale
+    const lenderSale: Payment = { ...payments[3], sale: true, date: new Date(2025, 5, 10), month: 17 };
+    const marked = [...payments.slice(0, 2), { ...payments[2], sale: true }, lenderSale];
+    expect(calculateCapitalGains(marked, createProject(marked))!.saleProceeds).toBe(6500000);
+  });
+});
@@ -0,0 +1,179 @@
+import { addMonths, differenceInMonths } from 'date-fns';
+import { Payment, ProjectData } from '@/types/project';
+import { getInvestorCashFlows } from '@/utils/cashFlowAnalysis';
+import { getReturnAllocation, processPaymentsWithLoanTracking } from '@/utils/loanTracker';
+import { getEntryDate, getSaleProceeds, isInteriorsEntry } from '@/utils/paymentEntries';
+import { calculateXIRR, XirrResult } from '@/utils/xirr';
+
+// Cost Inflation Index notified under Section 48, keyed by the year the financial year starts (2001 = FY 2001-02)
+export const COST_INFLATION_INDEX: Array<{ year: number; index: number }> = [
+  { year: 2001, index: 100 },
+  { year: 2002, index: 105 },
+  { year: 2003, index: 109 },
+  { year: 2004, index: 113 },
+  { year: 2005, index: 117 },
+  { year: 2006, index: 122 },
+  { year: 2007, index: 129 },
+  { year: 2008, index: 137 },
+  { year: 2009, index: 148 },
+  { year: 2010, index: 167 },
+  { year: 2011, index: 184 },
+  { year: 2012, index: 200 },
+  { year: 2013, index: 220 },
+  { year: 2014, index: 240 },
+  { year: 2015, index: 254 },
+  { year: 2016, index: 264 },
+  { year: 2017, index: 272 },
+  { year: 2018, index: 280 },
+  { year: 2019, index: 289 },
+  { year: 2020, index: 301 },
+  { year: 2021, index: 317 },
+  { year: 2022, index: 331 },
+  { year: 2023, index: 348 },
+  { year: 2024, index: 363 },
+  { year: 2025, index: 376 },
+];
+
+// Transfers from this date pay 12.5% without indexation; land and buildings bought earlier may opt for 20% with it
+export const LTCG_REFORM_DATE = new Date(2024, 6, 23);
+export const LONG_TERM_HOLDING_MONTHS = 24;
+export const DEFAULT_SLAB_RATE = 30;
+export const HEALTH_EDUCATION_CESS = 4;
+
+export type CapitalGainsTerm = 'short-term' | 'long-term';
+export type CapitalGainsMethod = 'slab' | 'without-indexation' | 'with-indexation';
+
+export const CAPITAL_GAINS_METHOD_LABELS: Record<CapitalGainsMethod, string> = {
+  'slab': 'Slab rate',
+  'without-indexation': '12.5% without indexation',
+  'with-indexation': '20% with indexation',
+};
+
+export interface CapitalGainsOption {
+  method: CapitalGainsMethod;
+  rate: number; // Tax rate before surcharge and cess (%)
+  cost: number; // Cost of acquisition and improvement, indexed for 'with-indexation'
+  gain: number; // Negative for a loss
+  tax: number; // Tax before surcharge and cess
+}
+
+export interface CapitalGainsResult {
+  saleDate: Date; // Date of transfer: the last sale entry
+  acquisitionDate: Date;
+  holdingMonths: number;
+  term: CapitalGainsTerm;
+  saleProceeds: number;
+  transferExpenses: number;
+  acquisitionCost: number; // Payments to the builder, loan-funded ones included
+  improvementCost: number; // Interiors and other improvements
+  options: CapitalGainsOption[]; // Every method open to the sale; two when the grandfathering choice applies
+  chosen: CapitalGainsOption; // The option with the lower tax
+  surcharge: number;
+  cess: number;
+  totalTax: number;
+  preTax: XirrResult;
+  postTax: XirrResult; // Tax and transfer expenses paid on the sale date
+  postTaxProfit: number;
+}
+
+/**
+ * Indian financial year (April to March) a date falls in, as the calendar year it starts
+ */
+export const getFinancialYear = (date: Date): number =>
+  date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+
+/**
+ * Cost Inflation Index for a financial year; years before the 2001 base use the base and years not yet
+ * notified use the latest index
+ */
+export const getCostInflationIndex = (financialYear: number): number => {
+  const first = COST_INFLATION_INDEX[0];
+  const last = COST_INFLATION_INDEX[COST_INFLATION_INDEX.length - 1];
+  if (financialYear <= first.year) return first.index;
+  if (financialYear >= last.year) return last.index;
+  return COST_INFLATION_INDEX.find(entry => entry.year === financialYear)?.index ?? last.index;
+};
+
+/**
+ * Computes the capital gains tax on the project's sale and the XIRR after paying it
+ * @param paymentsData Entries including calculated interest
+ * @param projectData Project with rental income, return allocation and capital gains settings
+ * @returns Null when the project has no sale
+ */
+export const calculateCapitalGains = (paymentsData: Payment[], projectData: ProjectData): CapitalGainsResult | null => {
+  const settings = projectData.capitalGains || {};
+  const processedPayments = processPaymentsWithLoanTracking(paymentsData, getReturnAllocation(projectData.settings));
+
+  // Only the sale counts; prepayments and other returns are neither proceeds nor the date of transfer
+  const sales = getSaleProceeds(paymentsData, projectData.rentalIncome);
+  const saleProceeds = sales.reduce((sum, sale) => sum + sale.amount, 0);
+  if (sales.length === 0 || saleProceeds <= 0) return null;
+  const saleDate = new Date(Math.max(...sales.map(sale => sale.date.getTime())));
+
+  // Property costs up to the sale; interest and loan charges aren't part of the cost
+  const costs = processedPayments
+    .filter(p => p.type === 'payment' || p.type === 'drawdown')
+    .map(p => ({
+      date: getEntryDate(p),
+      // The part of a payment that repays the loan is financing, not property cost
+      amount: p.type === 'payment' ? Math.abs(p.amount) - p.calculatedLoanAdjustment : Math.abs(p.amount),
+      isImprovement: isInteriorsEntry(p)
+    }))
+    .filter(cost => cost.amount > 0 && !isNaN(cost.date.getTime()) && cost.date <= saleDate);
+  const acquisitionCost = costs.filter(cost => !cost.isImprovement).reduce((sum, cost) => sum + cost.amount, 0);
+  const improvementCost = costs.filter(cost => cost.isImprovement).reduce((sum, cost) => sum + cost.amount, 0);
+
+  const firstCostDate = costs.length > 0 ? new Date(Math.min(...costs.map(cost => cost.date.getTime()))) : saleDate;
+  const allotmentDate = settings.acquisitionDate ? new Date(settings.acquisitionDate) : null;
+  const acquisitionDate = allotmentDate && !isNaN(allotmentDate.getTime()) ? allotmentDate : firstCostDate;
+  const term: CapitalGainsTerm = addMonths(acquisitionDate, LONG_TERM_HOLDING_MONTHS) < saleDate ? 'long-term' : 'short-term';
+
+  const transferExpenses = settings.transferExpenses || 0;
+  const netProceeds = saleProceeds - transferExpenses;
+  const plainCost = acquisitionCost + improvementCost;
+  const option = (method: CapitalGainsMethod, rate: number, cost: number): CapitalGainsOption => {
+    const gain = netProceeds - cost;
+    return { method, rate, cost, gain, tax: Math.max(gain, 0) * rate / 100 };
+  };
+
+  const options: CapitalGainsOption[] = [];
+  if (term === 'short-term') {
+    options.push(option('slab', settings.slabRate ?? projectData.taxProfile?.slabRate ?? DEFAULT_SLAB_RATE, plainCost));
+  } else {
+    // Each instalment is indexed from the year it was paid
+    const saleIndex = getCostInflationIndex(getFinancialYear(saleDate));
+    const indexedCost = costs.reduce(
+      (sum, cost) => sum + cost.amount * saleIndex / getCostInflationIndex(getFinancialYear(cost.date)),
+      0
+    );
+    if (saleDate >= LTCG_REFORM_DATE) options.push(option('without-indexation', 12.5, plainCost));
+    if (saleDate < LTCG_REFORM_DATE || acquisitionDate < LTCG_REFORM_DATE) options.push(option('with-indexation', 20, indexedCost));
+  }
+  const chosen = options.reduce((best, candidate) => candidate.tax < best.tax ? candidate : best);
+
+  const surcharge = chosen.tax * (settings.surchargePercent || 0) / 100;
+  const cess = (chosen.tax + surcharge) * HEALTH_EDUCATION_CESS / 100;
+  const totalTax = chosen.tax + surcharge + cess;
+
+  const cashFlows = getInvestorCashFlows(paymentsData, projectData).filter(cf => !isNaN(cf.date.getTime()));
+  const postTaxFlows = [...cashFlows, { date: saleDate, amount: -(totalTax + transferExpenses) }];
+
+  return {
+    saleDate,
+    acquisitionDate,
+    holdingMonths: differenceInMonths(saleDate, acquisitionDate),
+    term,
+    saleProceeds,
+    transferExpenses,
+    acquisitionCost,
+    improvementCost,
+    options,
+    chosen,
+    surcharge,
+    cess,
+    totalTax,
+    preTax: calculateXIRR(cashFlows),
+    postTax: calculateXIRR(postTaxFlows),
+    postTaxProfit: postTaxFlows.reduce((sum, cf) => sum + cf.amount, 0)
+  };
+};
@@ -0,0 +1,187 @@
+import { ProjectData, Payment } from '@/types/project';
+import { monthToDate } from '@/utils/paymentEntries';
+import {
+  processPaymentsWithLoanTracking,
+  getIRRCashFlows,
+  getReturnAllocation,
+  getUnleveredCashFlows,
+  getDebtCashFlows
+} from '@/utils/loanTracker';
+import { calculateNPV, getDiscountRatePercent } from '@/utils/npv';
+import { calculateXIRR, XirrResult } from '@/utils/xirr';
+
+export interface CashFlowAnalysisResult {
+  totalInvestment: number;
+  totalReturns: number;
+  netProfit: number;
+  totalInterestPaid: number;
+  totalInterestCapitalised: number;
+  totalInterestSubvented: number; // Borne by the builder; not part of the investment
+  totalLoanCosts: number; // Processing fees, prepayment charges and penal interest
+  xirrValue: number | null; // As a percentage; null when there's no solution (see xirr.status)
+  xirr: XirrResult;
+  npv: number; // At the project discount rate
+  lastCalculated: Date | null;
+}
+
+export interface LeverageAnalysis {
+  levered: XirrResult; // Equity XIRR on the investor's own cash
+  unlevered: XirrResult; // Property XIRR as if bought without a loan
+  spread: number | null; // Levered minus unlevered, in percentage points; positive when the loan helped
+  costOfDebt: XirrResult; // Effective annual cost of the loans after fees and subvention
+}
+
+// Rental income is positive cash flow
+const getRentalCashFlows = (projectData: ProjectData): Array<{date: Date, amount: number}> =>
+  projectData.rentalIncome?.map(ri => ({
+    date: ri.date ? new Date(ri.date) : monthToDate(ri.month),
+    amount: ri.amount
+  })) || [];
+
+/**
+ * Cash flows to and from the investor's pocket: entries after loan tracking plus rental income
+ * @param paymentsData Entries including calculated interest
+ * @param projectDataInput Project with rental income and return allocation
+ */
+export const getInvestorCashFlows = (
+  paymentsData: Payment[],
+  projectDataInput: ProjectData
+): Array<{date: Date, amount: number}> => {
+  const processedPayments = processPaymentsWithLoanTracking(paymentsData, getReturnAllocation(projectDataInput.settings));
+  return [...getIRRCashFlows(processedPayments), ...getRentalCashFlows(projectDataInput)];
+};
+
+/**
+ * Compares the levered equity return with the unlevered property return to show how much the loan helped or hurt
+ * @param paymentsData Entries including calculated interest
+ * @param projectDataInput Project with rental income and return allocation
+ */
+export const calculateLeverageAnalysis = (paymentsData: Payment[], projectDataInput: ProjectData): LeverageAnalysis => {
+  const processedPayments = processPaymentsWithLoanTracking(paymentsData, getReturnAllocation(projectDataInput.settings));
+  const rentalCashFlows = getRentalCashFlows(projectDataInput);
+  const levered = calculateXIRR([...getIRRCashFlows(processedPayments), ...rentalCashFlows]);
+  const unlevered = calculateXIRR([...getUnleveredCashFlows(processedPayments), ...rentalCashFlows]);
+
+  return {
+    levered,
+    unlevered,
+    spread: levered.rate !== null && unlevered.rate !== null ? levered.rate - unlevered.rate : null,
+    costOfDebt: calculateXIRR(getDebtCashFlows(processedPayments))
+  };
+};
+
+/**
+ * Totals, XIRR and NPV of a project's entries without any logging, for callers that run it many times
+ * (scenarios, goal seek, Monte Carlo)
+ * @param paymentsData Entries including calculated interest
+ * @param projectDataInput Project with rental income, return allocation and discount rate
+ */
+export const computeCashFlowAnalysis = (paymentsData: Payment[], projectDataInput: ProjectData): CashFlowAnalysisResult => {
+  if (!projectDataInput) {
+    return {
+      totalInvestment: 0,
+      totalReturns: 0,
+      netProfit: 0,
+      totalInterestPaid: 0,
+      totalInterestCapitalised: 0,
+      totalInterestSubvented: 0,
+      totalLoanCosts: 0,
+      xirrValue: null,
+      xirr: calculateXIRR([]),
+      npv: 0,
+      lastCalculated: null
+    };
+  }
+
+  // Total payments (only actual investor money, excluding borrowed funds)
+  let totalPayments = 0;
+  paymentsData.forEach(p => {
+    if (p.type === 'payment') {  // Only count actual payments, not drawdowns (borrowed money)
+      totalPayments += Math.abs(p.amount);
+    } else if (p.type === 'repayment' && p.source === 'emi') {
+      // EMI principal is repaid from the investor's pocket
+      totalPayments += Math.abs(p.amount);
+    }
+  });
+
+  // Total interest paid in cash; capitalised interest is added to the loan and repaid from returns,
+  // subvented interest is paid by the builder
+  let totalInterestPaid = 0;
+  let totalInterestCapitalised = 0;
+  let totalInterestSubvented = 0;
+  paymentsData.forEach(p => {
+    if (p.type === 'interest') {
+      if (p.capitalised) {
+        totalInterestCapitalised += Math.abs(p.amount);
+      } else if (p.subvented) {
+        totalInterestSubvented += Math.abs(p.amount);
+      } else {
+        totalInterestPaid += Math.abs(p.amount); // Ensure positive for display
+      }
+    }
+  });
+
+  // Fees and charges are part of the cost of borrowing alongside interest
+  const totalLoanCosts = paymentsData
+    .filter(p => p.type === 'fee')
+    .reduce((sum, p) => sum + Math.abs(p.amount), 0);
+
+  // Total returns (only net returns, excluding loan repayments)
+  let totalReturns = 0;
+  const paymentsForReturns = processPaymentsWithLoanTracking(paymentsData, getReturnAllocation(projectDataInput.settings));
+  
+  // Add rental income
+  projectDataInput.rentalIncome?.forEach(ri => {
+    totalReturns += ri.amount;
+  });
+  
+  // Add net returns from processed payments (excluding loan repayment portions)
+  paymentsForReturns.forEach(p => {
+    if (p.type === 'return' || p.type === 'repayment') {
+      const netReturn = p.calculatedNetReturn || 0;
+      if (netReturn > 0) {
+        totalReturns += netReturn;
+      }
+    }
+  });
+
+  // Calculate total investment (only investor's cash from pocket: payments + interest paid + loan costs)
+  // Note: Excludes drawdowns as they are borrowed money, not investor money
+  const totalInvestment = Math.abs(totalPayments) + totalInterestPaid + totalLoanCosts;
+  
+  // Net profit calculation
+  const netProfit = totalReturns - totalInvestment;
+  
+  // Calculate XIRR using proper loan tracking and the project's return allocation
+  const allIRRCashFlows = getInvestorCashFlows(paymentsData, projectDataInput);
+  const xirr = calculateXIRR(allIRRCashFlows);
+  const npv = calculateNPV(allIRRCashFlows.filter(cf => !isNaN(cf.date.getTime())), getDiscountRatePercent(projectDataInput));
+
+  return { 
+    totalInvestment, 
+    totalReturns, 
+    netProfit, 
+    totalInterestPaid,
+    totalInterestCapitalised,
+    totalInterestSubvented,
+    totalLoanCosts,
+    xirrValue: xirr.rate,
+    xirr,
+    npv,
+    lastCalculated: new Date()
+  };
+};
+
+// Pure calculation function that doesn't modify interest data
+// Takes payments data as an argument to avoid side effects
+export const calculateAnalysis = (paymentsData: Payment[], projectDataInput: ProjectData): CashFlowAnalysisResult => {
+  console.log('Calculating financial metrics with existing data');
+  console.log('paymentsData length:', paymentsData?.length || 0);
+  console.log('paymentsData:', paymentsData);
+  console.log('projectDataInput:', projectDataInput);
+
+  const result = computeCashFlowAnalysis(paymentsData, projectDataInput);
+
+  console.log('Analysis results:', result);
+  return result;
+};
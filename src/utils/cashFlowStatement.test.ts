@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { buildCashFlowStatement, buildCashFlowTimeline } from './cashFlowStatement';
+import { getInvestorCashFlows } from './cashFlowAnalysis';
+import { exportCashFlowStatementToCsv } from './csvExport';
+import { Payment, ProjectData } from '@/types/project';
+
+describe('buildCashFlowStatement', () => {
+  const payments: Payment[] = [
+    { id: 'p1', amount: 20000, type: 'payment', date: new Date(2024, 0, 10), month: 0 },
+    { id: 'd1', amount: 80000, type: 'drawdown', date: new Date(2024, 0, 10), month: 0 },
+    { id: 'f1', amount: -800, type: 'fee', date: new Date(2024, 0, 10), month: 0, costKind: 'processing-fee' },
+    { id: 'i1', amount: 600, type: 'interest', date: new Date(2024, 0, 31), month: 0 },
+    { id: 'i2', amount: 600, type: 'interest', date: new Date(2024, 1, 29), month: 1, capitalised: true },
+    { id: 'r1', amount: 120000, type: 'return', date: new Date(2024, 3, 15), month: 3 }
+  ];
+  const projectData = {
+    projectName: 'Test',
+    annualInterestRate: 9,
+    purchasePrice: 0,
+    closingCosts: 0,
+    payments,
+    rentalIncome: [{ month: 1, amount: 5000, type: 'rental', date: new Date(2024, 1, 5) }]
+  } as ProjectData;
+
+  it('should produce one row per month with the loan balance at month end', () => {
+    const rows = buildCashFlowStatement(payments, projectData);
+
+    expect(rows.map(row => row.month)).toEqual([0, 1, 2, 3]);
+    expect(rows[0]).toMatchObject({ payments: -20000, interest: -1400, netCashFlow: -21400, outstandingBalance: 80000 });
+    // Capitalised interest adds to the balance instead of the cash flow
+    expect(rows[1]).toMatchObject({ rental: 5000, interest: 0, outstandingBalance: 80600 });
+    expect(rows[2]).toMatchObject({ netCashFlow: 0, cumulativeCashFlow: -16400, outstandingBalance: 80600 });
+    expect(rows[3]).toMatchObject({ sale: 39400, outstandingBalance: 0 });
+  });
+
+  it('should add up to the investor cash flows used for XIRR', () => {
+    const rows = buildCashFlowStatement(payments, projectData);
+    const investorTotal = getInvestorCashFlows(payments, projectData).reduce((sum, cf) => sum + cf.amount, 0);
+
+    expect(rows[rows.length - 1].cumulativeCashFlow).toBeCloseTo(investorTotal, 6);
+  });
+
+  it('should export a row per month', () => {
+    const csv = exportCashFlowStatementToCsv(buildCashFlowStatement(payments, projectData)).split('\n');
+
+    expect(csv).toHaveLength(5);
+    expect(csv[0]).toBe('Month,Payments,Interest & Charges,Rental,Sale,Net Cash Flow,Cumulative,Loan Balance');
+    expect(csv[1]).toBe('2024-01,-20000.00,-1400.00,0.00,0.00,-21400.00,-21400.00,80000.00');
+  });
+});
+
+describe('buildCashFlowTimeline', () => {
+  const payments: Payment[] = [
+    { id: 'p1', amount: 20000, type: 'payment', date: new Date(2024, 0, 10), month: 0, description: 'Booking' },
+    { id: 'd1', amount: 80000, type: 'drawdown', date: new Date(2024, 0, 10), month: 0 },
+    { id: 'i1', amount: 600, type: 'interest', date: new Date(2024, 1, 29), month: 1 },
+    { id: 'r1', amount: 100000, type: 'return', date: new Date(2024, 2, 15), month: 2 }
+  ];
+  const projectData = { projectName: 'Test', payments, rentalIncome: [] } as ProjectData;
+
+  it('should split each month into outflow, inflow and interest with the entries behind it', () => {
+    const timeline = buildCashFlowTimeline(payments, projectData);
+
+    expect(timeline.map(point => point.label)).toEqual(['Jan 24', 'Feb 24', 'Mar 24']);
+    expect(timeline[0].entries.map(entry => [entry.description, entry.column, entry.amount])).toEqual([
+      ['Booking', 'payments', -20000],
+      ['Loan drawdown', 'loan', 80000]
+    ]);
+    expect(timeline[1]).toMatchObject({ outflow: -600, inflow: 0, interestPaid: 600 });
+    expect(timeline[2]).toMatchObject({ inflow: 20000, outstandingBalance: 0 });
+  });
+});
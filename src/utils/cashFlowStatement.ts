@@ -0,0 +1,158 @@
+import { addMonths, differenceInCalendarMonths, endOfMonth, format, parseISO, startOfMonth } from 'date-fns';
+import { CashFlowRow, Payment, ProjectData } from '@/types/project';
+import { getEntryDate, monthToDate } from '@/utils/paymentEntries';
+import { getReturnAllocation, processPaymentsWithLoanTracking, ProcessedPayment } from '@/utils/loanTracker';
+
+type StatementColumn = 'payments' | 'interest' | 'rental' | 'sale';
+
+export interface StatementEntry {
+  date: Date;
+  column: StatementColumn | 'loan'; // 'loan' entries only move the loan balance (drawdowns, capitalised interest)
+  amount: number; // Signed cash effect; for 'loan' entries, the change in the balance
+  description: string;
+}
+
+const processStatementPayments = (paymentsData: Payment[], projectData: ProjectData) =>
+  processPaymentsWithLoanTracking(paymentsData, getReturnAllocation(projectData.settings))
+    .filter(p => !isNaN(getEntryDate(p).getTime()));
+
+const getStatementEntries = (processedPayments: ProcessedPayment[], projectData: ProjectData): StatementEntry[] => {
+  const entries: StatementEntry[] = [];
+  const add = (date: Date, column: StatementEntry['column'], amount: number, description: string) =>
+    entries.push({ date, column, amount, description });
+
+  processedPayments.forEach(payment => {
+    const date = getEntryDate(payment);
+    switch (payment.type) {
+      case 'payment':
+        add(date, 'payments', -Math.abs(payment.amount), payment.description || 'Payment');
+        break;
+      case 'drawdown':
+        add(date, 'loan', Math.abs(payment.amount), payment.description || 'Loan drawdown');
+        break;
+      case 'return':
+      case 'repayment':
+        // EMI principal is paid from pocket; other returns count once the loan has taken its share
+        if (payment.source === 'emi') {
+          add(date, 'payments', -Math.abs(payment.amount), payment.description || 'EMI principal');
+        } else if (payment.calculatedNetReturn > 0) {
+          add(date, 'sale', payment.calculatedNetReturn, payment.description || 'Return');
+        }
+        break;
+      case 'interest':
+        if (payment.capitalised) {
+          add(date, 'loan', Math.abs(payment.amount), payment.description || 'Capitalised interest');
+        } else if (!payment.subvented) {
+          add(
+            payment.deferredTo ? parseISO(payment.deferredTo) : date,
+            'interest',
+            -Math.abs(payment.amount),
+            payment.description || 'Interest'
+          );
+        }
+        break;
+      case 'fee':
+        add(date, 'interest', -Math.abs(payment.amount), payment.description || 'Loan cost');
+        break;
+    }
+  });
+  (projectData.rentalIncome || []).forEach(ri => {
+    const date = getEntryDate(ri);
+    if (isNaN(date.getTime())) return;
+    const isSale = ri.type === 'sale';
+    add(date, isSale ? 'sale' : 'rental', ri.amount, ri.description || (isSale ? 'Sale' : 'Rental income'));
+  });
+
+  return entries;
+};
+
+/**
+ * Entries behind the cash flow statement, each with its signed cash effect and the month it lands in
+ * @param paymentsData Entries including calculated interest
+ * @param projectData Project with rental income and return allocation
+ */
+export const getCashFlowStatementEntries = (paymentsData: Payment[], projectData: ProjectData): StatementEntry[] =>
+  getStatementEntries(processStatementPayments(paymentsData, projectData), projectData);
+
+/**
+ * Month-by-month cash flow statement of the investor's money with the loan balance alongside,
+ * laid out like a lender's cash flow sheet. Columns follow the XIRR cash flows, so the last
+ * cumulative figure is the net profit.
+ * @param paymentsData Entries including calculated interest
+ * @param projectData Project with rental income and return allocation
+ * @returns One row per calendar month from the first entry to the last, empty months included
+ */
+export const buildCashFlowStatement = (paymentsData: Payment[], projectData: ProjectData): CashFlowRow[] => {
+  const processedPayments = processStatementPayments(paymentsData, projectData);
+  const flows = getStatementEntries(processedPayments, projectData);
+
+  const dates = [...flows.map(flow => flow.date), ...processedPayments.map(getEntryDate)];
+  if (dates.length === 0) return [];
+  const firstMonth = startOfMonth(new Date(Math.min(...dates.map(date => date.getTime()))));
+  const lastMonth = startOfMonth(new Date(Math.max(...dates.map(date => date.getTime()))));
+  // Row months use the same numbering as Payment.month
+  const baseMonth = differenceInCalendarMonths(firstMonth, monthToDate(0));
+
+  const rows: CashFlowRow[] = [];
+  let cumulativeCashFlow = 0;
+  let outstandingBalance = 0;
+  let paymentIndex = 0;
+  for (let offset = 0; offset <= differenceInCalendarMonths(lastMonth, firstMonth); offset++) {
+    const monthStart = addMonths(firstMonth, offset);
+    const monthEnd = endOfMonth(monthStart);
+    const totals: Record<StatementColumn, number> = { payments: 0, interest: 0, rental: 0, sale: 0 };
+    flows
+      .filter(flow => flow.column !== 'loan' && flow.date >= monthStart && flow.date <= monthEnd)
+      .forEach(flow => { totals[flow.column as StatementColumn] += flow.amount; });
+
+    // Processed payments are in date order, so the balance after the month's last entry carries forward
+    while (paymentIndex < processedPayments.length && getEntryDate(processedPayments[paymentIndex]) <= monthEnd) {
+      outstandingBalance = processedPayments[paymentIndex].runningLoanBalance;
+      paymentIndex++;
+    }
+
+    const netCashFlow = totals.payments + totals.interest + totals.rental + totals.sale;
+    cumulativeCashFlow += netCashFlow;
+    rows.push({
+      month: baseMonth + offset,
+      ...totals,
+      netCashFlow,
+      cumulativeCashFlow,
+      outstandingBalance
+    });
+  }
+
+  return rows;
+};
+
+export interface TimelinePoint extends CashFlowRow {
+  label: string;
+  outflow: number; // Payments, interest and charges (negative)
+  inflow: number; // Rental and sale
+  interestPaid: number; // Interest and charges as a positive amount
+  entries: StatementEntry[]; // Everything dated in the month, loan-only entries included
+}
+
+/**
+ * Statement rows shaped for the timeline charts, each carrying the entries behind it
+ * @param paymentsData Entries including calculated interest
+ * @param projectData Project with rental income and return allocation
+ */
+export const buildCashFlowTimeline = (paymentsData: Payment[], projectData: ProjectData): TimelinePoint[] => {
+  const rows = buildCashFlowStatement(paymentsData, projectData);
+  const firstMonthDate = monthToDate(0);
+  const entriesByMonth = new Map<number, StatementEntry[]>();
+  getCashFlowStatementEntries(paymentsData, projectData).forEach(entry => {
+    const month = differenceInCalendarMonths(entry.date, firstMonthDate);
+    entriesByMonth.set(month, [...(entriesByMonth.get(month) || []), entry]);
+  });
+
+  return rows.map(row => ({
+    ...row,
+    label: format(addMonths(firstMonthDate, row.month), 'MMM yy'),
+    outflow: row.payments + row.interest,
+    inflow: row.rental + row.sale,
+    interestPaid: -row.interest,
+    entries: (entriesByMonth.get(row.month) || []).sort((a, b) => a.date.getTime() - b.date.getTime())
+  }));
+};
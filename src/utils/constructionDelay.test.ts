@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { applyConstructionDelay, simulateConstructionDelay } from './constructionDelay';
+import { Payment, ProjectData } from '@/types/project';
+
+describe('construction delay', () => {
+  const payments: Payment[] = [
+    { id: 'p1', amount: 50000, type: 'payment', date: new Date(2024, 0, 10), month: 0, description: 'On Booking' },
+    { id: 'd1', amount: 100000, type: 'drawdown', date: new Date(2024, 0, 10), month: 0 },
+    { id: 'p2', amount: 30000, type: 'payment', date: new Date(2024, 6, 10), month: 6, description: 'On Completion of Foundation' },
+    { id: 'd2', amount: 40000, type: 'drawdown', date: new Date(2024, 6, 10), month: 6 },
+    { id: 'p3', amount: 10000, type: 'payment', date: new Date(2025, 2, 10), month: 14, description: 'Registration' },
+    { id: 'r1', amount: 300000, type: 'return', date: new Date(2025, 5, 10), month: 17, description: 'Sale' },
+    { id: 'i1', amount: 900, type: 'interest', date: new Date(2024, 1, 1), month: 1 }
+  ];
+  const projectData = {
+    projectName: 'Test',
+    annualInterestRate: 9,
+    purchasePrice: 0,
+    closingCosts: 0,
+    payments,
+    rentalIncome: [{ month: 15, amount: 5000, type: 'rental', date: new Date(2025, 3, 5) }]
+  } as ProjectData;
+  const projectEndDate = new Date(2025, 5, 30);
+  const delay = { fromDate: new Date(2024, 5, 1), months: 6 };
+
+  it('should move only the entries from the delay date on', () => {
+    const delayed = applyConstructionDelay(projectData, payments, delay);
+
+    expect(delayed.payments.map(p => p.id)).toEqual(['p1', 'd1', 'p2', 'd2', 'p3', 'r1']);
+    expect(delayed.payments[0].date).toEqual(new Date(2024, 0, 10));
+    expect(delayed.payments[2].date).toEqual(new Date(2025, 0, 10));
+    expect(delayed.payments[2].month).toBe(12);
+    expect(delayed.payments[5].date).toEqual(new Date(2025, 11, 10));
+    expect(delayed.rentalIncome[0].date).toEqual(new Date(2025, 9, 5));
+    expect(delayed.shiftedCount).toBe(5);
+    expect(payments[2].date).toEqual(new Date(2024, 6, 10));
+  });
+
+  it('should move the loan and possession dates still to come', () => {
+    const delayed = applyConstructionDelay({
+      ...projectData,
+      emi: { enabled: true, principal: 140000, tenureMonths: 120, startDate: '2025-04-05' },
+      interestHolidays: [
+        { id: 'h1', type: 'subvention', fromDate: '2024-01-01', toDate: '2025-03-31' },
+        { id: 'h2', type: 'moratorium', fromDate: '2023-01-01', toDate: '2023-12-31' }
+      ],
+      interestMode: 'capitalised',
+      capitaliseUntil: '2025-03-31',
+      taxProfile: { enabled: true, regime: 'old', slabRate: 30, occupancy: 'self-occupied', possessionDate: '2025-03-15' }
+    }, payments, delay);
+
+    expect(delayed.projectUpdates.emi!.startDate).toBe('2025-10-05');
+    // The subvention runs until possession, so it is stretched; a past moratorium stays put
+    expect(delayed.projectUpdates.interestHolidays!.map(h => [h.fromDate, h.toDate])).toEqual([
+      ['2024-01-01', '2025-09-30'],
+      ['2023-01-01', '2023-12-31']
+    ]);
+    expect(delayed.projectUpdates.capitaliseUntil).toBe('2025-09-30');
+    expect(delayed.projectUpdates.taxProfile!.possessionDate).toBe('2025-09-15');
+    expect(applyConstructionDelay(projectData, payments, delay).projectUpdates).toEqual({});
+  });
+
+    it('should compare returns, interest and end date before and after the delay', () => {
+    const result = simulateConstructionDelay(projectData, payments, projectEndDate, delay);
+
+    expect(result.after.lastEntryDate).toEqual(new Date(2025, 11, 31, 23, 59, 59, 999));
+    expect(result.before.lastEntryDate).toEqual(new Date(2025, 5, 30, 23, 59, 59, 999));
+    expect(result.projectEndDate).toEqual(new Date(2025, 11, 31, 23, 59, 59, 999));
+    // Holding the loan six months longer costs interest and return
+    expect(result.extraInterest).toBeGreaterThan(0);
+    expect(result.after.xirrValue!).toBeLessThan(result.before.xirrValue!);
+    expect(result.after.netProfit).toBeLessThan(result.before.netProfit);
+    expect(result.payments.some(p => p.type === 'interest')).toBe(true);
+  });
+});
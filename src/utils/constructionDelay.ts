@@ -0,0 +1,143 @@
+import { addMonths, format, max, parseISO } from 'date-fns';
+import { IncomeItem, Payment, ProjectData } from '@/types/project';
+import { getEntryDate } from '@/utils/paymentEntries';
+import { calculateProjectInterest } from '@/utils/projectInterest';
+import { computeCashFlowAnalysis } from '@/utils/cashFlowAnalysis';
+import { calculateDerivedProjectEndDate } from '@/utils/projectDateUtils';
+import { shiftIncome, shiftPayment } from '@/utils/scenarioAnalysis';
+import { XirrResult } from '@/utils/xirr';
+
+export interface ConstructionDelay {
+  fromDate: Date; // Entries dated on or after this move
+  months: number;
+}
+
+export interface DelayOutcome {
+  xirr: XirrResult;
+  xirrValue: number | null; // As a percentage; null when XIRR has no solution
+  netProfit: number;
+  totalInterest: number; // Including capitalised interest
+  lastEntryDate: Date | null; // Month end of the last entry
+}
+
+export interface ConstructionDelayResult {
+  delay: ConstructionDelay;
+  shiftedCount: number; // Entries and income items that moved
+  payments: Payment[]; // Delayed entries with interest, EMIs and loan costs recalculated
+  rentalIncome: IncomeItem[];
+  projectUpdates: Partial<ProjectData>; // Loan and tax dates of the delayed plan
+  projectEndDate: Date; // Interest end date of the delayed plan
+  before: DelayOutcome;
+  after: DelayOutcome;
+  extraInterest: number;
+}
+
+const getOutcome = (payments: Payment[], projectData: ProjectData): DelayOutcome => {
+  const analysis = computeCashFlowAnalysis(payments, projectData);
+  return {
+    xirr: analysis.xirr,
+    xirrValue: analysis.xirrValue,
+    netProfit: analysis.netProfit,
+    totalInterest: analysis.totalInterestPaid + analysis.totalInterestCapitalised,
+    lastEntryDate: calculateDerivedProjectEndDate(payments)
+  };
+};
+
+/**
+ * Moves every entry still to come (milestones, drawdowns, possession and registration, the sale and rental income)
+ * by the same number of months. Calculated interest, EMI and loan cost rows are left out; they are regenerated.
+ * The project's own dates still to come move with them: the EMI start and late EMIs, subvention and moratorium
+ * windows, the capitalisation end and the possession date.
+ * @param basePayments Entries of the current plan
+ * @returns Delayed copies of the entries and income, how many moved, and the delayed project dates
+ */
+export const applyConstructionDelay = (
+  projectData: ProjectData,
+  basePayments: Payment[],
+  delay: ConstructionDelay
+): { payments: Payment[]; rentalIncome: IncomeItem[]; projectUpdates: Partial<ProjectData>; shiftedCount: number } => {
+  let shiftedCount = 0;
+  const isDue = (date: Date) => !isNaN(date.getTime()) && date >= delay.fromDate;
+  const shiftIsoDate = (isoDate: string): string => {
+    const date = parseISO(isoDate);
+    return delay.months && isDue(date) ? format(addMonths(date, delay.months), 'yyyy-MM-dd') : isoDate;
+  };
+
+  const payments = basePayments
+    .filter(p => p.type !== 'interest' && !p.source)
+    .map(payment => {
+      if (!delay.months || !isDue(getEntryDate(payment))) return payment;
+      shiftedCount++;
+      return shiftPayment(payment, delay.months);
+    });
+  const rentalIncome = (projectData.rentalIncome || []).map(income => {
+    if (!delay.months || !isDue(getEntryDate(income))) return income;
+    shiftedCount++;
+    return shiftIncome(income, delay.months);
+  });
+
+  const { emi, interestHolidays, capitaliseUntil, taxProfile } = projectData;
+  const projectUpdates: Partial<ProjectData> = {
+    ...(emi ? {
+      emi: {
+        ...emi,
+        startDate: emi.startDate && shiftIsoDate(emi.startDate),
+        latePayments: emi.latePayments?.map(late => ({
+          ...late,
+          emiDate: shiftIsoDate(late.emiDate),
+          paidDate: shiftIsoDate(late.paidDate)
+        }))
+      }
+    } : {}),
+    // A window running across the delay date is stretched: only its end moves
+    ...(interestHolidays ? {
+      interestHolidays: interestHolidays.map(holiday => ({
+        ...holiday,
+        fromDate: shiftIsoDate(holiday.fromDate),
+        toDate: shiftIsoDate(holiday.toDate)
+      }))
+    } : {}),
+    ...(capitaliseUntil ? { capitaliseUntil: shiftIsoDate(capitaliseUntil) } : {}),
+    ...(taxProfile?.possessionDate ? { taxProfile: { ...taxProfile, possessionDate: shiftIsoDate(taxProfile.possessionDate) } } : {})
+  };
+
+  return { payments, rentalIncome, projectUpdates, shiftedCount };
+};
+
+/**
+ * Delays the rest of the plan and compares it with the current one; nothing is saved
+ * @param projectData Project with loan settings and rental income
+ * @param payments Current entries (calculated interest is regenerated)
+ * @param projectEndDate Interest end date of the current plan; moves with the delay when it falls after the delay date
+ */
+export const simulateConstructionDelay = (
+  projectData: ProjectData,
+  payments: Payment[],
+  projectEndDate: Date,
+  delay: ConstructionDelay
+): ConstructionDelayResult => {
+  const basePayments = payments.filter(p => p.type !== 'interest' && !p.source);
+  const { allPaymentsWithInterest: beforePayments } = calculateProjectInterest(projectData, basePayments, projectEndDate);
+
+  const delayed = applyConstructionDelay(projectData, basePayments, delay);
+  const delayedProject = { ...projectData, ...delayed.projectUpdates, payments: delayed.payments, rentalIncome: delayed.rentalIncome };
+  const lastDelayedEntry = calculateDerivedProjectEndDate(delayed.payments);
+  const shiftedEndDate = projectEndDate >= delay.fromDate ? addMonths(projectEndDate, delay.months) : projectEndDate;
+  const delayedEndDate = lastDelayedEntry ? max([shiftedEndDate, lastDelayedEntry]) : shiftedEndDate;
+  const { allPaymentsWithInterest: afterPayments } = calculateProjectInterest(delayedProject, delayed.payments, delayedEndDate);
+
+  const before = getOutcome(beforePayments, projectData);
+  const after = getOutcome(afterPayments, delayedProject);
+
+  return {
+    delay,
+    shiftedCount: delayed.shiftedCount,
+    payments: afterPayments,
+    rentalIncome: delayed.rentalIncome,
+    projectUpdates: delayed.projectUpdates,
+    projectEndDate: delayedEndDate,
+    before,
+    after,
+    extraInterest: after.totalInterest - before.totalInterest
+  };
+};
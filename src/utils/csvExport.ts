@@ -1,4 +1,6 @@
 import { format } from 'date-fns';
+import { CashFlowRow } from '@/types/project';
+import { monthToDate as monthNumberToDate } from '@/utils/paymentEntries';
 
 export interface CashFlowEntry {
   id: string;
@@ -71,6 +73,28 @@ export const exportToCsv = (entries: CashFlowEntry[]): string => {
   return rows.join('\n');
 };
 
+export const exportCashFlowStatementToCsv = (rows: CashFlowRow[]): string => {
+  const headers = ['Month', 'Payments', 'Interest & Charges', 'Rental', 'Sale', 'Net Cash Flow', 'Cumulative', 'Loan Balance'];
+  const lines = [headers.join(',')];
+
+  rows.forEach(row => {
+    lines.push([
+      escapeCsvField(format(monthNumberToDate(row.month), 'yyyy-MM')),
+      ...[
+        row.payments,
+        row.interest,
+        row.rental,
+        row.sale,
+        row.netCashFlow,
+        row.cumulativeCashFlow,
+        row.outstandingBalance
+      ].map(value => escapeCsvField(value.toFixed(2)))
+    ].join(','));
+  });
+
+  return lines.join('\n');
+};
+
 // Helper function to convert month number to Date
 function monthToDate(month: number): Date {
   const date = new Date();
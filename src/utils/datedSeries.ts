@@ -0,0 +1,96 @@
+import { format, isValid, parse, parseISO } from 'date-fns';
+
+export interface DatedValue {
+  date: string; // ISO date (yyyy-MM-dd)
+  value: number;
+  label?: string; // Optional series label (e.g. benchmark name) from a middle column
+}
+
+export interface DatedValuesParseResult {
+  values: DatedValue[];
+  errors: string[];
+}
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'dd-MM-yyyy', 'dd/MM/yyyy', 'MMM-yyyy', 'MMM yyyy', 'yyyy-MM'];
+
+/**
+ * Parses a date string in any of the formats commonly found in lender / RBI downloads
+ * @param dateStr Date string (e.g. 2025-04-01, 01/04/2025, Apr-2025)
+ * @returns ISO date string (yyyy-MM-dd) or null if the value is not a date
+ */
+export const parseFlexibleDate = (dateStr: string): string | null => {
+  const trimmed = dateStr.trim();
+  if (!trimmed) return null;
+
+  for (const dateFormat of DATE_FORMATS) {
+    const parsed = dateFormat === 'yyyy-MM-dd' ? parseISO(trimmed) : parse(trimmed, dateFormat, new Date());
+    if (isValid(parsed) && parsed.getFullYear() > 1900) {
+      return format(parsed, 'yyyy-MM-dd');
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Parses CSV text of dated values.
+ * Accepts "Date,Value" or "Date,Label,Value" rows; a header row is skipped automatically.
+ * @param csvText Raw CSV text
+ * @returns Parsed values sorted by date, plus per-line errors
+ */
+export const parseDatedValuesCsv = (csvText: string): DatedValuesParseResult => {
+  const values: DatedValue[] = [];
+  const errors: string[] = [];
+  const lines = csvText.trim().split(/\r?\n/);
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const columns = line.split(',').map(column => column.trim().replace(/^"|"$/g, ''));
+    const date = parseFlexibleDate(columns[0]);
+
+    if (!date) {
+      // Header rows are expected; anything else is reported
+      if (index > 0) {
+        errors.push(`Line ${index + 1}: Could not parse date '${columns[0]}'`);
+      }
+      return;
+    }
+
+    const valueStr = columns[columns.length - 1].replace('%', '');
+    const value = parseFloat(valueStr);
+    if (columns.length < 2 || isNaN(value)) {
+      errors.push(`Line ${index + 1}: Invalid value '${columns[columns.length - 1]}'`);
+      return;
+    }
+
+    values.push({
+      date,
+      value,
+      ...(columns.length > 2 && columns[1] ? { label: columns[1] } : {})
+    });
+  });
+
+  values.sort((a, b) => a.date.localeCompare(b.date));
+  return { values, errors };
+};
+
+/**
+ * Returns the latest value in force on a date (step function)
+ * @param series Dated values sorted by date
+ * @param date Date to look up
+ * @returns Value in force on the date, or null if the series starts later
+ */
+export const getValueOn = (series: DatedValue[], date: Date): number | null => {
+  const isoDate = format(date, 'yyyy-MM-dd');
+  let value: number | null = null;
+  for (const point of series) {
+    if (point.date <= isoDate) {
+      value = point.value;
+    } else {
+      break;
+    }
+  }
+  return value;
+};
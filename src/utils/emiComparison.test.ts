@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { compareEmiOptions } from './emiComparison';
+import { Payment, ProjectData } from '@/types/project';
+
+describe('compareEmiOptions', () => {
+  const payments: Payment[] = [
+    { id: 'p1', amount: 50000, type: 'payment', date: new Date(2025, 0, 10), month: 2025 * 12 },
+    { id: 'd1', amount: 100000, type: 'drawdown', date: new Date(2025, 0, 10), month: 2025 * 12 },
+    { id: 'd2', amount: 100000, type: 'drawdown', date: new Date(2026, 0, 10), month: 2026 * 12 },
+    { id: 'r1', amount: 400000, type: 'return', date: new Date(2027, 0, 10), month: 2027 * 12 }
+  ];
+  const projectData = {
+    projectName: 'Test',
+    annualInterestRate: 9,
+    purchasePrice: 0,
+    closingCosts: 0,
+    payments,
+    rentalIncome: [],
+    emi: { enabled: true, mode: 'pre-emi', principal: 200000, tenureMonths: 240, startDate: '2026-02-10' }
+  } as ProjectData;
+
+  it('should recalculate the project under both options', () => {
+    const [preEmi, fullEmi] = compareEmiOptions(projectData, payments, new Date(2027, 0, 31));
+
+    expect(preEmi.mode).toBe('pre-emi');
+    expect(fullEmi.mode).toBe('full-emi');
+    // Full EMI repays principal from the first disbursal, so less interest accrues
+    expect(fullEmi.totalInterest).toBeLessThan(preEmi.totalInterest);
+    expect(Number.isFinite(preEmi.xirrValue)).toBe(true);
+    expect(Number.isFinite(fullEmi.xirrValue)).toBe(true);
+  });
+
+  it('should leave the project data untouched', () => {
+    compareEmiOptions(projectData, payments, new Date(2027, 0, 31));
+    expect(projectData.emi?.mode).toBe('pre-emi');
+    expect(projectData.payments).toHaveLength(4);
+  });
+});
@@ -0,0 +1,45 @@
+import { EmiMode, Payment, ProjectData } from '@/types/project';
+import { calculateProjectInterest } from '@/utils/projectInterest';
+import { computeCashFlowAnalysis } from '@/utils/cashFlowAnalysis';
+
+export interface EmiOptionResult {
+  mode: EmiMode;
+  xirrValue: number | null; // As a percentage; null when XIRR has no solution
+  totalInterest: number; // Pre-EMI + EMI interest, including any capitalised interest
+  totalInvestment: number;
+  netProfit: number;
+}
+
+export const EMI_MODE_LABELS: Record<EmiMode, string> = {
+  'pre-emi': 'Pre-EMI',
+  'full-emi': 'Full EMI',
+};
+
+/**
+ * Recalculates the project under each EMI option without touching saved data
+ * @param projectData Project with an EMI configuration
+ * @param payments Current entries (calculated interest and EMI rows are regenerated)
+ * @param projectEndDate Last date of interest calculation
+ * @returns One result per option, pre-EMI first
+ */
+export const compareEmiOptions = (
+  projectData: ProjectData,
+  payments: Payment[],
+  projectEndDate: Date
+): EmiOptionResult[] => {
+  if (!projectData.emi) return [];
+  const basePayments = payments.filter(p => p.type !== 'interest');
+
+  return (['pre-emi', 'full-emi'] as EmiMode[]).map(mode => {
+    const scenario: ProjectData = { ...projectData, emi: { ...projectData.emi, enabled: true, mode } };
+    const { allPaymentsWithInterest } = calculateProjectInterest(scenario, basePayments, projectEndDate);
+    const analysis = computeCashFlowAnalysis(allPaymentsWithInterest, scenario);
+    return {
+      mode,
+      xirrValue: analysis.xirrValue,
+      totalInterest: analysis.totalInterestPaid + analysis.totalInterestCapitalised,
+      totalInvestment: analysis.totalInvestment,
+      netProfit: analysis.netProfit
+    };
+  });
+};
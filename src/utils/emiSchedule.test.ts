@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { applyEmiSchedule, calculateEmi, generateAmortisationSchedule, getEmiStartDate } from './emiSchedule';
+import { calculateMonthlyInterestLogic } from './interestCalculator';
+import { getIRRCashFlows, processPaymentsWithLoanTracking } from './loanTracker';
+import { Payment, ProjectData } from '@/types/project';
+
+describe('calculateEmi', () => {
+  it('should match the standard EMI formula', () => {
+    // ₹10 lakh at 8.5% for 20 years
+    expect(calculateEmi(1000000, 8.5, 240)).toBeCloseTo(8678.23, 2);
+  });
+
+  it('should split the principal evenly at a zero rate', () => {
+    expect(calculateEmi(120000, 0, 12)).toBe(10000);
+    expect(calculateEmi(0, 8.5, 12)).toBe(0);
+  });
+});
+
+describe('generateAmortisationSchedule', () => {
+  const params = { principal: 1000000, annualRate: 8.5, tenureMonths: 240, startDate: '2025-05-05' };
+
+  it('should repay the principal over the tenure', () => {
+    const schedule = generateAmortisationSchedule(params);
+    expect(schedule).toHaveLength(240);
+    expect(schedule[0].interest).toBeCloseTo(1000000 * 0.085 / 12, 2);
+    expect(schedule[239].closingBalance).toBeCloseTo(0, 2);
+    expect(schedule.reduce((sum, row) => sum + row.principal, 0)).toBeCloseTo(1000000, 2);
+  });
+
+  it('should re-compute the EMI over the remaining tenure after a rate change', () => {
+    const schedule = generateAmortisationSchedule({
+      ...params,
+      rateSchedule: [{ id: 'r1', effectiveFrom: '2026-05-01', annualRate: 8 }]
+    });
+    expect(schedule).toHaveLength(240);
+    expect(schedule[12].rate).toBe(8);
+    expect(schedule[12].emi).toBeCloseTo(calculateEmi(schedule[11].closingBalance, 8, 228), 2);
+    expect(schedule[239].closingBalance).toBeCloseTo(0, 2);
+  });
+
+  it('should keep the EMI and shorten the tenure after a prepayment', () => {
+    const schedule = generateAmortisationSchedule({
+      ...params,
+      prepayments: [{ date: new Date(2026, 0, 20), amount: 200000 }]
+    });
+    expect(schedule.length).toBeLessThan(240);
+    expect(schedule[9].prepayment).toBe(200000);
+    expect(schedule[9].emi).toBeCloseTo(schedule[0].emi, 2);
+    expect(schedule[schedule.length - 1].closingBalance).toBeCloseTo(0, 2);
+  });
+
+  it('should split interest with the day-count convention and rests of the loan', () => {
+    const actual = generateAmortisationSchedule({ ...params, dayCountConvention: 'actual/365' });
+    // 5 May to 5 June is 31 days
+    expect(actual[1].interest).toBeCloseTo(actual[1].openingBalance * 0.085 * 31 / 365, 6);
+
+    // Annual rests charge every EMI of the financial year on its opening balance
+    const annual = generateAmortisationSchedule({ ...params, restPeriod: 'annual' });
+    expect(annual[10].interest).toBeCloseTo(1000000 * 0.085 / 12, 6);
+    expect(annual[11].interest).toBeCloseTo(annual[10].closingBalance * 0.085 / 12, 6);
+    expect(annual[annual.length - 1].closingBalance).toBeCloseTo(0, 2);
+  });
+});
+
+describe('applyEmiSchedule', () => {
+  const drawdown: Payment = {
+    id: 'd1',
+    amount: 120000,
+    type: 'drawdown',
+    date: new Date(2025, 3, 1),
+    month: 2025 * 12 + 3,
+    description: 'Final disbursement'
+  };
+  const projectData = {
+    annualInterestRate: 12,
+    payments: [],
+    rentalIncome: [],
+    emi: { enabled: true, principal: 120000, tenureMonths: 12, startDate: '2025-05-01' }
+  } as unknown as ProjectData;
+
+  it('should add interest and repayment entries and replace stale ones', () => {
+    const stale: Payment = { id: 'old', amount: 1, type: 'repayment', month: 0, source: 'emi' };
+    const payments = applyEmiSchedule([drawdown, stale], projectData, new Date(2026, 3, 1));
+    expect(payments.find(p => p.id === 'old')).toBeUndefined();
+    expect(payments.filter(p => p.source === 'emi' && p.type === 'interest')).toHaveLength(12);
+    expect(payments.filter(p => p.source === 'emi' && p.type === 'repayment')).toHaveLength(12);
+  });
+
+  it('should remove EMI entries when the schedule is turned off', () => {
+    const payments = applyEmiSchedule([drawdown], projectData, new Date(2026, 3, 1));
+    const disabled = { ...projectData, emi: { ...projectData.emi, enabled: false } };
+    expect(applyEmiSchedule(payments, disabled, new Date(2026, 3, 1))).toEqual([drawdown]);
+  });
+
+  it('should stop the engine charging interest for EMI months', () => {
+    const payments = applyEmiSchedule([drawdown], projectData, new Date(2026, 3, 1));
+    const result = calculateMonthlyInterestLogic({ payments, interestRate: 12, projectEndDate: new Date(2026, 6, 1) });
+    // Only April (before the first EMI) is charged by the engine; the loan is repaid by April 2026
+    expect(result.newInterestPayments).toHaveLength(1);
+    expect(result.newInterestPayments[0].date).toEqual(new Date(2025, 3, 30));
+  });
+
+  it('should count EMI principal as an investor outflow', () => {
+    const payments = applyEmiSchedule([drawdown], projectData, new Date(2026, 3, 1));
+    const cashFlows = getIRRCashFlows(processPaymentsWithLoanTracking(payments));
+    const emiOutflow = cashFlows.reduce((sum, cf) => sum + cf.amount, 0);
+    const emiInterest = payments.filter(p => p.source === 'emi' && p.type === 'interest').reduce((sum, p) => sum + p.amount, 0);
+    expect(emiOutflow).toBeCloseTo(-(120000 + emiInterest), 2);
+  });
+
+  it('should start the first EMI\'s interest where the engine stops', () => {
+    const emi = { ...projectData.emi!, startDate: '2025-05-05' };
+    const payments = applyEmiSchedule([drawdown], { ...projectData, emi }, new Date(2026, 6, 1));
+    const result = calculateMonthlyInterestLogic({ payments, interestRate: 12, projectEndDate: new Date(2026, 6, 1) });
+    const emiInterest = payments.filter(p => p.source === 'emi' && p.type === 'interest');
+
+    // The engine charges April; the first EMI only 1 to 5 May, the second 5 May to 5 June
+    expect(result.newInterestPayments.map(p => p.date)).toEqual([new Date(2025, 3, 30)]);
+    expect(emiInterest[0].amount).toBeCloseTo(1200 * 4 / 31, 6);
+    expect(emiInterest[1].amount).toBeCloseTo((120000 - (calculateEmi(120000, 12, 12) - 1200 * 4 / 31)) * 0.01, 6);
+  });
+
+  it('should close the loan when a sale return repays it', () => {
+    const sale: Payment = { id: 'r1', amount: 200000, type: 'return', date: new Date(2025, 8, 15), month: 2025 * 12 + 8 };
+    const payments = applyEmiSchedule([drawdown, sale], projectData, new Date(2026, 3, 1));
+    const emiEntries = payments.filter(p => p.source === 'emi');
+    // May to September EMIs; the sale repays the rest before the October EMI
+    expect(emiEntries.filter(p => p.type === 'repayment')).toHaveLength(5);
+    expect(emiEntries.every(p => new Date(p.date as Date) < (sale.date as Date))).toBe(true);
+  });
+
+  it('should leave out EMIs after the end date', () => {
+    const payments = applyEmiSchedule([drawdown], projectData, new Date(2025, 9, 15));
+    expect(payments.filter(p => p.source === 'emi' && p.type === 'repayment')).toHaveLength(6);
+  });
+});
+
+describe('full EMI', () => {
+  const disbursements: Payment[] = [
+    { id: 'd1', amount: 100000, type: 'drawdown', date: new Date(2025, 0, 10), month: 2025 * 12 },
+    { id: 'd2', amount: 100000, type: 'drawdown', date: new Date(2025, 6, 10), month: 2025 * 12 + 6 }
+  ];
+  const config = { enabled: true, mode: 'full-emi' as const, principal: 200000, tenureMonths: 240, startDate: '2030-01-01' };
+
+  it('should start a month after the first disbursal', () => {
+    expect(getEmiStartDate(disbursements, config)).toBe('2025-02-10');
+    expect(getEmiStartDate([], config)).toBeNull();
+    expect(getEmiStartDate(disbursements, { ...config, mode: 'pre-emi' })).toBe('2030-01-01');
+  });
+
+  it('should charge the EMI on the sanctioned amount while interest follows disbursals', () => {
+    const schedule = generateAmortisationSchedule({
+      principal: 200000,
+      annualRate: 12,
+      tenureMonths: 240,
+      startDate: '2025-02-10',
+      disbursements: disbursements.map(d => ({ date: d.date as Date, amount: d.amount }))
+    });
+    const emi = calculateEmi(200000, 12, 240);
+
+    expect(schedule[0].openingBalance).toBe(100000);
+    expect(schedule[0].interest).toBeCloseTo(1000, 2);
+    expect(schedule[0].emi).toBeCloseTo(emi, 2);
+    expect(schedule[5].disbursement).toBe(100000);
+    expect(schedule[5].emi).toBeCloseTo(emi, 2);
+    expect(schedule[schedule.length - 1].closingBalance).toBeCloseTo(0, 2);
+    expect(schedule.reduce((sum, row) => sum + row.principal, 0)).toBeCloseTo(200000, 2);
+  });
+});
@@ -0,0 +1,282 @@
+import { addMonths, format, parseISO, startOfMonth } from 'date-fns';
+import { DayCountConvention, EmiConfig, Payment, ProjectData, RateChange, RestPeriod } from '@/types/project';
+import { FINANCIAL_YEAR_START_MONTH, getAnnualRateOn, getRateFraction, sortRateSchedule } from '@/utils/interestCalculator';
+import { deriveFloatingRateSchedule } from '@/utils/floatingRate';
+import { getReturnAllocation, PRIMARY_FACILITY_ID, processPaymentsWithLoanTracking } from '@/utils/loanTracker';
+import { getFirstDrawdownDate } from '@/utils/paymentEntries';
+
+export interface AmortisationRow {
+  period: number;
+  date: string; // ISO date of the EMI
+  openingBalance: number; // After any disbursement or prepayment since the previous EMI
+  disbursement: number;
+  prepayment: number;
+  rate: number;
+  emi: number;
+  interest: number;
+  principal: number;
+  closingBalance: number;
+}
+
+interface AmortisationParams {
+  principal: number;
+  annualRate: number;
+  tenureMonths: number;
+  startDate: string;
+  rateSchedule?: RateChange[];
+  prepayments?: Array<{ date: Date; amount: number }>;
+  disbursements?: Array<{ date: Date; amount: number }>; // Full EMI: the loan is drawn while EMIs run
+  dayCountConvention?: DayCountConvention; // Defaults to 'monthly'
+  restPeriod?: RestPeriod; // Defaults to 'daily'
+  interestFrom?: Date; // Start of the first EMI's interest period; defaults to a month before it
+}
+
+const getFinancialYearStart = (date: Date): number =>
+  date.getMonth() >= FINANCIAL_YEAR_START_MONTH ? date.getFullYear() : date.getFullYear() - 1;
+
+/**
+ * Equated monthly instalment for a loan
+ * @param principal Loan amount
+ * @param annualRate Annual interest rate as a percentage
+ * @param tenureMonths Number of monthly instalments
+ */
+export const calculateEmi = (principal: number, annualRate: number, tenureMonths: number): number => {
+  if (principal <= 0 || tenureMonths <= 0) return 0;
+  const monthlyRate = annualRate / 100 / 12;
+  if (monthlyRate === 0) return principal / tenureMonths;
+  const factor = Math.pow(1 + monthlyRate, tenureMonths);
+  return principal * monthlyRate * factor / (factor - 1);
+};
+
+/**
+ * Builds the amortisation schedule of an EMI loan.
+ * A rate change re-computes the EMI over the remaining tenure; a prepayment keeps the EMI and shortens the tenure.
+ * With disbursements (full EMI) the balance grows as the loan is disbursed while the EMI stays on the sanctioned amount.
+ * Each EMI's interest runs from the previous EMI under the loan's day-count convention; annual rests charge it on the
+ * balance at the start of the financial year, as the interest engine does.
+ * @returns One row per EMI until the loan is repaid
+ */
+export const generateAmortisationSchedule = ({
+  principal,
+  annualRate,
+  tenureMonths,
+  startDate,
+  rateSchedule = [],
+  prepayments = [],
+  disbursements,
+  dayCountConvention = 'monthly',
+  restPeriod = 'daily',
+  interestFrom
+}: AmortisationParams): AmortisationRow[] => {
+  const firstEmiDate = parseISO(startDate);
+  if (isNaN(firstEmiDate.getTime()) || principal <= 0 || tenureMonths <= 0) return [];
+
+  const rows: AmortisationRow[] = [];
+  let balance = disbursements ? 0 : principal;
+  let undisbursed = disbursements ? principal : 0;
+  let emi = 0;
+  let currentRate: number | null = null;
+  let previousDate: Date | null = null;
+  let restBalance = balance; // Balance interest is charged on
+  const sumSince = (entries: Array<{ date: Date; amount: number }>, from: Date | null, to: Date) => entries
+    .filter(p => p.date <= to && (from === null || p.date > from))
+    .reduce((sum, p) => sum + p.amount, 0);
+  const hasLaterDisbursement = (date: Date) => !!disbursements?.some(d => d.date > date) && undisbursed > 0.005;
+
+  for (let period = 1; period <= tenureMonths; period++) {
+    const emiDate = addMonths(firstEmiDate, period - 1);
+
+    // Disbursements (up to the sanctioned amount) and prepayments since the previous EMI
+    const disbursement = Math.min(undisbursed, sumSince(disbursements || [], previousDate, emiDate));
+    balance += disbursement;
+    undisbursed -= disbursement;
+    const prepayment = Math.min(balance, sumSince(prepayments, previousDate, emiDate));
+    balance -= prepayment;
+    const periodStart = previousDate ?? interestFrom ?? addMonths(firstEmiDate, -1);
+    previousDate = emiDate;
+
+    // Annual rests credit repayments at the start of the next financial year; disbursals count at once
+    const isNewRest = restPeriod !== 'annual' || getFinancialYearStart(emiDate) !== getFinancialYearStart(periodStart);
+    restBalance = isNewRest ? balance : restBalance + disbursement;
+
+    if (balance <= 0.005) {
+      if (hasLaterDisbursement(emiDate)) continue;
+      if (prepayment > 0) {
+        rows.push({
+          period,
+          date: format(emiDate, 'yyyy-MM-dd'),
+          openingBalance: 0,
+          disbursement,
+          prepayment,
+          rate: currentRate ?? annualRate,
+          emi: 0,
+          interest: 0,
+          principal: 0,
+          closingBalance: 0
+        });
+      }
+      break;
+    }
+
+    const rate = getAnnualRateOn(emiDate, annualRate, rateSchedule);
+    if (rate !== currentRate) {
+      emi = calculateEmi(balance + undisbursed, rate, tenureMonths - period + 1);
+      currentRate = rate;
+    }
+
+    const interest = restBalance * rate / 100 * getRateFraction(periodStart, emiDate, dayCountConvention);
+    // The last EMI clears whatever annual rests left of the balance
+    const principalPart = period === tenureMonths ? balance : Math.min(balance, Math.max(0, emi - interest));
+    const openingBalance = balance;
+    balance -= principalPart;
+
+    rows.push({
+      period,
+      date: format(emiDate, 'yyyy-MM-dd'),
+      openingBalance,
+      disbursement,
+      prepayment,
+      rate,
+      emi: interest + principalPart,
+      interest,
+      principal: principalPart,
+      closingBalance: balance
+    });
+
+    if (balance <= 0.005 && !hasLaterDisbursement(emiDate)) break;
+  }
+
+  return rows;
+};
+
+/**
+ * Rate terms of the loan an EMI repays: a facility's fixed rate, or the primary loan's APR and rate changes
+ * @param payments Project entries; a floating primary loan is priced from its first drawdown
+ */
+export const getEmiRateTerms = (
+  projectData: ProjectData,
+  endDate: Date,
+  payments: Payment[] = projectData.payments || []
+): { annualRate: number; rateSchedule: RateChange[] } => {
+  const facility = projectData.emi?.facilityId
+    ? projectData.loanFacilities?.find(f => f.id === projectData.emi?.facilityId)
+    : undefined;
+  if (facility) {
+    return { annualRate: facility.annualRate, rateSchedule: [] };
+  }
+  const rateSchedule = projectData.floatingRate?.enabled
+    ? deriveFloatingRateSchedule(projectData.floatingRate, projectData.benchmarkRates, endDate, getFirstDrawdownDate(payments.filter(p => !p.facilityId)))
+    : sortRateSchedule(projectData.rateSchedule || []);
+  return { annualRate: projectData.annualInterestRate, rateSchedule };
+};
+
+// Non-EMI entries of the loan an EMI repays
+const getLoanEntries = (payments: Payment[], config: EmiConfig, type: 'drawdown' | 'repayment') => payments
+  .filter(p => p.type === type && p.source !== 'emi' && p.date)
+  .filter(p => (p.facilityId || undefined) === (config.facilityId || undefined))
+  .map(p => ({ date: new Date(p.date as Date | string), amount: Math.abs(p.amount) }))
+  .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+// Principal repaid on the EMI loan outside the schedule: manual repayments, and the part of payments and
+// returns (a sale) that the return allocation applies to the loan
+const getPrepayments = (payments: Payment[], projectData: ProjectData, config: EmiConfig) => {
+  const facilityKey = config.facilityId || PRIMARY_FACILITY_ID;
+  return processPaymentsWithLoanTracking(payments, getReturnAllocation(projectData.settings))
+    .filter(p => p.type !== 'drawdown' && p.date)
+    .map(p => ({ date: new Date(p.date as Date | string), amount: p.facilityAdjustments?.[facilityKey] || 0 }))
+    .filter(p => p.amount > 0);
+};
+
+/**
+ * Date of the first EMI: as configured for pre-EMI, one month after the first disbursal for full EMI
+ * @returns ISO date, or null when a full-EMI loan has no disbursal yet
+ */
+export const getEmiStartDate = (payments: Payment[], config: EmiConfig): string | null => {
+  if (config.mode !== 'full-emi') return config.startDate;
+  const [firstDisbursal] = getLoanEntries(payments, config, 'drawdown');
+  return firstDisbursal ? format(addMonths(firstDisbursal.date, 1), 'yyyy-MM-dd') : null;
+};
+
+/**
+ * Builds the amortisation schedule of a project's EMI from its entries
+ * (repayments and returns applied to the loan after the first EMI count as prepayments, so a sale closes the loan;
+ * full EMI also follows the disbursals). EMIs after the end date are left out.
+ * The engine charges interest up to the end of the month before the first EMI and skips every EMI month, so the
+ * first EMI's interest runs from the 1st of its month.
+ * @param payments Project entries without generated EMI rows
+ * @param projectData Project with the EMI configuration and loan rate settings
+ * @param endDate Last date of interest calculation
+ */
+export const getEmiSchedule = (payments: Payment[], projectData: ProjectData, endDate: Date): AmortisationRow[] => {
+  const config = projectData.emi;
+  const startDate = config ? getEmiStartDate(payments, config) : null;
+  if (!config || !startDate) return [];
+
+  const { annualRate, rateSchedule } = getEmiRateTerms(projectData, endDate, payments);
+  const firstEmiDate = parseISO(startDate);
+  return generateAmortisationSchedule({
+    principal: config.principal,
+    annualRate,
+    tenureMonths: config.tenureMonths,
+    startDate,
+    rateSchedule,
+    prepayments: getPrepayments(payments, projectData, config).filter(p => p.date >= firstEmiDate),
+    dayCountConvention: projectData.dayCountConvention,
+    restPeriod: projectData.restPeriod,
+    interestFrom: startOfMonth(firstEmiDate),
+    ...(config.mode === 'full-emi' ? { disbursements: getLoanEntries(payments, config, 'drawdown') } : {})
+  }).filter(row => parseISO(row.date) <= endDate);
+};
+
+/**
+ * Converts amortisation rows into interest and repayment entries
+ */
+export const createEmiPayments = (schedule: AmortisationRow[], config: EmiConfig): Payment[] => {
+  const payments: Payment[] = [];
+  const totalPeriods = schedule.length > 0 ? schedule[schedule.length - 1].period : 0;
+
+  schedule.filter(row => row.emi > 0).forEach(row => {
+    const date = parseISO(row.date);
+    const month = date.getFullYear() * 12 + date.getMonth();
+    const key = format(date, 'yyyy-MM');
+    const facilityTag = config.facilityId ? { facilityId: config.facilityId } : {};
+
+    payments.push({
+      id: `emi-interest-${config.facilityId ? `${config.facilityId}-` : ''}${key}`,
+      month,
+      amount: row.interest,
+      type: 'interest',
+      date,
+      description: `EMI ${row.period}/${totalPeriods} interest @ ${row.rate.toFixed(2)}%`,
+      source: 'emi',
+      ...facilityTag
+    });
+    payments.push({
+      id: `emi-principal-${config.facilityId ? `${config.facilityId}-` : ''}${key}`,
+      month,
+      amount: row.principal,
+      type: 'repayment',
+      date,
+      description: `EMI ${row.period}/${totalPeriods} principal`,
+      source: 'emi',
+      ...facilityTag
+    });
+  });
+
+  return payments;
+};
+
+/**
+ * Replaces any previously generated EMI entries with a fresh schedule built from the current rate and prepayments
+ * @param payments Project entries (may include earlier EMI entries)
+ * @param projectData Project with the EMI configuration and loan rate settings
+ * @param endDate Last date of interest calculation
+ * @returns Entries without stale EMI rows, plus the regenerated schedule when EMI is enabled
+ */
+export const applyEmiSchedule = (payments: Payment[], projectData: ProjectData, endDate: Date): Payment[] => {
+  const basePayments = payments.filter(p => p.source !== 'emi');
+  if (!projectData.emi?.enabled) return basePayments;
+
+  const schedule = getEmiSchedule(basePayments, projectData, endDate);
+  return [...basePayments, ...createEmiPayments(schedule, projectData.emi)];
+};
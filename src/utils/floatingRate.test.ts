@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { deriveFloatingRateSchedule, getResetDates, parseBenchmarkRatesCsv } from './floatingRate';
+import { BenchmarkRate, FloatingRateConfig } from '@/types/project';
+
+const repoRates: BenchmarkRate[] = [
+  { id: 'b1', benchmark: 'REPO', effectiveFrom: '2024-12-01', rate: 6.5 },
+  { id: 'b2', benchmark: 'REPO', effectiveFrom: '2025-02-07', rate: 6.25 },
+  { id: 'b3', benchmark: 'REPO', effectiveFrom: '2025-04-09', rate: 6.0 },
+  { id: 'b4', benchmark: 'REPO', effectiveFrom: '2025-06-06', rate: 5.5 },
+  { id: 'b5', benchmark: 'MCLR', effectiveFrom: '2025-01-01', rate: 9.0 },
+];
+
+const config: FloatingRateConfig = {
+  enabled: true,
+  benchmark: 'REPO',
+  spread: 2.75,
+  resetFrequency: 'quarterly',
+  firstResetDate: '2025-01-01',
+};
+
+describe('getResetDates', () => {
+  it('should step from the first reset by the reset frequency', () => {
+    const dates = getResetDates(config, new Date(2025, 11, 31));
+    expect(dates.map(d => d.getMonth())).toEqual([0, 3, 6, 9]);
+  });
+
+  it('should return no dates for an invalid first reset', () => {
+    expect(getResetDates({ ...config, firstResetDate: '' }, new Date(2025, 11, 31))).toHaveLength(0);
+  });
+});
+
+describe('deriveFloatingRateSchedule', () => {
+  it('should price each reset off the benchmark in force on that date', () => {
+    const schedule = deriveFloatingRateSchedule(config, repoRates, new Date(2025, 11, 31));
+
+    // Jan: 6.50 + 2.75, Apr: 6.25 + 2.75 (cut on 9 Apr not yet in force), Jul: 5.50 + 2.75
+    expect(schedule.map(change => change.effectiveFrom)).toEqual(['2025-01-01', '2025-04-01', '2025-07-01']);
+    expect(schedule.map(change => change.annualRate)).toEqual([9.25, 9, 8.25]);
+  });
+
+  it('should skip resets where the rate does not change', () => {
+    const schedule = deriveFloatingRateSchedule(
+      { ...config, benchmark: 'MCLR', resetFrequency: 'monthly' },
+      repoRates,
+      new Date(2025, 5, 30)
+    );
+    expect(schedule).toHaveLength(1);
+    expect(schedule[0].annualRate).toBe(11.75);
+  });
+
+  it('should price a loan drawn before the first reset off the benchmark at the drawdown', () => {
+    const schedule = deriveFloatingRateSchedule(config, repoRates, new Date(2025, 5, 30), new Date(2024, 11, 10));
+    expect(schedule.map(change => [change.effectiveFrom, change.annualRate])).toEqual([
+      ['2024-12-10', 9.25],
+      ['2025-04-01', 9]
+    ]);
+    // No benchmark value yet when drawn: the fixed rate stays until the first reset
+    expect(deriveFloatingRateSchedule(config, repoRates, new Date(2025, 0, 31), new Date(2024, 10, 1))[0].effectiveFrom).toBe('2025-01-01');
+  });
+
+    it('should return an empty schedule when the benchmark has no values', () => {
+    expect(deriveFloatingRateSchedule({ ...config, benchmark: 'T-BILL' }, repoRates, new Date(2025, 11, 31))).toEqual([]);
+  });
+});
+
+describe('parseBenchmarkRatesCsv', () => {
+  it('should parse rows with and without a benchmark column', () => {
+    const csv = 'Date,Benchmark,Rate\n2025-02-07,repo,6.25%\n09/04/2025,,6.00\nApr-2025,MCLR,8.9';
+    const { rates, errors } = parseBenchmarkRatesCsv(csv, 'REPO');
+
+    expect(errors).toHaveLength(0);
+    expect(rates).toHaveLength(3);
+    expect(rates.find(r => r.effectiveFrom === '2025-02-07')).toMatchObject({ benchmark: 'REPO', rate: 6.25 });
+    expect(rates.find(r => r.effectiveFrom === '2025-04-09')).toMatchObject({ benchmark: 'REPO', rate: 6 });
+    expect(rates.find(r => r.effectiveFrom === '2025-04-01')).toMatchObject({ benchmark: 'MCLR', rate: 8.9 });
+  });
+
+  it('should report rows with unparseable values', () => {
+    const { rates, errors } = parseBenchmarkRatesCsv('2025-02-07,abc\nnot-a-date,6.0', 'REPO');
+    expect(rates).toHaveLength(0);
+    expect(errors).toHaveLength(2);
+  });
+});
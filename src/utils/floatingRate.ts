@@ -0,0 +1,115 @@
+import { addMonths, format, parseISO } from 'date-fns';
+import { BenchmarkRate, FloatingRateConfig, RateChange, RateResetFrequency } from '@/types/project';
+import { DatedValue, getValueOn, parseDatedValuesCsv } from '@/utils/datedSeries';
+import { generateId } from '@/utils/idGenerator';
+
+export const RESET_FREQUENCY_MONTHS: Record<RateResetFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  'half-yearly': 6,
+  annual: 12,
+};
+
+export const COMMON_BENCHMARKS = ['REPO', 'MCLR', 'T-BILL', 'EBLR'];
+
+/**
+ * Lists the rate reset dates of a floating-rate loan up to an end date
+ * @param config Floating rate configuration
+ * @param endDate Last date of interest calculation
+ * @returns Reset dates in chronological order, starting with the first reset
+ */
+export const getResetDates = (config: FloatingRateConfig, endDate: Date): Date[] => {
+  const firstReset = parseISO(config.firstResetDate);
+  if (isNaN(firstReset.getTime())) return [];
+
+  const stepMonths = RESET_FREQUENCY_MONTHS[config.resetFrequency] || 12;
+  const resetDates: Date[] = [];
+  for (let i = 0; ; i++) {
+    const resetDate = addMonths(firstReset, i * stepMonths);
+    if (resetDate > endDate) break;
+    resetDates.push(resetDate);
+  }
+  return resetDates;
+};
+
+/**
+ * Returns the dated values of one benchmark, sorted by date
+ */
+export const getBenchmarkSeries = (benchmarkRates: BenchmarkRate[], benchmark: string): DatedValue[] => {
+  return benchmarkRates
+    .filter(rate => rate.benchmark.toUpperCase() === benchmark.toUpperCase())
+    .map(rate => ({ date: rate.effectiveFrom, value: rate.rate }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Derives the effective loan rate on each reset date (benchmark in force on that date + spread).
+ * A loan drawn before the first reset is priced off the benchmark in force when it was drawn.
+ * Resets where the benchmark is unchanged are skipped, so the result only contains real changes.
+ * @param config Floating rate configuration
+ * @param benchmarkRates Benchmark rate table
+ * @param endDate Last date of interest calculation
+ * @param startDate First drawdown of the loan; the fixed rate applies before it, or when no benchmark is known then
+ * @returns Rate schedule usable by the interest engine
+ */
+export const deriveFloatingRateSchedule = (
+  config: FloatingRateConfig,
+  benchmarkRates: BenchmarkRate[] = [],
+  endDate: Date,
+  startDate?: Date | null
+): RateChange[] => {
+  const series = getBenchmarkSeries(benchmarkRates, config.benchmark);
+  if (series.length === 0) return [];
+
+  const schedule: RateChange[] = [];
+  let previousRate: number | null = null;
+  const addChange = (date: Date, id: string) => {
+    const benchmarkValue = getValueOn(series, date);
+    if (benchmarkValue === null) return;
+
+    const annualRate = Math.round((benchmarkValue + config.spread) * 10000) / 10000;
+    if (annualRate === previousRate) return;
+
+    const effectiveFrom = format(date, 'yyyy-MM-dd');
+    schedule.push({ id: `${id}-${effectiveFrom}`, effectiveFrom, annualRate });
+    previousRate = annualRate;
+  };
+
+  const resetDates = getResetDates(config, endDate);
+  if (startDate && !isNaN(startDate.getTime()) && (resetDates.length === 0 || startDate < resetDates[0])) {
+    addChange(startDate, 'start');
+  }
+  resetDates.forEach(resetDate => addChange(resetDate, 'reset'));
+
+  return schedule;
+};
+
+/**
+ * Parses benchmark rates from CSV ("Date,Rate" or "Date,Benchmark,Rate")
+ * @param csvText Raw CSV text
+ * @param defaultBenchmark Benchmark name used when a row has no benchmark column
+ * @returns Parsed benchmark rates and per-line errors
+ */
+export const parseBenchmarkRatesCsv = (
+  csvText: string,
+  defaultBenchmark: string
+): { rates: BenchmarkRate[]; errors: string[] } => {
+  const { values, errors } = parseDatedValuesCsv(csvText);
+  const rates = values.map(value => ({
+    id: generateId('benchmark'),
+    benchmark: (value.label || defaultBenchmark).toUpperCase(),
+    effectiveFrom: value.date,
+    rate: value.value,
+  }));
+  return { rates, errors };
+};
+
+/**
+ * Merges imported benchmark rates into an existing table; imported values win on the same benchmark and date
+ */
+export const mergeBenchmarkRates = (existing: BenchmarkRate[], imported: BenchmarkRate[]): BenchmarkRate[] => {
+  const key = (rate: BenchmarkRate) => `${rate.benchmark.toUpperCase()}|${rate.effectiveFrom}`;
+  const importedKeys = new Set(imported.map(key));
+  return [...existing.filter(rate => !importedKeys.has(key(rate))), ...imported]
+    .sort((a, b) => a.benchmark.localeCompare(b.benchmark) || a.effectiveFrom.localeCompare(b.effectiveFrom));
+};
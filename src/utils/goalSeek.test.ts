@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { differenceInCalendarMonths } from 'date-fns';
+import { createDraftSaleEntry, getSaleSummary, solveGoal } from './goalSeek';
+import { runScenario } from './scenarioAnalysis';
+import { Payment, ProjectData } from '@/types/project';
+
+describe('goal seek', () => {
+  const payments: Payment[] = [
+    { id: 'p1', amount: 50000, type: 'payment', date: new Date(2024, 0, 10), month: 0 },
+    { id: 'd1', amount: 100000, type: 'drawdown', date: new Date(2024, 0, 10), month: 0 },
+    { id: 'p2', amount: 30000, type: 'payment', date: new Date(2024, 6, 10), month: 6 },
+    { id: 'r1', amount: 250000, type: 'return', date: new Date(2026, 0, 10), month: 24 }
+  ];
+  const projectData = {
+    projectName: 'Test',
+    annualInterestRate: 9,
+    purchasePrice: 0,
+    closingCosts: 0,
+    payments,
+    rentalIncome: []
+  } as ProjectData;
+  const projectEndDate = new Date(2026, 0, 31);
+
+  it('should find the sale amount that makes the target XIRR', () => {
+    const goal = solveGoal(projectData, payments, projectEndDate, { variable: 'sale-amount', metric: 'xirr', target: 15 });
+
+    expect(goal.status).toBe('solved');
+    expect(goal.outcome!.xirrValue!).toBeGreaterThanOrEqual(15);
+    expect(goal.outcome!.xirrValue!).toBeCloseTo(15, 3);
+    // 15% is below the current plan's return, so a lower price will do
+    expect(goal.saleAmount!).toBeLessThan(250000);
+    expect(goal.saleDate).toEqual(new Date(2026, 0, 10));
+  });
+
+  it('should solve for profit on a trial sale when the project has none', () => {
+    const withoutSale = payments.filter(p => p.type !== 'return');
+    const saleDate = new Date(2025, 11, 1);
+    const goal = solveGoal({ ...projectData, payments: withoutSale }, withoutSale, projectEndDate, {
+      variable: 'sale-amount', metric: 'netProfit', target: 20000, saleDate
+    });
+
+    expect(goal.status).toBe('solved');
+    expect(goal.outcome!.netProfit).toBeCloseTo(20000, -1);
+    const check = runScenario(projectData, [...withoutSale, createDraftSaleEntry(goal.saleAmount!, saleDate)], projectEndDate, {});
+    expect(check.netProfit).toBeCloseTo(20000, -1);
+  });
+
+  it('should find the latest sale date and the highest affordable rate', () => {
+    const base = runScenario(projectData, payments, projectEndDate, {});
+    const latest = solveGoal(projectData, payments, projectEndDate, { variable: 'sale-date', metric: 'xirr', target: 15 });
+
+    expect(latest.status).toBe('solved');
+    expect(latest.saleDate!.getTime()).toBeGreaterThan(new Date(2026, 0, 10).getTime());
+    expect(latest.outcome!.xirrValue!).toBeGreaterThanOrEqual(15);
+    // One month later misses the target
+    const delay = differenceInCalendarMonths(latest.saleDate!, new Date(2026, 0, 10));
+    expect(runScenario(projectData, payments, projectEndDate, { saleDelayMonths: delay + 1 }).xirrValue!).toBeLessThan(15);
+
+    const rate = solveGoal(projectData, payments, projectEndDate, { variable: 'interest-rate', metric: 'netProfit', target: base.netProfit - 5000 });
+    expect(rate.status).toBe('solved');
+    expect(rate.annualRate!).toBeGreaterThan(9);
+    expect(rate.outcome!.netProfit).toBeCloseTo(base.netProfit - 5000, -1);
+  });
+
+  it('should report targets that cannot be met and missing inputs', () => {
+    expect(solveGoal(projectData, payments, projectEndDate, { variable: 'sale-date', metric: 'xirr', target: 500 }).status).toBe('unreachable');
+    expect(solveGoal(projectData, payments.filter(p => p.type !== 'return'), projectEndDate, {
+      variable: 'sale-date', metric: 'xirr', target: 10
+    }).status).toBe('no-sale');
+    expect(solveGoal(projectData, payments.filter(p => p.type !== 'drawdown'), projectEndDate, {
+      variable: 'interest-rate', metric: 'xirr', target: 10
+    }).status).toBe('no-loan');
+    expect(getSaleSummary(projectData, payments)).toEqual({ amount: 250000, date: new Date(2026, 0, 10) });
+  });
+
+  it('should count the same sale entries the scenarios scale', () => {
+    const prepayment: Payment = { id: 'pp1', amount: 20000, type: 'repayment', date: new Date(2025, 3, 10), month: 15 };
+    expect(getSaleSummary(projectData, [...payments, prepayment])).toEqual({ amount: 250000, date: new Date(2026, 0, 10) });
+
+    const lenderSale: Payment = { id: 's1', amount: 90000, type: 'repayment', sale: true, date: new Date(2026, 1, 10), month: 25 };
+    expect(getSaleSummary(projectData, [...payments, prepayment, lenderSale])).toEqual({ amount: 90000, date: new Date(2026, 1, 10) });
+  });
+
+  it('should report only the rate change when the main loan follows a rate schedule', () => {
+    const scheduled = { ...projectData, rateSchedule: [{ id: 'c1', effectiveFrom: '2025-06-01', annualRate: 10 }] };
+    const base = runScenario(scheduled, payments, projectEndDate, {});
+    const rate = solveGoal(scheduled, payments, projectEndDate, { variable: 'interest-rate', metric: 'netProfit', target: base.netProfit - 5000 });
+
+    expect(rate.status).toBe('solved');
+    expect(rate.rateChange!).toBeGreaterThan(0);
+    expect(rate.annualRate).toBeNull();
+  });
+});
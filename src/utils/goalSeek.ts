@@ -0,0 +1,181 @@
+import { addMonths, differenceInCalendarMonths } from 'date-fns';
+import { Payment, ProjectData } from '@/types/project';
+import { dateToMonth, getEntryDate, getSaleProceeds } from '@/utils/paymentEntries';
+import { runScenario, ScenarioResult } from '@/utils/scenarioAnalysis';
+import { generateId } from '@/utils/idGenerator';
+
+export type GoalVariable = 'sale-amount' | 'sale-date' | 'interest-rate';
+export type GoalMetric = 'xirr' | 'netProfit';
+
+// solved: the boundary was found; always-met: the target holds across the whole search range;
+// unreachable: no value in the range meets it; no-sale / no-loan: nothing to solve for
+export type GoalSeekStatus = 'solved' | 'always-met' | 'unreachable' | 'no-sale' | 'no-loan';
+
+export const GOAL_VARIABLE_LABELS: Record<GoalVariable, string> = {
+  'sale-amount': 'Required sale amount',
+  'sale-date': 'Latest sale date',
+  'interest-rate': 'Maximum interest rate',
+};
+
+export const GOAL_SEEK_STATUS_LABELS: Record<GoalSeekStatus, string> = {
+  solved: 'Solved',
+  'always-met': 'Target met across the whole range',
+  unreachable: 'Target cannot be reached',
+  'no-sale': 'Add a sale or return entry first',
+  'no-loan': 'The project has no loan drawdowns',
+};
+
+// Search limits
+export const MAX_SALE_DELAY_MONTHS = 120;
+const MAX_RATE_INCREASE = 50; // Percentage points
+const MAX_SALE_AMOUNT = 1e12;
+
+export interface GoalSeekInput {
+  variable: GoalVariable;
+  metric: GoalMetric;
+  target: number; // XIRR in percent or net profit in rupees
+  saleDate?: Date; // Date of the sale to solve for when the project has none yet; defaults to the project end date
+}
+
+export interface GoalSeekResult extends GoalSeekInput {
+  status: GoalSeekStatus;
+  saleAmount: number | null; // Total sale proceeds at the solved point
+  saleDate: Date | null; // Sale date at the solved point
+  rateChange: number | null; // Percentage points added to every loan rate at the solved point
+  annualRate: number | null; // Main loan rate at the solved point; null when it floats or follows a rate schedule
+  outcome: ScenarioResult | null; // Returns at the solved point
+}
+
+export interface SaleSummary {
+  amount: number; // Sale entries and sale income together
+  date: Date; // Latest sale date
+}
+
+/**
+ * Totals the sale proceeds the scenario engine scales: sale entries and sale income
+ * @returns Null when the project has no sale yet
+ */
+export const getSaleSummary = (projectData: ProjectData, payments: Payment[]): SaleSummary | null => {
+  const sales = getSaleProceeds(payments, projectData.rentalIncome);
+  const amount = sales.reduce((sum, sale) => sum + sale.amount, 0);
+  if (sales.length === 0 || amount <= 0) return null;
+  return { amount, date: new Date(Math.max(...sales.map(sale => sale.date.getTime()))) };
+};
+
+/**
+ * Sale entry carrying a solved amount and date, ready to be added to the unsaved entries
+ */
+export const createDraftSaleEntry = (amount: number, date: Date): Payment => ({
+  id: generateId('sale'),
+  amount: Math.round(amount),
+  type: 'return',
+  date,
+  month: dateToMonth(date),
+  description: 'Sale (goal seek draft)',
+  sale: true
+});
+
+const getMetric = (result: ScenarioResult, metric: GoalMetric): number =>
+  metric === 'netProfit' ? result.netProfit : result.xirrValue ?? -Infinity;
+
+/**
+ * Narrows the gap between a value that misses the target and one that meets it
+ * @returns The value closest to the boundary that still meets the target
+ */
+const bisect = (meets: (value: number) => boolean, failing: number, passing: number, tolerance: number, wholeSteps = false): number => {
+  for (let i = 0; i < 200 && Math.abs(passing - failing) > tolerance; i++) {
+    const middle = wholeSteps ? failing + Math.trunc((passing - failing) / 2) : (failing + passing) / 2;
+    if (meets(middle)) {
+      passing = middle;
+    } else {
+      failing = middle;
+    }
+  }
+  return passing;
+};
+
+/**
+ * Finds the sale amount, the latest sale date or the highest loan rate at which the project still
+ * makes a target XIRR or net profit. Each trial reruns the interest engine and the same
+ * loan tracking and XIRR calculation as the analysis.
+ * @param projectData Project with loan settings and rental income
+ * @param payments Current entries (calculated interest is regenerated)
+ * @param projectEndDate Last date of interest calculation
+ */
+export const solveGoal = (
+  projectData: ProjectData,
+  payments: Payment[],
+  projectEndDate: Date,
+  input: GoalSeekInput
+): GoalSeekResult => {
+  const basePayments = payments.filter(p => p.type !== 'interest');
+  const sale = getSaleSummary(projectData, basePayments);
+  const result = (status: GoalSeekStatus, values: Partial<GoalSeekResult> = {}): GoalSeekResult => ({
+    ...input,
+    status,
+    saleAmount: null,
+    saleDate: null,
+    rateChange: null,
+    annualRate: null,
+    outcome: null,
+    ...values
+  });
+  const meetsTarget = (outcome: ScenarioResult) => getMetric(outcome, input.metric) >= input.target;
+
+  switch (input.variable) {
+    case 'sale-amount': {
+      // Without a sale, a trial sale is added on the chosen date
+      const saleDate = sale?.date ?? input.saleDate ?? projectEndDate;
+      const evaluate = (amount: number) => sale
+        ? runScenario(projectData, basePayments, projectEndDate, { saleAmountPercent: (amount / sale.amount - 1) * 100 })
+        : runScenario(projectData, [...basePayments, createDraftSaleEntry(amount, saleDate)], projectEndDate, {});
+      const solved = (amount: number) => ({ saleAmount: amount, saleDate, outcome: evaluate(amount) });
+
+      if (meetsTarget(evaluate(0))) return result('always-met', solved(0));
+      let high = Math.max(sale?.amount ?? 0, 100000);
+      while (!meetsTarget(evaluate(high))) {
+        high *= 2;
+        if (high > MAX_SALE_AMOUNT) return result('unreachable');
+      }
+      return result('solved', solved(bisect(amount => meetsTarget(evaluate(amount)), 0, high, 1)));
+    }
+
+    case 'sale-date': {
+      if (!sale) return result('no-sale');
+      // The sale can move no earlier than the month after the last payment or drawdown
+      const costTimes = basePayments
+        .filter(p => p.type === 'payment' || p.type === 'drawdown')
+        .map(p => getEntryDate(p).getTime())
+        .filter(time => !isNaN(time));
+      const earliestDelay = costTimes.length > 0
+        ? Math.min(0, differenceInCalendarMonths(new Date(Math.max(...costTimes)), sale.date) + 1)
+        : 0;
+      const evaluate = (delay: number) => runScenario(projectData, basePayments, projectEndDate, { saleDelayMonths: delay });
+      const solved = (delay: number) => ({ saleAmount: sale.amount, saleDate: addMonths(sale.date, delay), outcome: evaluate(delay) });
+
+      if (!meetsTarget(evaluate(earliestDelay))) return result('unreachable');
+      if (meetsTarget(evaluate(MAX_SALE_DELAY_MONTHS))) return result('always-met', solved(MAX_SALE_DELAY_MONTHS));
+      return result('solved', solved(bisect(delay => meetsTarget(evaluate(delay)), MAX_SALE_DELAY_MONTHS, earliestDelay, 1, true)));
+    }
+
+    case 'interest-rate': {
+      if (!basePayments.some(p => p.type === 'drawdown')) return result('no-loan');
+      const evaluate = (change: number) => runScenario(projectData, basePayments, projectEndDate, { interestRateChange: change });
+      // A floating or scheduled rate has no single value to report, only the change
+      const hasFixedRate = !projectData.floatingRate?.enabled && !(projectData.rateSchedule?.length);
+      const solved = (change: number) => ({
+        rateChange: change,
+        annualRate: hasFixedRate ? projectData.annualInterestRate + change : null,
+        saleAmount: sale?.amount ?? null,
+        saleDate: sale?.date ?? null,
+        outcome: evaluate(change)
+      });
+      // Rates fall no lower than zero on the cheapest loan
+      const lowest = -Math.min(projectData.annualInterestRate, ...(projectData.loanFacilities || []).map(facility => facility.annualRate));
+
+      if (!meetsTarget(evaluate(lowest))) return result('unreachable');
+      if (meetsTarget(evaluate(MAX_RATE_INCREASE))) return result('always-met', solved(MAX_RATE_INCREASE));
+      return result('solved', solved(bisect(change => meetsTarget(evaluate(change)), MAX_RATE_INCREASE, lowest, 0.001)));
+    }
+  }
+};
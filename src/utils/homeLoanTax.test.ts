@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { calculateHomeLoanTaxBenefits, getFinancialYearLabel } from './homeLoanTax';
+import { IncomeItem, Payment, ProjectData, TaxProfile } from '@/types/project';
+
+const createProject = (payments: Payment[], taxProfile: Partial<TaxProfile>, rentalIncome: IncomeItem[] = []): ProjectData => ({
+  projectName: 'Test',
+  annualInterestRate: 9,
+  purchasePrice: 0,
+  closingCosts: 0,
+  payments,
+  rentalIncome,
+  taxProfile: { enabled: true, regime: 'old', slabRate: 30, occupancy: 'self-occupied', ...taxProfile }
+} as ProjectData);
+
+const interest = (id: string, date: Date, amount: number): Payment => ({ id, amount, type: 'interest', date, month: 0 });
+
+const TAX_RATE = 0.3 * 1.04;
+
+describe('homeLoanTax', () => {
+  it('should label financial years', () => {
+    expect(getFinancialYearLabel(2025)).toBe('FY 2025-26');
+    expect(getFinancialYearLabel(2099)).toBe('FY 2099-00');
+  });
+
+  it('should cap self-occupied interest and spread pre-construction interest over five years', () => {
+    const payments: Payment[] = [
+      { id: 'd1', amount: 5000000, type: 'drawdown', date: new Date(2023, 4, 1), month: -8 },
+      interest('i1', new Date(2023, 9, 1), 250000),
+      interest('i2', new Date(2024, 9, 1), 250000),
+      interest('i3', new Date(2025, 9, 1), 150000),
+      { id: 'e1', amount: 200000, type: 'repayment', source: 'emi', date: new Date(2025, 10, 1), month: 22 }
+    ];
+    const result = calculateHomeLoanTaxBenefits(payments, createProject(payments, { possessionDate: '2025-06-01' }))!;
+
+    expect(result.preConstructionInterest).toBe(500000);
+    expect(result.years.map(year => year.label)).toEqual(['FY 2025-26', 'FY 2026-27', 'FY 2027-28', 'FY 2028-29', 'FY 2029-30']);
+    const [first, second] = result.years;
+    expect(first.preConstructionInstalment).toBe(100000);
+    // 1,50,000 + 1,00,000 instalment, capped at 2,00,000
+    expect(first.interestDeduction).toBe(200000);
+    expect(first.principalDeduction).toBe(150000);
+    expect(first.taxSaving).toBeCloseTo(350000 * TAX_RATE, 6);
+    expect(second.interestDeduction).toBe(100000);
+    expect(result.totalTaxSaving).toBeCloseTo((350000 + 4 * 100000) * TAX_RATE, 6);
+    expect(result.postTaxCostOfDebt.rate!).toBeLessThan(result.costOfDebt.rate!);
+  });
+
+  it('should allow nothing on a self-occupied home under the new regime', () => {
+    const payments: Payment[] = [
+      { id: 'd1', amount: 5000000, type: 'drawdown', date: new Date(2025, 4, 1), month: 16 },
+      interest('i1', new Date(2025, 9, 1), 150000),
+      { id: 'e1', amount: 200000, type: 'repayment', source: 'emi', date: new Date(2025, 10, 1), month: 22 }
+    ];
+    const result = calculateHomeLoanTaxBenefits(payments, createProject(payments, { regime: 'new' }))!;
+    expect(result.totalTaxSaving).toBe(0);
+  });
+
+  it('should set let-out interest against rent and carry the excess loss forward', () => {
+    const payments: Payment[] = [
+      { id: 'd1', amount: 5000000, type: 'drawdown', date: new Date(2025, 4, 1), month: 16 },
+      interest('i1', new Date(2025, 9, 1), 500000),
+      interest('i2', new Date(2026, 9, 1), 100000)
+    ];
+    const rentalIncome: IncomeItem[] = [
+      { id: 'r1', amount: 100000, type: 'rental', date: new Date(2025, 11, 1), month: 23 },
+      { id: 'r2', amount: 400000, type: 'rental', date: new Date(2026, 11, 1), month: 35 }
+    ];
+
+    const oldRegime = calculateHomeLoanTaxBenefits(payments, createProject(payments, { occupancy: 'let-out' }, rentalIncome))!;
+    const [first, second] = oldRegime.years;
+    // 70,000 against rent, 2,00,000 against other income, 2,30,000 carried forward
+    expect(first.interestDeduction).toBe(270000);
+    expect(first.lossCarriedForward).toBe(230000);
+    // 2,80,000 of rent after the standard deduction absorbs this year's interest and 1,80,000 of the carried loss
+    expect(second.interestDeduction).toBe(280000);
+    expect(second.lossCarriedForward).toBe(50000);
+
+    const newRegime = calculateHomeLoanTaxBenefits(payments, createProject(payments, { occupancy: 'let-out', regime: 'new' }, rentalIncome))!;
+    expect(newRegime.years.map(year => year.interestDeduction)).toEqual([70000, 100000]);
+  });
+
+  it('should skip projects without an enabled profile', () => {
+    const payments: Payment[] = [interest('i1', new Date(2025, 9, 1), 150000)];
+    expect(calculateHomeLoanTaxBenefits(payments, { ...createProject(payments, {}), taxProfile: undefined })).toBeNull();
+    expect(calculateHomeLoanTaxBenefits(payments, createProject(payments, { enabled: false }))).toBeNull();
+  });
+});
@@ -0,0 +1,220 @@
+import { parseISO } from 'date-fns';
+import { Payment, ProjectData, TaxProfile } from '@/types/project';
+import { getEntryDate } from '@/utils/paymentEntries';
+import { getFinancialYear, HEALTH_EDUCATION_CESS } from '@/utils/capitalGains';
+import { getInvestorCashFlows } from '@/utils/cashFlowAnalysis';
+import { getDebtCashFlows, getReturnAllocation, processPaymentsWithLoanTracking } from '@/utils/loanTracker';
+import { calculateXIRR, XirrResult } from '@/utils/xirr';
+
+export const SELF_OCCUPIED_INTEREST_CAP = 200000;
+// The cap drops to this when construction isn't completed within five years from the end of the year of borrowing
+export const LATE_COMPLETION_INTEREST_CAP = 30000;
+export const COMPLETION_DEADLINE_YEARS = 5;
+export const PRE_CONSTRUCTION_INSTALMENTS = 5;
+export const HOUSE_PROPERTY_LOSS_SET_OFF_CAP = 200000;
+export const LOSS_CARRY_FORWARD_YEARS = 8;
+export const STANDARD_DEDUCTION_PERCENT = 30;
+export const DEFAULT_SECTION_80C_LIMIT = 150000;
+
+export const DEFAULT_TAX_PROFILE: TaxProfile = {
+  enabled: true,
+  regime: 'old',
+  slabRate: 30,
+  occupancy: 'self-occupied',
+};
+
+export interface HomeLoanTaxYear {
+  financialYear: number; // Calendar year the financial year starts
+  label: string; // e.g. 'FY 2025-26'
+  date: Date; // 31 March closing the year, when the saving is counted
+  interestPaid: number;
+  preConstructionInstalment: number; // One fifth of the pre-construction interest
+  interestDeduction: number; // Section 24(b) interest that reduced taxable income, carried-forward losses included
+  principalRepaid: number;
+  principalDeduction: number; // Section 80C
+  lossCarriedForward: number; // Let-out loss still available for later years
+  interestSaving: number; // Tax saved through Section 24(b), cess included
+  taxSaving: number; // Interest and principal savings, cess included
+}
+
+export interface HomeLoanTaxBenefits {
+  years: HomeLoanTaxYear[];
+  totalTaxSaving: number;
+  preConstructionInterest: number; // Interest paid before the year of possession
+  interestCap: number | null; // Yearly Section 24(b) cap; null when the whole interest counts
+  costOfDebt: XirrResult;
+  postTaxCostOfDebt: XirrResult; // After Section 24(b) savings
+  xirr: XirrResult;
+  postTaxXirr: XirrResult; // With every saving as an inflow
+}
+
+export const getFinancialYearLabel = (financialYear: number): string =>
+  `FY ${financialYear}-${String((financialYear + 1) % 100).padStart(2, '0')}`;
+
+/**
+ * Yearly interest cap on a self-occupied home; it drops when construction ends more than five years
+ * after the financial year of the first drawdown
+ */
+const getSelfOccupiedInterestCap = (processedPayments: Payment[], possessionDate: Date | null): number => {
+  const drawdownDates = processedPayments
+    .filter(p => p.type === 'drawdown')
+    .map(getEntryDate)
+    .filter(date => !isNaN(date.getTime()));
+  const firstDrawdown = drawdownDates.length > 0 ? new Date(Math.min(...drawdownDates.map(date => date.getTime()))) : null;
+  const deadline = firstDrawdown
+    ? new Date(getFinancialYear(firstDrawdown) + 1 + COMPLETION_DEADLINE_YEARS, 2, 31)
+    : null;
+  return possessionDate && deadline && possessionDate > deadline ? LATE_COMPLETION_INTEREST_CAP : SELF_OCCUPIED_INTEREST_CAP;
+};
+
+/**
+ * Works out the yearly Section 24(b) and 80C deductions on the project's loans and the tax they save
+ * @param paymentsData Entries including calculated interest
+ * @param projectData Project with rental income, return allocation and tax profile
+ * @returns Null without an enabled tax profile or any loan interest or principal
+ */
+export const calculateHomeLoanTaxBenefits = (
+  paymentsData: Payment[],
+  projectData: ProjectData
+): HomeLoanTaxBenefits | null => {
+  const profile = projectData.taxProfile;
+  if (!profile?.enabled) return null;
+
+  const processedPayments = processPaymentsWithLoanTracking(paymentsData, getReturnAllocation(projectData.settings));
+  const parsedPossession = profile.possessionDate ? new Date(profile.possessionDate) : null;
+  const possessionDate = parsedPossession && !isNaN(parsedPossession.getTime()) ? parsedPossession : null;
+  const possessionYear = possessionDate ? getFinancialYear(possessionDate) : null;
+
+  const yearly = new Map<number, { interest: number; principal: number; rent: number }>();
+  const addToYear = (date: Date, key: 'interest' | 'principal' | 'rent', amount: number) => {
+    if (isNaN(date.getTime())) return;
+    const financialYear = getFinancialYear(date);
+    const totals = yearly.get(financialYear) || { interest: 0, principal: 0, rent: 0 };
+    totals[key] += amount;
+    yearly.set(financialYear, totals);
+  };
+
+  let preConstructionInterest = 0;
+  processedPayments.forEach(payment => {
+    const date = getEntryDate(payment);
+    switch (payment.type) {
+      case 'interest': {
+        // Only interest the investor pays counts; capitalised interest is repaid as principal
+        if (payment.capitalised || payment.subvented) break;
+        const paidOn = payment.deferredTo ? parseISO(payment.deferredTo) : date;
+        if (possessionYear !== null && getFinancialYear(paidOn) < possessionYear) {
+          preConstructionInterest += Math.abs(payment.amount);
+        } else {
+          addToYear(paidOn, 'interest', Math.abs(payment.amount));
+        }
+        break;
+      }
+      // Principal only qualifies under 80C once construction is complete
+      case 'repayment':
+        if (payment.source === 'emi' && (!possessionDate || date >= possessionDate)) {
+          addToYear(date, 'principal', Math.abs(payment.amount));
+        }
+        break;
+      case 'payment':
+        if (payment.calculatedLoanAdjustment > 0 && (!possessionDate || date >= possessionDate)) {
+          addToYear(date, 'principal', payment.calculatedLoanAdjustment);
+        }
+        break;
+    }
+  });
+  if (yearly.size === 0 && preConstructionInterest === 0) return null;
+
+  // Years the loan was serviced, plus the years of the pre-construction instalments
+  const financialYears = [...yearly.keys()];
+  if (possessionYear !== null && preConstructionInterest > 0) {
+    financialYears.push(possessionYear, possessionYear + PRE_CONSTRUCTION_INSTALMENTS - 1);
+  }
+
+  if (profile.occupancy === 'let-out') {
+    (projectData.rentalIncome || [])
+      .filter(income => income.type === 'rental')
+      .forEach(income => addToYear(getEntryDate(income), 'rent', income.amount));
+  }
+
+  const selfOccupiedCap = profile.occupancy === 'self-occupied' ? getSelfOccupiedInterestCap(processedPayments, possessionDate) : 0;
+
+  const firstYear = Math.min(...financialYears);
+  const lastYear = Math.max(...financialYears);
+  const taxRate = (profile.slabRate / 100) * (1 + HEALTH_EDUCATION_CESS / 100);
+  const section80CLimit = profile.section80CLimit ?? DEFAULT_SECTION_80C_LIMIT;
+
+  let carriedLosses: Array<{ financialYear: number; amount: number }> = [];
+  const years: HomeLoanTaxYear[] = [];
+  for (let financialYear = firstYear; financialYear <= lastYear; financialYear++) {
+    const totals = yearly.get(financialYear) || { interest: 0, principal: 0, rent: 0 };
+    const preConstructionInstalment = possessionYear !== null &&
+      financialYear >= possessionYear && financialYear < possessionYear + PRE_CONSTRUCTION_INSTALMENTS
+      ? preConstructionInterest / PRE_CONSTRUCTION_INSTALMENTS
+      : 0;
+    const interestClaim = totals.interest + preConstructionInstalment;
+
+    let interestDeduction = 0;
+    if (profile.occupancy === 'self-occupied') {
+      // The new regime allows nothing on a self-occupied home
+      interestDeduction = profile.regime === 'old' ? Math.min(interestClaim, selfOccupiedCap) : 0;
+    } else {
+      const netRent = totals.rent * (1 - STANDARD_DEDUCTION_PERCENT / 100);
+      const againstRent = Math.min(interestClaim, netRent);
+      if (profile.regime === 'new') {
+        // A loss from house property can't reduce other income under the new regime
+        interestDeduction = againstRent;
+      } else {
+        const loss = interestClaim - againstRent;
+        const setOff = Math.min(loss, HOUSE_PROPERTY_LOSS_SET_OFF_CAP);
+
+        // Earlier losses absorb this year's house property income, oldest first
+        let headroom = netRent - againstRent;
+        let usedLosses = 0;
+        carriedLosses = carriedLosses.filter(entry => financialYear - entry.financialYear <= LOSS_CARRY_FORWARD_YEARS);
+        carriedLosses.forEach(entry => {
+          const used = Math.min(entry.amount, headroom);
+          entry.amount -= used;
+          headroom -= used;
+          usedLosses += used;
+        });
+        carriedLosses = carriedLosses.filter(entry => entry.amount > 0);
+        if (loss > setOff) carriedLosses.push({ financialYear, amount: loss - setOff });
+
+        interestDeduction = againstRent + setOff + usedLosses;
+      }
+    }
+
+    const principalDeduction = profile.regime === 'old' ? Math.min(totals.principal, section80CLimit) : 0;
+    years.push({
+      financialYear,
+      label: getFinancialYearLabel(financialYear),
+      date: new Date(financialYear + 1, 2, 31),
+      interestPaid: totals.interest,
+      preConstructionInstalment,
+      interestDeduction,
+      principalRepaid: totals.principal,
+      principalDeduction,
+      lossCarriedForward: carriedLosses.reduce((sum, entry) => sum + entry.amount, 0),
+      interestSaving: interestDeduction * taxRate,
+      taxSaving: (interestDeduction + principalDeduction) * taxRate
+    });
+  }
+
+  const debtCashFlows = getDebtCashFlows(processedPayments);
+  const investorCashFlows = getInvestorCashFlows(paymentsData, projectData).filter(cf => !isNaN(cf.date.getTime()));
+  const savings = years.filter(year => year.taxSaving > 0);
+
+  return {
+    years,
+    totalTaxSaving: years.reduce((sum, year) => sum + year.taxSaving, 0),
+    preConstructionInterest,
+    interestCap: profile.occupancy === 'self-occupied' ? selfOccupiedCap : null,
+    costOfDebt: calculateXIRR(debtCashFlows),
+    postTaxCostOfDebt: calculateXIRR([
+      ...debtCashFlows,
+      ...savings.map(year => ({ date: year.date, amount: year.interestSaving }))
+    ]),
+    xirr: calculateXIRR(investorCashFlows),
+    postTaxXirr: calculateXIRR([...investorCashFlows, ...savings.map(year => ({ date: year.date, amount: year.taxSaving }))])
+  };
+};
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { calculateRealReturns, getInflationRate, getPriceChange } from './inflation';
+import { Payment, ProjectData } from '@/types/project';
+
+describe('inflation', () => {
+  it('should pick the manual rate, then project entries, then the built-in table, then the projection', () => {
+    expect(getInflationRate(2020)).toBe(6.62);
+    expect(getInflationRate(2040)).toBe(5);
+    expect(getInflationRate(2040, { projectedRate: 4 })).toBe(4);
+    expect(getInflationRate(2020, { cpiTable: [{ year: 2020, rate: 7 }] })).toBe(7);
+    expect(getInflationRate(2020, { manualRate: 3, cpiTable: [{ year: 2020, rate: 7 }] })).toBe(3);
+  });
+
+  it('should compound each year over the days spent in it', () => {
+    const settings = { manualRate: 10 };
+    expect(getPriceChange(new Date(2030, 0, 1), new Date(2032, 0, 1), settings)).toBeCloseTo(1.21, 10);
+    expect(getPriceChange(new Date(2032, 0, 1), new Date(2030, 0, 1), settings)).toBeCloseTo(1 / 1.21, 10);
+    // Half of 2030 at 10%, all of 2031 at 4%
+    const mixed = getPriceChange(new Date(2030, 6, 2), new Date(2032, 0, 1), { cpiTable: [{ year: 2030, rate: 10 }, { year: 2031, rate: 4 }] });
+    expect(mixed).toBeCloseTo(Math.pow(1.1, 183 / 365) * 1.04, 10);
+  });
+
+  it('should restate returns in today\'s rupees', () => {
+    const payments: Payment[] = [
+      { id: 'p1', amount: 100000, type: 'payment', date: new Date(2030, 0, 1), month: 72 },
+      { id: 'r1', amount: 121000, type: 'return', date: new Date(2032, 0, 1), month: 96 }
+    ];
+    const projectData = {
+      projectName: 'Test',
+      annualInterestRate: 9,
+      purchasePrice: 0,
+      closingCosts: 0,
+      payments,
+      rentalIncome: [],
+      inflation: { manualRate: 5 }
+    } as ProjectData;
+
+    const result = calculateRealReturns(payments, projectData, new Date(2030, 0, 1));
+    expect(result.nominal.rate!).toBeCloseTo(10, 6);
+    // (1.10 / 1.05) - 1
+    expect(result.real.rate!).toBeCloseTo(4.7619, 3);
+    expect(result.nominalProfit).toBe(21000);
+    expect(result.realProfit).toBeCloseTo(121000 / 1.1025 - 100000, 4);
+    expect(result.averageInflation!).toBeCloseTo(5, 8);
+    expect(result.timeline).toHaveLength(25);
+    expect(result.timeline[24].nominal).toBe(21000);
+    expect(result.timeline[24].real).toBeLessThan(21000);
+  });
+});
@@ -0,0 +1,122 @@
+import { addDays, format, startOfYear } from 'date-fns';
+import { AnnualInflation, InflationSettings, Payment, ProjectData } from '@/types/project';
+import { monthToDate } from '@/utils/paymentEntries';
+import { getInvestorCashFlows } from '@/utils/cashFlowAnalysis';
+import { buildCashFlowStatement } from '@/utils/cashFlowStatement';
+import { calculateXIRR, XirrResult } from '@/utils/xirr';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// India, consumer prices, annual average inflation (World Bank series, rounded); edit any year in the app
+export const INDIA_CPI_INFLATION: AnnualInflation[] = [
+  { year: 2012, rate: 9.48 },
+  { year: 2013, rate: 10.02 },
+  { year: 2014, rate: 6.67 },
+  { year: 2015, rate: 4.91 },
+  { year: 2016, rate: 4.95 },
+  { year: 2017, rate: 3.33 },
+  { year: 2018, rate: 3.94 },
+  { year: 2019, rate: 3.73 },
+  { year: 2020, rate: 6.62 },
+  { year: 2021, rate: 5.13 },
+  { year: 2022, rate: 6.7 },
+  { year: 2023, rate: 5.65 },
+];
+
+export const DEFAULT_PROJECTED_INFLATION = 5;
+
+export interface RealCashFlowPoint {
+  month: number; // Same numbering as Payment.month
+  label: string;
+  nominal: number; // Cumulative cash position in rupees of the day
+  real: number; // Cumulative cash position in today's rupees
+}
+
+export interface RealReturns {
+  nominal: XirrResult;
+  real: XirrResult;
+  nominalProfit: number;
+  realProfit: number; // In today's rupees
+  averageInflation: number | null; // Annualised over the life of the cash flows (%)
+  timeline: RealCashFlowPoint[];
+}
+
+/**
+ * Inflation used for a calendar year: the flat manual rate, else the project's own entry, else the built-in
+ * CPI table, else the projected rate
+ */
+export const getInflationRate = (year: number, settings: InflationSettings = {}): number => {
+  if (settings.manualRate != null) return settings.manualRate;
+  const override = settings.cpiTable?.find(entry => entry.year === year);
+  if (override) return override.rate;
+  const builtIn = INDIA_CPI_INFLATION.find(entry => entry.year === year);
+  return builtIn ? builtIn.rate : settings.projectedRate ?? DEFAULT_PROJECTED_INFLATION;
+};
+
+/**
+ * How much prices rise between two dates, compounding each calendar year's rate over the days spent in it
+ * @returns Price level on `to` relative to `from` (below 1 when `to` is earlier)
+ */
+export const getPriceChange = (from: Date, to: Date, settings: InflationSettings = {}): number => {
+  if (to < from) return 1 / getPriceChange(to, from, settings);
+
+  let factor = 1;
+  let cursor = from;
+  while (cursor < to) {
+    const year = cursor.getFullYear();
+    const nextYear = new Date(year + 1, 0, 1);
+    const segmentEnd = nextYear < to ? nextYear : to;
+    const daysInYear = (nextYear.getTime() - startOfYear(cursor).getTime()) / MS_PER_DAY;
+    const days = (segmentEnd.getTime() - cursor.getTime()) / MS_PER_DAY;
+    factor *= Math.pow(1 + getInflationRate(year, settings) / 100, days / daysInYear);
+    cursor = segmentEnd;
+  }
+  return factor;
+};
+
+/**
+ * Restates a project's cash flows in today's rupees and recomputes XIRR, profit and the cumulative cash position
+ * @param paymentsData Entries including calculated interest
+ * @param projectData Project with rental income, return allocation and inflation settings
+ * @param asOf Date whose rupees the real figures are in
+ */
+export const calculateRealReturns = (
+  paymentsData: Payment[],
+  projectData: ProjectData,
+  asOf: Date = new Date()
+): RealReturns => {
+  const settings = projectData.inflation || {};
+  const toTodaysRupees = (date: Date) => 1 / getPriceChange(asOf, date, settings);
+
+  const cashFlows = getInvestorCashFlows(paymentsData, projectData).filter(cf => !isNaN(cf.date.getTime()));
+  const realCashFlows = cashFlows.map(cf => ({ date: cf.date, amount: cf.amount * toTodaysRupees(cf.date) }));
+  const nominal = calculateXIRR(cashFlows);
+  const real = calculateXIRR(realCashFlows);
+
+  const times = cashFlows.map(cf => cf.date.getTime());
+  const first = new Date(Math.min(...times));
+  const last = new Date(Math.max(...times));
+  const years = (last.getTime() - first.getTime()) / MS_PER_DAY / 365;
+
+  // Statement months are deflated at mid-month
+  let realCumulative = 0;
+  const timeline = buildCashFlowStatement(paymentsData, projectData).map(row => {
+    const monthStart = monthToDate(row.month);
+    realCumulative += row.netCashFlow * toTodaysRupees(addDays(monthStart, 14));
+    return {
+      month: row.month,
+      label: format(monthStart, 'MMM yy'),
+      nominal: row.cumulativeCashFlow,
+      real: realCumulative
+    };
+  });
+
+  return {
+    nominal,
+    real,
+    nominalProfit: cashFlows.reduce((sum, cf) => sum + cf.amount, 0),
+    realProfit: realCashFlows.reduce((sum, cf) => sum + cf.amount, 0),
+    averageInflation: years > 0 ? (Math.pow(getPriceChange(first, last, settings), 1 / years) - 1) * 100 : null,
+    timeline
+  };
+};
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { calculateMonthlyInterestLogic } from './interestCalculator';
+import { applyInterestHolidays, calculateMonthlyInterestLogic, getAnnualRateOn, getYearFraction } from './interestCalculator';
 import { Payment } from '@/types/project';
 
 // Mock monthToDate from the correct path
@@ -340,3 +340,376 @@ describe('calculateMonthlyInterestLogic', () => {
     expect(result.newInterestPayments[2].description).toContain('16 days');
   });
 });
+
+describe('calculateMonthlyInterestLogic with a rate schedule', () => {
+  const payments: Payment[] = [
+    {
+      id: '1',
+      amount: 120000,
+      type: 'drawdown',
+      date: new Date(2025, 4, 1),
+      month: 4 + 2025 * 12,
+      description: 'Initial drawdown'
+    }
+  ];
+
+  it('should split a month at a mid-month rate change', () => {
+    const result = calculateMonthlyInterestLogic({
+      payments,
+      interestRate: 12,
+      projectEndDate: new Date(2025, 6, 1),
+      rateSchedule: [{ id: 'r1', effectiveFrom: '2025-06-11', annualRate: 9 }]
+    });
+
+    const juneInterest = result.newInterestPayments.find(p => new Date(p.date!).getMonth() === 5);
+    expect(juneInterest).toBeDefined();
+    // 10 days @ 12% + 19 days @ 9% on 120,000 (daily rate = monthly rate / 30)
+    expect(juneInterest?.amount).toBeCloseTo(400 + 570, 2);
+    expect(juneInterest?.description).toContain('12.0% for 10 days');
+    expect(juneInterest?.description).toContain('9.0% for 19 days');
+    expect(juneInterest?.breakdown).toHaveLength(2);
+    expect(juneInterest?.breakdown?.[1].rate).toBe(9);
+
+    // July uses the new rate for the whole month
+    const julyInterest = result.newInterestPayments.find(p => new Date(p.date!).getMonth() === 6);
+    expect(julyInterest?.amount).toBeCloseTo(900, 2);
+    expect(julyInterest?.description).toContain('9.0%');
+  });
+
+  it('should apply a change effective on the 1st to the whole month', () => {
+    const result = calculateMonthlyInterestLogic({
+      payments,
+      interestRate: 12,
+      projectEndDate: new Date(2025, 5, 1),
+      rateSchedule: [{ id: 'r1', effectiveFrom: '2025-06-01', annualRate: 10 }]
+    });
+
+    const juneInterest = result.newInterestPayments.find(p => new Date(p.date!).getMonth() === 5);
+    expect(juneInterest?.amount).toBeCloseTo(1000, 2);
+    expect(juneInterest?.description).toContain('10.0%');
+  });
+
+  it('should use the base rate before the first change', () => {
+    expect(getAnnualRateOn(new Date(2025, 0, 1), 12, [{ id: 'r1', effectiveFrom: '2025-06-01', annualRate: 10 }])).toBe(12);
+    expect(getAnnualRateOn(new Date(2025, 5, 1), 12, [{ id: 'r1', effectiveFrom: '2025-06-01', annualRate: 10 }])).toBe(10);
+  });
+});
+
+describe('calculateMonthlyInterestLogic with a benchmark-linked rate', () => {
+  it('should derive the rate from the benchmark on each reset date', () => {
+    const payments: Payment[] = [
+      {
+        id: '1',
+        amount: 120000,
+        type: 'drawdown',
+        date: new Date(2025, 0, 1),
+        month: 2025 * 12,
+        description: 'Initial drawdown'
+      }
+    ];
+
+    const result = calculateMonthlyInterestLogic({
+      payments,
+      interestRate: 12,
+      projectEndDate: new Date(2025, 3, 30),
+      // Manual schedule is ignored while the floating rate is enabled
+      rateSchedule: [{ id: 'r1', effectiveFrom: '2025-02-01', annualRate: 15 }],
+      floatingRate: { enabled: true, benchmark: 'REPO', spread: 3, resetFrequency: 'quarterly', firstResetDate: '2025-01-01' },
+      benchmarkRates: [
+        { id: 'b1', benchmark: 'REPO', effectiveFrom: '2024-12-01', rate: 6 },
+        { id: 'b2', benchmark: 'REPO', effectiveFrom: '2025-02-15', rate: 5 }
+      ]
+    });
+
+    const interestByMonth = result.newInterestPayments.map(p => p.amount);
+    // Jan 2025 has the drawdown on day 1 so it is prorated; Feb/Mar stay at 9% until the April reset
+    expect(interestByMonth[1]).toBeCloseTo(900, 2);
+    expect(interestByMonth[2]).toBeCloseTo(900, 2);
+    expect(interestByMonth[3]).toBeCloseTo(800, 2);
+  });
+
+  it('should price a drawdown made before the first reset off the benchmark, not the fixed rate', () => {
+    const payments: Payment[] = [
+      { id: '1', amount: 120000, type: 'drawdown', date: new Date(2024, 11, 1), month: 2024 * 12 + 11 }
+    ];
+
+    const result = calculateMonthlyInterestLogic({
+      payments,
+      interestRate: 12,
+      projectEndDate: new Date(2025, 1, 28),
+      floatingRate: { enabled: true, benchmark: 'REPO', spread: 3, resetFrequency: 'quarterly', firstResetDate: '2025-04-01' },
+      benchmarkRates: [{ id: 'b1', benchmark: 'REPO', effectiveFrom: '2024-06-01', rate: 6 }]
+    });
+
+    // 6% + 3% from the drawdown; the 12% APR never applies
+    expect(result.newInterestPayments.map(p => p.amount)).toEqual([900 * 30 / 31, 900, 900].map(amount => expect.closeTo(amount, 2)));
+  });
+});
+
+describe('calculateMonthlyInterestLogic interest modes', () => {
+  const payments: Payment[] = [
+    {
+      id: '1',
+      amount: 100000,
+      type: 'drawdown',
+      date: new Date(2025, 3, 30),
+      month: 3 + 2025 * 12,
+      description: 'Drawdown on the last day of April'
+    }
+  ];
+  const interestFor = (result: ReturnType<typeof calculateMonthlyInterestLogic>, monthIndex: number) =>
+    result.newInterestPayments.find(p => new Date(p.date!).getMonth() === monthIndex);
+
+  it('should keep interest out of principal in simple mode', () => {
+    const result = calculateMonthlyInterestLogic({ payments, interestRate: 12, projectEndDate: new Date(2025, 5, 1) });
+    expect(interestFor(result, 4)?.amount).toBeCloseTo(1000, 2);
+    expect(interestFor(result, 5)?.amount).toBeCloseTo(1000, 2);
+    expect(interestFor(result, 5)?.capitalised).toBeUndefined();
+  });
+
+  it('should compound interest monthly in compound mode', () => {
+    const result = calculateMonthlyInterestLogic({
+      payments,
+      interestRate: 12,
+      projectEndDate: new Date(2025, 5, 1),
+      interestMode: 'compound'
+    });
+    expect(interestFor(result, 4)?.amount).toBeCloseTo(1000, 2);
+    expect(interestFor(result, 4)?.capitalised).toBe(true);
+    expect(interestFor(result, 5)?.amount).toBeCloseTo(1010, 2);
+  });
+
+  it('should capitalise only until the capitalisation date', () => {
+    const result = calculateMonthlyInterestLogic({
+      payments,
+      interestRate: 12,
+      projectEndDate: new Date(2025, 6, 1),
+      interestMode: 'capitalised',
+      capitaliseUntil: '2025-05-31'
+    });
+    expect(interestFor(result, 4)?.capitalised).toBe(true);
+    expect(interestFor(result, 4)?.description).toContain('(capitalised)');
+    expect(interestFor(result, 5)?.capitalised).toBeUndefined();
+    // June and July accrue on the capitalised principal of 101,000 but are paid, so principal stays flat
+    expect(interestFor(result, 5)?.amount).toBeCloseTo(1010, 2);
+    expect(interestFor(result, 6)?.amount).toBeCloseTo(1010, 2);
+  });
+});
+
+describe('getYearFraction', () => {
+  it('should count actual days over 365 or 360', () => {
+    expect(getYearFraction(new Date(2025, 0, 1), new Date(2026, 0, 1), 'actual/365')).toBe(1);
+    expect(getYearFraction(new Date(2025, 0, 1), new Date(2025, 1, 1), 'actual/360')).toBeCloseTo(31 / 360, 10);
+  });
+
+  it('should treat every month as 30 days under 30/360', () => {
+    expect(getYearFraction(new Date(2025, 1, 1), new Date(2025, 2, 1), '30/360')).toBeCloseTo(30 / 360, 10);
+    expect(getYearFraction(new Date(2025, 0, 31), new Date(2025, 2, 1), '30/360')).toBeCloseTo(31 / 360, 10);
+  });
+});
+
+describe('calculateMonthlyInterestLogic day count and rests', () => {
+  const drawdown: Payment = {
+    id: '1',
+    amount: 100000,
+    type: 'drawdown',
+    date: new Date(2025, 3, 30),
+    month: 3 + 2025 * 12,
+    description: 'Drawdown on the last day of April'
+  };
+  const repayment: Payment = {
+    id: '2',
+    amount: 50000,
+    type: 'repayment',
+    date: new Date(2025, 4, 10),
+    month: 4 + 2025 * 12,
+    description: 'Part prepayment'
+  };
+  const interestFor = (result: ReturnType<typeof calculateMonthlyInterestLogic>, year: number, monthIndex: number) =>
+    result.newInterestPayments.find(p => {
+      const date = new Date(p.date!);
+      return date.getFullYear() === year && date.getMonth() === monthIndex;
+    });
+
+  it.each([
+    ['actual/365', 100000 * 0.12 * 31 / 365],
+    ['actual/360', 100000 * 0.12 * 31 / 360],
+    ['30/360', 1000]
+  ] as const)('should charge a full month under %s', (dayCountConvention, expected) => {
+    const result = calculateMonthlyInterestLogic({
+      payments: [drawdown],
+      interestRate: 12,
+      projectEndDate: new Date(2025, 4, 1),
+      dayCountConvention
+    });
+    expect(interestFor(result, 2025, 4)?.amount).toBeCloseTo(expected, 2);
+  });
+
+  it('should charge the drawdown day under actual/365', () => {
+    const result = calculateMonthlyInterestLogic({
+      payments: [drawdown],
+      interestRate: 12,
+      projectEndDate: new Date(2025, 4, 1),
+      dayCountConvention: 'actual/365'
+    });
+    expect(interestFor(result, 2025, 3)?.amount).toBeCloseTo(100000 * 0.12 / 365, 2);
+  });
+
+  it('should reduce the balance on the repayment date with daily rests', () => {
+    const result = calculateMonthlyInterestLogic({
+      payments: [drawdown, repayment],
+      interestRate: 12,
+      projectEndDate: new Date(2025, 4, 1),
+      dayCountConvention: 'actual/365'
+    });
+    const expected = (100000 * 9 + 50000 * 22) * 0.12 / 365;
+    expect(interestFor(result, 2025, 4)?.amount).toBeCloseTo(expected, 2);
+  });
+
+  it('should credit repayments from the next month with monthly rests', () => {
+    const result = calculateMonthlyInterestLogic({
+      payments: [drawdown, repayment],
+      interestRate: 12,
+      projectEndDate: new Date(2025, 5, 1),
+      restPeriod: 'monthly'
+    });
+    expect(interestFor(result, 2025, 4)?.amount).toBeCloseTo(1000, 2);
+    expect(interestFor(result, 2025, 5)?.amount).toBeCloseTo(500, 2);
+  });
+
+  it('should credit repayments from the next April with annual rests', () => {
+    const result = calculateMonthlyInterestLogic({
+      payments: [drawdown, repayment],
+      interestRate: 12,
+      projectEndDate: new Date(2026, 3, 1),
+      restPeriod: 'annual'
+    });
+    expect(interestFor(result, 2025, 4)?.amount).toBeCloseTo(1000, 2);
+    expect(interestFor(result, 2026, 2)?.amount).toBeCloseTo(1000, 2);
+    expect(interestFor(result, 2026, 3)?.amount).toBeCloseTo(500, 2);
+  });
+});
+
+describe('calculateMonthlyInterestLogic with loan facilities', () => {
+  const facilities = [{ id: 'topup', name: 'Top-up loan', lender: 'Bank', annualRate: 9.6 }];
+  const payments: Payment[] = [
+    {
+      id: '1',
+      amount: 100000,
+      type: 'drawdown',
+      date: new Date(2025, 3, 30),
+      month: 3 + 2025 * 12,
+      description: 'Home loan drawdown'
+    },
+    {
+      id: '2',
+      amount: 50000,
+      type: 'drawdown',
+      date: new Date(2025, 3, 30),
+      month: 3 + 2025 * 12,
+      description: 'Top-up drawdown',
+      facilityId: 'topup'
+    }
+  ];
+  const mayInterest = (result: ReturnType<typeof calculateMonthlyInterestLogic>) =>
+    result.newInterestPayments.filter(p => new Date(p.date!).getMonth() === 4);
+
+  it('should accrue interest per facility at its own rate', () => {
+    const result = calculateMonthlyInterestLogic({
+      payments,
+      interestRate: 12,
+      projectEndDate: new Date(2025, 4, 1),
+      facilities
+    });
+    const [primary, topup] = [
+      mayInterest(result).find(p => !p.facilityId),
+      mayInterest(result).find(p => p.facilityId === 'topup')
+    ];
+    expect(primary?.amount).toBeCloseTo(1000, 2);
+    expect(topup?.amount).toBeCloseTo(400, 2);
+    expect(topup?.description).toContain('Top-up loan');
+    expect(topup?.id).not.toBe(primary?.id);
+    expect(result.allPaymentsWithInterest.filter(p => p.type === 'drawdown')).toHaveLength(2);
+  });
+
+  it('should treat tags of unknown facilities as the primary loan', () => {
+    const result = calculateMonthlyInterestLogic({
+      payments,
+      interestRate: 12,
+      projectEndDate: new Date(2025, 4, 1)
+    });
+    expect(mayInterest(result)).toHaveLength(1);
+    expect(mayInterest(result)[0].amount).toBeCloseTo(1500, 2);
+  });
+
+  it('should not accrue facility interest before the facility starts', () => {
+    const result = calculateMonthlyInterestLogic({
+      payments,
+      interestRate: 12,
+      projectEndDate: new Date(2025, 5, 30),
+      facilities: [{ ...facilities[0], startDate: '2025-06-01' }]
+    });
+    const topupInterest = result.newInterestPayments.filter(p => p.facilityId === 'topup');
+
+    expect(mayInterest(result).filter(p => p.facilityId === 'topup')).toHaveLength(0);
+    expect(topupInterest.map(p => new Date(p.date!).getMonth())).toEqual([5]);
+    expect(topupInterest[0].amount).toBeCloseTo(400 * 29 / 30, 2);
+    // The drawdown keeps its own date
+    expect(result.allPaymentsWithInterest.find(p => p.id === '2')!.date).toEqual(new Date(2025, 3, 30));
+  });
+});
+
+describe('calculateMonthlyInterestLogic with interest holidays', () => {
+  const payments: Payment[] = [
+    {
+      id: '1',
+      amount: 100000,
+      type: 'drawdown',
+      date: new Date(2025, 0, 1),
+      month: 2025 * 12,
+      description: 'Drawdown'
+    }
+  ];
+  const holiday = { id: 'h1', fromDate: '2025-01-01', toDate: '2025-02-28' };
+
+  it('should keep subvented interest on the entry for reference', () => {
+    const result = calculateMonthlyInterestLogic({
+      payments,
+      interestRate: 12,
+      projectEndDate: new Date(2025, 2, 1),
+      interestHolidays: [{ ...holiday, type: 'subvention' }]
+    });
+    const [january, february, march] = result.newInterestPayments;
+
+    expect(january.subvented).toBe(true);
+    expect(february.subvented).toBe(true);
+    expect(march.subvented).toBeUndefined();
+    expect(result.totalInterest).toBeCloseTo(
+      calculateMonthlyInterestLogic({ payments, interestRate: 12, projectEndDate: new Date(2025, 2, 1) }).totalInterest,
+      6
+    );
+  });
+
+  it('should defer moratorium interest to the end of the range', () => {
+    const result = calculateMonthlyInterestLogic({
+      payments,
+      interestRate: 12,
+      projectEndDate: new Date(2025, 2, 1),
+      interestHolidays: [{ ...holiday, type: 'moratorium' }]
+    });
+
+    expect(result.newInterestPayments.map(p => p.deferredTo)).toEqual(['2025-02-28', '2025-02-28', undefined]);
+    expect(result.newInterestPayments[0].description).toContain('deferred to 28 Feb 2025');
+  });
+
+  it('should only cover the loan the holiday is set on', () => {
+    const interest: Payment[] = [
+      { id: 'a', amount: 100, type: 'interest', date: new Date(2025, 0, 31), month: 2025 * 12 },
+      { id: 'b', amount: 50, type: 'interest', date: new Date(2025, 0, 31), month: 2025 * 12, facilityId: 'topup' },
+      { id: 'c', amount: 80, type: 'interest', date: new Date(2025, 0, 31), month: 2025 * 12, capitalised: true }
+    ];
+    const marked = applyInterestHolidays(interest, [{ ...holiday, type: 'subvention', facilityId: 'topup' }]);
+
+    expect(marked.map(p => !!p.subvented)).toEqual([false, true, false]);
+  });
+});
@@ -1,4 +1,18 @@
-import { Payment } from '@/types/project';
+import { addMonths, differenceInCalendarDays, differenceInMonths, format, parseISO, startOfDay } from 'date-fns';
+import {
+  BenchmarkRate,
+  DayCountConvention,
+  FloatingRateConfig,
+  InterestBreakdownItem,
+  InterestHoliday,
+  InterestMode,
+  LoanFacility,
+  Payment,
+  RateChange,
+  RestPeriod
+} from '@/types/project';
+import { deriveFloatingRateSchedule } from '@/utils/floatingRate';
+import { dateToMonth, getEntryDate, getFirstDrawdownDate } from '@/utils/paymentEntries';
 
 export interface CalculatedInterestResult {
   newInterestPayments: Payment[];
@@ -10,12 +24,105 @@ interface CalculateInterestParams {
   payments: Payment[];
   interestRate: number;
   projectEndDate?: Date;
+  rateSchedule?: RateChange[];
+  floatingRate?: FloatingRateConfig;
+  benchmarkRates?: BenchmarkRate[];
+  interestMode?: InterestMode;
+  capitaliseUntil?: string;
+  dayCountConvention?: DayCountConvention;
+  restPeriod?: RestPeriod;
+  facilities?: LoanFacility[];
+  interestHolidays?: InterestHoliday[];
 }
 
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Smallest interest amount worth an entry (half a paisa)
+const MIN_INTEREST_AMOUNT = 0.005;
+
+// Annual rests credit repayments at the start of the Indian financial year (April)
+export const FINANCIAL_YEAR_START_MONTH = 3;
+
+/**
+ * Counts days between two dates under a day-count convention
+ * @param fromDate Start of the period (inclusive)
+ * @param toDate End of the period (exclusive)
+ * @param convention Day-count convention ('30/360' uses the European 30E/360 rule)
+ * @returns Number of days to charge interest for
+ */
+export const countDays = (fromDate: Date, toDate: Date, convention: DayCountConvention): number => {
+  if (convention === '30/360') {
+    const d1 = Math.min(fromDate.getDate(), 30);
+    const d2 = Math.min(toDate.getDate(), 30);
+    return 360 * (toDate.getFullYear() - fromDate.getFullYear()) +
+      30 * (toDate.getMonth() - fromDate.getMonth()) +
+      (d2 - d1);
+  }
+  return differenceInCalendarDays(toDate, fromDate);
+};
+
+/**
+ * Year fraction for a period under a fixed-denominator day-count convention
+ */
+export const getYearFraction = (fromDate: Date, toDate: Date, convention: Exclude<DayCountConvention, 'monthly'>): number => {
+  const daysInYear = convention === 'actual/365' ? 365 : 360;
+  return countDays(fromDate, toDate, convention) / daysInYear;
+};
+
+/**
+ * Share of the annual rate charged from one date to another. Under the 'monthly' convention whole months count
+ * 1/12 and a broken period is pro-rated by the days of its month, as the engine does; fixed conventions use their
+ * year fraction.
+ */
+export const getRateFraction = (fromDate: Date, toDate: Date, convention: DayCountConvention): number => {
+  if (convention !== 'monthly') return Math.max(0, getYearFraction(fromDate, toDate, convention));
+  const months = Math.max(0, differenceInMonths(toDate, fromDate));
+  const brokenFrom = addMonths(fromDate, months);
+  const daysInMonth = new Date(brokenFrom.getFullYear(), brokenFrom.getMonth() + 1, 0).getDate();
+  return (months + Math.max(0, differenceInCalendarDays(toDate, brokenFrom)) / daysInMonth) / 12;
+};
+
+/**
+ * Returns the rate schedule sorted by effective date, ignoring entries without a valid date
+ */
+export const sortRateSchedule = (rateSchedule: RateChange[] = []): RateChange[] => {
+  return rateSchedule
+    .filter(change => change.effectiveFrom && !isNaN(parseISO(change.effectiveFrom).getTime()))
+    .sort((a, b) => parseISO(a.effectiveFrom).getTime() - parseISO(b.effectiveFrom).getTime());
+};
+
+/**
+ * Finds the annual rate in force on a given date
+ * @param date Date to look up
+ * @param baseRate Annual rate (%) that applies before the first scheduled change
+ * @param rateSchedule Dated rate changes
+ * @returns Annual interest rate as a percentage
+ */
+export const getAnnualRateOn = (date: Date, baseRate: number, rateSchedule: RateChange[] = []): number => {
+  let rate = baseRate;
+  for (const change of sortRateSchedule(rateSchedule)) {
+    if (parseISO(change.effectiveFrom).getTime() <= date.getTime()) {
+      rate = change.annualRate;
+    } else {
+      break;
+    }
+  }
+  return rate;
+};
+
 export const calculateMonthlyInterestLogic = ({
   payments,
   interestRate,
-  projectEndDate = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000)
+  projectEndDate = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000),
+  rateSchedule = [],
+  floatingRate,
+  benchmarkRates = [],
+  interestMode = 'simple',
+  capitaliseUntil,
+  dayCountConvention = 'monthly',
+  restPeriod = 'daily',
+  facilities = [],
+  interestHolidays = []
 }: CalculateInterestParams): CalculatedInterestResult => {
   if (!payments.length) {
     return {
@@ -25,6 +132,24 @@ export const calculateMonthlyInterestLogic = ({
     };
   }
 
+  // Entries tagged to a loan facility accrue separately at that facility's rate
+  if (payments.some(payment => findFacility(payment, facilities))) {
+    return calculateInterestByFacility({
+      payments,
+      interestRate,
+      projectEndDate,
+      rateSchedule,
+      floatingRate,
+      benchmarkRates,
+      interestMode,
+      capitaliseUntil,
+      dayCountConvention,
+      restPeriod,
+      facilities,
+      interestHolidays
+    });
+  }
+
   // Sort payments by date
   const sortedPayments = [...payments].sort((a, b) => {
     const dateA = a.date ? new Date(a.date) : monthToDate(a.month);
@@ -45,7 +170,10 @@ export const calculateMonthlyInterestLogic = ({
 
   // Calculate interest month by month until calcEndDate
   const newInterestPayments: Payment[] = [];
-  const monthlyRate = interestRate / 100 / 12; // Convert annual percentage to monthly decimal
+  // Benchmark-linked loans derive their rate changes from the reset dates instead of the manual schedule
+  const sortedRateSchedule = floatingRate?.enabled
+    ? deriveFloatingRateSchedule(floatingRate, benchmarkRates, calcEndDate, getFirstDrawdownDate(sortedPayments))
+    : sortRateSchedule(rateSchedule);
 
   // Group payments by month for easier processing
   const paymentsByMonth = new Map<string, Payment[]>();
@@ -60,23 +188,44 @@ export const calculateMonthlyInterestLogic = ({
     paymentsByMonth.get(monthKey)!.push(payment);
   });
 
+  // In 'capitalised' mode interest is added to principal for months ending on or before this date
+  const capitaliseUntilDate = interestMode === 'capitalised' && capitaliseUntil ? parseISO(capitaliseUntil) : null;
+
   // Process each month from start date to calcEndDate
   let currentDate = new Date(startDate.getFullYear(), startDate.getMonth(), 1);
   let currentPrincipal = 0;
+  let pendingRepayments = 0; // Repayments awaiting the next annual rest
   
   while (currentDate <= calcEndDate) {
     const monthKey = `${currentDate.getFullYear()}-${currentDate.getMonth()}`;
     const monthPayments = paymentsByMonth.get(monthKey) || [];
     
+    // Annual rest: repayments made during the year reduce the balance from the start of the next year
+    if (currentDate.getMonth() === FINANCIAL_YEAR_START_MONTH && pendingRepayments > 0) {
+      currentPrincipal = Math.max(0, currentPrincipal - pendingRepayments);
+      pendingRepayments = 0;
+    }
+    
     // Get principal at start of this month
     let monthStartPrincipal = currentPrincipal;
     
+    // Rate in force on the 1st, plus any changes that take effect later in the month
+    const monthEndDate = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0);
+    const monthStartRate = getAnnualRateOn(currentDate, interestRate, sortedRateSchedule);
+    const monthRateChanges = sortedRateSchedule.filter(change => {
+      const effectiveDate = parseISO(change.effectiveFrom);
+      return effectiveDate > currentDate && effectiveDate <= monthEndDate;
+    });
+    
     // Calculate daily interest for this month
     const monthInterest = calculateProRatedMonthlyInterest(
       currentDate,
       monthStartPrincipal,
       monthPayments,
-      monthlyRate
+      monthStartRate,
+      monthRateChanges,
+      dayCountConvention,
+      restPeriod
     );
     
     // Update principal for next month by processing all payments in this month
@@ -84,6 +233,8 @@ export const calculateMonthlyInterestLogic = ({
       if (payment.type === 'drawdown') {
         // Drawdown increases principal
         currentPrincipal += Math.abs(payment.amount);
+      } else if (payment.type === 'repayment' && restPeriod === 'annual') {
+        pendingRepayments += Math.abs(payment.amount);
       } else if (payment.type === 'repayment') {
         // Repayment reduces principal
         currentPrincipal -= Math.abs(payment.amount);
@@ -94,8 +245,14 @@ export const calculateMonthlyInterestLogic = ({
     }
     
     // Create interest payment if there's interest to charge
-    if (monthInterest.totalInterest > 0) {
+    // Months paid through the EMI schedule already carry their interest entry
+    const isCoveredByEmi = monthPayments.some(p => p.type === 'interest' && p.source === 'emi');
+    
+    // Sub-paisa amounts come from floating-point residue of a repaid loan
+    if (monthInterest.totalInterest >= MIN_INTEREST_AMOUNT && !isCoveredByEmi) {
       const lastDayOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0);
+      const isCapitalised = interestMode === 'compound' ||
+        (capitaliseUntilDate !== null && lastDayOfMonth <= capitaliseUntilDate);
       
       const interestPayment: Payment = {
         id: `interest-${currentDate.getFullYear()}-${currentDate.getMonth() + 1}`,
@@ -103,13 +260,18 @@ export const calculateMonthlyInterestLogic = ({
         type: 'interest',
         date: lastDayOfMonth,
         month: currentDate.getFullYear() * 12 + currentDate.getMonth(),
-        description: monthInterest.description
+        description: isCapitalised ? `${monthInterest.description} (capitalised)` : monthInterest.description,
+        breakdown: monthInterest.breakdown,
+        ...(isCapitalised ? { capitalised: true } : {})
       };
       
       newInterestPayments.push(interestPayment);
       
-      // DO NOT add interest to principal - treat interest as an expense/outflow
-      // Interest should not capitalize into the debt principal
+      if (isCapitalised) {
+        // Compounding / capitalisation: unpaid interest becomes part of the debt principal
+        currentPrincipal += monthInterest.totalInterest;
+      }
+      // Otherwise DO NOT add interest to principal - treat interest as an expense/outflow
     }
     
     // Move to next month
@@ -117,22 +279,133 @@ export const calculateMonthlyInterestLogic = ({
     currentDate.setDate(1);
   }
 
+  const markedInterestPayments = applyInterestHolidays(newInterestPayments, interestHolidays);
+
   // Combine original payments with new interest payments
-  const allPaymentsWithInterest = [...sortedPayments, ...newInterestPayments].sort((a, b) => {
+  const allPaymentsWithInterest = [...sortedPayments, ...markedInterestPayments].sort((a, b) => {
     const dateA = a.date ? new Date(a.date) : monthToDate(a.month);
     const dateB = b.date ? new Date(b.date) : monthToDate(b.month);
     return dateA.getTime() - dateB.getTime();
   });
 
-  const totalInterest = newInterestPayments.reduce((sum, payment) => sum + payment.amount, 0);
+  const totalInterest = markedInterestPayments.reduce((sum, payment) => sum + payment.amount, 0);
 
   return {
-    newInterestPayments,
+    newInterestPayments: markedInterestPayments,
     allPaymentsWithInterest,
     totalInterest
   };
 };
 
+// Finds the facility a drawdown/repayment (or EMI interest) is tagged to (undefined for the primary loan)
+const findFacility = (payment: Payment, facilities: LoanFacility[]): LoanFacility | undefined => {
+  const isLoanEntry = payment.type === 'drawdown' || payment.type === 'repayment' ||
+    (payment.type === 'interest' && payment.source === 'emi');
+  if (!payment.facilityId || !isLoanEntry) {
+    return undefined;
+  }
+  return facilities.find(facility => facility.id === payment.facilityId);
+};
+
+// Money can't be drawn from a facility before it is sanctioned: earlier drawdowns accrue from the sanction date
+const deferToFacilityStart = (payment: Payment, facility: LoanFacility): Payment => {
+  const sanctionDate = facility.startDate ? parseISO(facility.startDate) : null;
+  if (payment.type !== 'drawdown' || !sanctionDate || isNaN(sanctionDate.getTime()) || getEntryDate(payment) >= sanctionDate) {
+    return payment;
+  }
+  return { ...payment, date: sanctionDate, month: dateToMonth(sanctionDate) };
+};
+
+/**
+ * Runs the interest engine once for the primary loan and once per tagged facility,
+ * then merges the interest entries (each tagged with its facility).
+ */
+const calculateInterestByFacility = ({
+  payments,
+  facilities = [],
+  interestHolidays = [],
+  ...settings
+}: CalculateInterestParams): CalculatedInterestResult => {
+  const primaryResult = calculateMonthlyInterestLogic({
+    ...settings,
+    payments: payments.filter(payment => !findFacility(payment, facilities))
+  });
+  const newInterestPayments = [...primaryResult.newInterestPayments];
+
+  facilities.forEach(facility => {
+    const facilityPayments = payments
+      .filter(payment => findFacility(payment, facilities) === facility)
+      .map(payment => deferToFacilityStart(payment, facility));
+    if (facilityPayments.length === 0) return;
+
+    // Facilities carry a fixed rate of their own; the primary loan's schedule doesn't apply
+    const facilityResult = calculateMonthlyInterestLogic({
+      ...settings,
+      payments: facilityPayments,
+      interestRate: facility.annualRate,
+      rateSchedule: [],
+      floatingRate: undefined
+    });
+    newInterestPayments.push(...facilityResult.newInterestPayments.map(payment => ({
+      ...payment,
+      id: payment.id.replace('interest-', `interest-${facility.id}-`),
+      description: `${facility.name}: ${payment.description}`,
+      facilityId: facility.id
+    })));
+  });
+
+  const byDate = (a: Payment, b: Payment) => {
+    const dateA = a.date ? new Date(a.date) : monthToDate(a.month);
+    const dateB = b.date ? new Date(b.date) : monthToDate(b.month);
+    return dateA.getTime() - dateB.getTime();
+  };
+  // Holidays are matched once the entries carry their facility tag
+  const markedInterestPayments = applyInterestHolidays(newInterestPayments, interestHolidays).sort(byDate);
+
+  return {
+    newInterestPayments: markedInterestPayments,
+    allPaymentsWithInterest: [...payments, ...markedInterestPayments].sort(byDate),
+    totalInterest: markedInterestPayments.reduce((sum, payment) => sum + payment.amount, 0)
+  };
+};
+
+/**
+ * Marks interest entries that fall in a subvention or moratorium period of their loan.
+ * The accrued interest stays on the entry for reference; subvented interest is left out of the investor's
+ * cash flows and moratorium interest is paid at the end of the range.
+ * Capitalised interest is already deferred into the loan and is left as is.
+ * @param interestPayments Calculated interest entries
+ * @param holidays Subvention and moratorium periods
+ * @returns Entries with `subvented` or `deferredTo` set for months ending within a period
+ */
+export const applyInterestHolidays = (interestPayments: Payment[], holidays: InterestHoliday[] = []): Payment[] => {
+  const validHolidays = holidays.filter(holiday =>
+    !isNaN(parseISO(holiday.fromDate).getTime()) && !isNaN(parseISO(holiday.toDate).getTime())
+  );
+  if (validHolidays.length === 0) return interestPayments;
+
+  return interestPayments.map(payment => {
+    if (payment.type !== 'interest' || payment.capitalised || !payment.date) return payment;
+
+    const paymentDate = new Date(payment.date);
+    const holiday = validHolidays.find(h =>
+      (h.facilityId || undefined) === (payment.facilityId || undefined) &&
+      paymentDate >= parseISO(h.fromDate) &&
+      paymentDate <= parseISO(h.toDate)
+    );
+    if (!holiday) return payment;
+
+    if (holiday.type === 'subvention') {
+      return { ...payment, subvented: true, description: `${payment.description} (subvention)` };
+    }
+    return {
+      ...payment,
+      deferredTo: holiday.toDate,
+      description: `${payment.description} (deferred to ${format(parseISO(holiday.toDate), 'dd MMM yyyy')})`
+    };
+  });
+};
+
 // Helper function to convert month number to date
 const monthToDate = (month: number): Date => {
   const year = Math.floor(month / 12);
@@ -159,74 +432,114 @@ const createInterestDescription = (startPrincipal: number, payments: Payment[],
  * @param monthStartDate First day of the month
  * @param startingPrincipal Principal at the start of the month
  * @param monthPayments Payments occurring in this month
- * @param monthlyRate Monthly interest rate (decimal)
- * @returns Object with total interest and description
+ * @param startingAnnualRate Annual rate (%) in force on the first day of the month
+ * @param rateChanges Rate changes taking effect after the first day of the month
+ * @param dayCountConvention How days are converted into a share of the annual rate
+ * @param restPeriod With monthly/annual rests, repayments don't reduce the balance within the month
+ * @returns Object with total interest, description and per-period breakdown
  */
 function calculateProRatedMonthlyInterest(
   monthStartDate: Date,
   startingPrincipal: number,
   monthPayments: Payment[],
-  monthlyRate: number
-): { totalInterest: number; description: string } {
-  // Filter payments that affect principal
+  startingAnnualRate: number,
+  rateChanges: RateChange[] = [],
+  dayCountConvention: DayCountConvention = 'monthly',
+  restPeriod: RestPeriod = 'daily'
+): { totalInterest: number; description: string; breakdown: InterestBreakdownItem[] } {
+  // Filter payments that affect principal within the month
   const principalAffectingPayments = monthPayments.filter(p => 
-    p.type === 'drawdown' || p.type === 'repayment'
+    p.type === 'drawdown' || (p.type === 'repayment' && restPeriod === 'daily')
   );
   
-  // If no payments affect principal, use simple monthly calculation
-  if (principalAffectingPayments.length === 0) {
-    const totalInterest = startingPrincipal * monthlyRate;
-    const description = `Monthly Interest @ ${(monthlyRate * 12 * 100).toFixed(1)}% on principal of ₹${formatIndianCurrency(startingPrincipal)}`;
-    return { totalInterest, description };
-  }
-  
   // Get the last day of the month
   const monthEndDate = new Date(monthStartDate.getFullYear(), monthStartDate.getMonth() + 1, 0);
   const daysInMonth = monthEndDate.getDate();
+  const isMonthlyBasis = dayCountConvention === 'monthly';
   
-  // Daily interest rate (monthly rate divided by actual days in month)
-  const dailyRate = monthlyRate / daysInMonth;
+  // If nothing changes during the month, use simple monthly calculation
+  if (isMonthlyBasis && principalAffectingPayments.length === 0 && rateChanges.length === 0) {
+    const monthlyRate = startingAnnualRate / 100 / 12;
+    const totalInterest = startingPrincipal * monthlyRate;
+    const description = `Monthly Interest @ ${startingAnnualRate.toFixed(1)}% on principal of ₹${formatIndianCurrency(startingPrincipal)}`;
+    const breakdown: InterestBreakdownItem[] = startingPrincipal > 0 ? [{
+      fromDate: toIsoDate(monthStartDate),
+      toDate: toIsoDate(monthEndDate),
+      days: daysInMonth,
+      principal: startingPrincipal,
+      rate: startingAnnualRate,
+      interest: totalInterest
+    }] : [];
+    return { totalInterest, description, breakdown };
+  }
+  
+  const midMonth = new Date(monthStartDate.getFullYear(), monthStartDate.getMonth(), 15);
   
   // Sort payments by date within the month
   const sortedMonthPayments = [...principalAffectingPayments].sort((a, b) => {
-    const dateA = a.date ? new Date(a.date) : new Date(monthStartDate.getFullYear(), monthStartDate.getMonth(), 15);
-    const dateB = b.date ? new Date(b.date) : new Date(monthStartDate.getFullYear(), monthStartDate.getMonth(), 15);
+    const dateA = a.date ? new Date(a.date) : midMonth;
+    const dateB = b.date ? new Date(b.date) : midMonth;
     return dateA.getTime() - dateB.getTime();
   });
   
+  // Merge principal movements and rate changes into one timeline
+  // (fixed day-count conventions work on whole calendar days)
+  const toEventDate = (date: Date) => isMonthlyBasis ? date : startOfDay(date);
+  const events: Array<{ date: Date; payment?: Payment; rateChange?: RateChange }> = [
+    ...sortedMonthPayments.map(payment => ({ date: toEventDate(payment.date ? new Date(payment.date) : midMonth), payment })),
+    ...rateChanges.map(rateChange => ({ date: parseISO(rateChange.effectiveFrom), rateChange }))
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+  
   let currentPrincipal = startingPrincipal;
+  let currentRate = startingAnnualRate;
   let totalInterest = 0;
   let lastCalculatedDate = new Date(monthStartDate);
+  const breakdown: InterestBreakdownItem[] = [];
+  const daysAtRate: Array<{ rate: number; days: number }> = [{ rate: currentRate, days: 0 }];
   
-  // Process each payment in the month
-  for (const payment of sortedMonthPayments) {
-    const paymentDate = payment.date ? new Date(payment.date) : new Date(monthStartDate.getFullYear(), monthStartDate.getMonth(), 15);
-    
-    // Calculate interest from last calculated date to payment date
-    const daysElapsed = Math.max(0, Math.ceil((paymentDate.getTime() - lastCalculatedDate.getTime()) / (1000 * 60 * 60 * 24)));
+  // Accrue interest from the last calculated date up to the given date
+  const accrueUntil = (date: Date) => {
+    const daysElapsed = isMonthlyBasis
+      ? Math.max(0, Math.ceil((date.getTime() - lastCalculatedDate.getTime()) / MS_PER_DAY))
+      : Math.max(0, countDays(lastCalculatedDate, date, dayCountConvention));
+    daysAtRate[daysAtRate.length - 1].days += daysElapsed;
     
     if (daysElapsed > 0 && currentPrincipal > 0) {
-      const periodInterest = currentPrincipal * dailyRate * daysElapsed;
+      const periodInterest = isMonthlyBasis
+        ? currentPrincipal * ((currentRate / 100 / 12) / daysInMonth) * daysElapsed
+        : currentPrincipal * (currentRate / 100) * getYearFraction(lastCalculatedDate, date, dayCountConvention);
       totalInterest += periodInterest;
+      breakdown.push({
+        fromDate: toIsoDate(lastCalculatedDate),
+        toDate: toIsoDate(date),
+        days: daysElapsed,
+        principal: currentPrincipal,
+        rate: currentRate,
+        interest: periodInterest
+      });
     }
+  };
+  
+  // Process each event in the month
+  for (const event of events) {
+    accrueUntil(event.date);
     
-    // Update principal based on payment type
-    if (payment.type === 'drawdown') {
-      currentPrincipal += Math.abs(payment.amount);
-    } else if (payment.type === 'repayment') {
-      currentPrincipal -= Math.abs(payment.amount);
+    if (event.rateChange) {
+      currentRate = event.rateChange.annualRate;
+      daysAtRate.push({ rate: currentRate, days: 0 });
+    } else if (event.payment?.type === 'drawdown') {
+      currentPrincipal += Math.abs(event.payment.amount);
+    } else if (event.payment?.type === 'repayment') {
+      currentPrincipal -= Math.abs(event.payment.amount);
       currentPrincipal = Math.max(0, currentPrincipal);
     }
     
-    lastCalculatedDate = new Date(paymentDate);
+    lastCalculatedDate = new Date(event.date);
   }
   
   // Calculate interest for remaining days in the month
-  const remainingDays = Math.max(0, Math.ceil((monthEndDate.getTime() - lastCalculatedDate.getTime()) / (1000 * 60 * 60 * 24)));
-  if (remainingDays > 0 && currentPrincipal > 0) {
-    const periodInterest = currentPrincipal * dailyRate * remainingDays;
-    totalInterest += periodInterest;
-  }
+  // (fixed conventions run to the 1st of next month so the last day is charged)
+  accrueUntil(isMonthlyBasis ? monthEndDate : new Date(monthStartDate.getFullYear(), monthStartDate.getMonth() + 1, 1));
   
   // Create description based on the calculation
   let description = '';
@@ -237,17 +550,27 @@ function calculateProRatedMonthlyInterest(
     p.type === 'repayment' && Math.abs(p.amount) >= startingPrincipal
   );
   
-  if (payoffPayment && startingPrincipal > 0) {
-    const payoffDate = payoffPayment.date ? new Date(payoffPayment.date) : new Date(monthStartDate.getFullYear(), monthStartDate.getMonth(), 15);
-    const daysOutstanding = Math.ceil((payoffDate.getTime() - monthStartDate.getTime()) / (1000 * 60 * 60 * 24)) + 1; // Include the payoff day
-    description = `Prorated Interest @ ${(monthlyRate * 12 * 100).toFixed(1)}% on ₹${formatIndianCurrency(startingPrincipal)} for ${daysOutstanding} days in ${monthName}`;
+  if (rateChanges.length > 0) {
+    const ratePeriods = daysAtRate
+      .filter(period => period.days > 0)
+      .map(period => `${period.rate.toFixed(1)}% for ${period.days} days`)
+      .join(', ');
+    description = `Prorated Interest for ${monthName}: ${ratePeriods}`;
+  } else if (payoffPayment && startingPrincipal > 0) {
+    const payoffDate = payoffPayment.date ? new Date(payoffPayment.date) : midMonth;
+    const daysOutstanding = Math.ceil((payoffDate.getTime() - monthStartDate.getTime()) / MS_PER_DAY) + 1; // Include the payoff day
+    description = `Prorated Interest @ ${startingAnnualRate.toFixed(1)}% on ₹${formatIndianCurrency(startingPrincipal)} for ${daysOutstanding} days in ${monthName}`;
   } else {
-    description = `Prorated Interest @ ${(monthlyRate * 12 * 100).toFixed(1)}% for ${monthName} (calculated daily)`;
+    const basis = isMonthlyBasis ? 'calculated daily' : `${dayCountConvention.toUpperCase()} day count`;
+    description = `Prorated Interest @ ${startingAnnualRate.toFixed(1)}% for ${monthName} (${basis})`;
   }
   
-  return { totalInterest, description };
+  return { totalInterest, description, breakdown };
 }
 
+// Helper function to format a date as an ISO calendar date (yyyy-MM-dd)
+const toIsoDate = (date: Date): string => format(date, 'yyyy-MM-dd');
+
 // Helper function to format currency in Indian format
 const formatIndianCurrency = (amount: number): string => {
   return Math.abs(amount).toLocaleString('en-IN', { 
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { applyLoanCosts, calculateLoanCosts } from './loanCosts';
+import { calculateAnalysis } from './cashFlowAnalysis';
+import { Payment, ProjectData } from '@/types/project';
+
+describe('calculateLoanCosts', () => {
+  const payments: Payment[] = [
+    { id: 'd1', amount: 100000, type: 'drawdown', date: new Date(2025, 0, 10), month: 2025 * 12 },
+    { id: 'd2', amount: 100000, type: 'drawdown', date: new Date(2025, 5, 10), month: 2025 * 12 + 5 },
+    { id: 'd3', amount: 50000, type: 'drawdown', date: new Date(2025, 1, 1), month: 2025 * 12 + 1, facilityId: 'topup' },
+    { id: 'r1', amount: 40000, type: 'repayment', date: new Date(2025, 8, 1), month: 2025 * 12 + 8 },
+    { id: 's1', amount: 500000, type: 'return', date: new Date(2026, 0, 10), month: 2026 * 12 }
+  ];
+  const projectData = {
+    projectName: 'Test',
+    annualInterestRate: 9,
+    purchasePrice: 0,
+    closingCosts: 0,
+    payments,
+    rentalIncome: [],
+    loanCostRules: { processingFeePercent: 0.5, processingFeeFlat: 1000, prepaymentChargePercent: 2 },
+    loanFacilities: [
+      { id: 'topup', name: 'Top-up loan', annualRate: 10, costRules: { prepaymentChargePercent: 1 } }
+    ]
+  } as ProjectData;
+
+  it('should charge the processing fee on the first drawdown of each loan', () => {
+    const fees = calculateLoanCosts(payments, projectData).filter(p => p.costKind === 'processing-fee');
+
+    expect(fees).toHaveLength(1);
+    expect(fees[0].amount).toBeCloseTo(2000, 2); // 0.5% of 200000 + 1000
+    expect(new Date(fees[0].date!).getMonth()).toBe(0);
+    expect(fees[0].facilityId).toBeUndefined();
+  });
+
+  it('should charge prepayments and foreclosure on each facility at its own rate', () => {
+    const charges = calculateLoanCosts(payments, projectData).filter(p => p.costKind === 'prepayment-charge');
+
+    expect(charges.map(p => [p.facilityId, Math.round(p.amount)])).toEqual([
+      [undefined, 800], // 2% of the 40000 repayment
+      [undefined, 3200], // 2% of the remaining 160000 cleared by the sale
+      ['topup', 500] // 1% of the 50000 top-up
+    ]);
+    expect(charges.every(p => p.type === 'fee' && p.source === 'loan-cost')).toBe(true);
+  });
+
+  it('should charge penal interest on late EMIs', () => {
+    const emiPayments: Payment[] = [
+      ...payments,
+      { id: 'ei', amount: 600, type: 'interest', date: new Date(2025, 6, 5), month: 2025 * 12 + 6, source: 'emi' },
+      { id: 'ep', amount: 400, type: 'repayment', date: new Date(2025, 6, 5), month: 2025 * 12 + 6, source: 'emi' }
+    ];
+    const penal = calculateLoanCosts(emiPayments, {
+      ...projectData,
+      loanCostRules: { penalRate: 36.5 },
+      emi: {
+        enabled: true,
+        principal: 200000,
+        tenureMonths: 240,
+        startDate: '2025-07-05',
+        latePayments: [{ id: 'late1', emiDate: '2025-07-05', paidDate: '2025-07-15' }]
+      }
+    }).find(p => p.costKind === 'penal-interest')!;
+
+    expect(penal.amount).toBeCloseTo(10, 6); // 1000 × 36.5% × 10/365
+    expect(penal.id).toBe('loan-cost-penal-late1');
+  });
+
+  it('should replace generated fees but keep manual ones', () => {
+    const manualFee: Payment = { id: 'f1', amount: -5000, type: 'fee', date: new Date(2025, 0, 10), month: 2025 * 12 };
+    const once = applyLoanCosts([...payments, manualFee], projectData);
+    const twice = applyLoanCosts(once, projectData);
+
+    expect(twice).toHaveLength(once.length);
+    expect(twice.filter(p => p.type === 'fee')).toHaveLength(5);
+  });
+
+  it('should count fees in the investment', () => {
+    const withCosts = applyLoanCosts(payments, projectData);
+    const analysis = calculateAnalysis(withCosts, projectData);
+
+    expect(analysis.totalLoanCosts).toBeCloseTo(6500, 2);
+    expect(analysis.totalInvestment).toBeCloseTo(6500, 2);
+  });
+});
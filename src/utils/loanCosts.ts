@@ -0,0 +1,140 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { LoanCostKind, LoanCostRules, Payment, ProjectData } from '@/types/project';
+import { monthToDate } from '@/utils/paymentEntries';
+import {
+  getFacilityKey,
+  getReturnAllocation,
+  PRIMARY_FACILITY_ID,
+  processPaymentsWithLoanTracking
+} from '@/utils/loanTracker';
+
+export const LOAN_COST_LABELS: Record<LoanCostKind, string> = {
+  'processing-fee': 'Processing fee',
+  'prepayment-charge': 'Prepayment charge',
+  'penal-interest': 'Penal interest',
+  'other': 'Loan cost',
+};
+
+/**
+ * Fee rules of a loan: the primary loan's project-level rules or a facility's own
+ * @param facilityKey Facility id, or PRIMARY_FACILITY_ID
+ */
+export const getLoanCostRules = (projectData: ProjectData, facilityKey: string): LoanCostRules => {
+  if (facilityKey === PRIMARY_FACILITY_ID) return projectData.loanCostRules || {};
+  return projectData.loanFacilities?.find(facility => facility.id === facilityKey)?.costRules || {};
+};
+
+const toDate = (payment: Payment): Date => new Date(payment.date as Date | string);
+
+const createCostEntry = (
+  id: string,
+  kind: LoanCostKind,
+  amount: number,
+  date: Date,
+  facilityKey: string,
+  detail: string
+): Payment => ({
+  id,
+  month: date.getFullYear() * 12 + date.getMonth(),
+  amount,
+  type: 'fee',
+  date,
+  description: `${LOAN_COST_LABELS[kind]} (${detail})`,
+  costKind: kind,
+  source: 'loan-cost',
+  ...(facilityKey !== PRIMARY_FACILITY_ID ? { facilityId: facilityKey } : {})
+});
+
+/**
+ * Computes the fee entries that follow from each loan's cost rules:
+ * - a processing fee on the first drawdown, as a % of everything drawn plus any flat amount
+ * - a prepayment charge on principal repaid by anything other than an EMI (including foreclosure from a sale)
+ * - penal interest on EMIs recorded as paid late
+ * @param payments Entries with calculated interest and EMI rows
+ * @param projectData Project with the cost rules
+ * @returns Generated 'fee' entries (source 'loan-cost')
+ */
+export const calculateLoanCosts = (payments: Payment[], projectData: ProjectData): Payment[] => {
+  const costs: Payment[] = [];
+  const datedPayments = payments.filter(p => p.date && p.source !== 'loan-cost');
+
+  // Processing fees
+  const drawdownsByLoan = new Map<string, Payment[]>();
+  datedPayments
+    .filter(p => p.type === 'drawdown')
+    .sort((a, b) => toDate(a).getTime() - toDate(b).getTime())
+    .forEach(p => {
+      const key = getFacilityKey(p);
+      drawdownsByLoan.set(key, [...(drawdownsByLoan.get(key) || []), p]);
+    });
+  drawdownsByLoan.forEach((drawdowns, facilityKey) => {
+    const { processingFeePercent = 0, processingFeeFlat = 0 } = getLoanCostRules(projectData, facilityKey);
+    const totalDrawn = drawdowns.reduce((sum, p) => sum + Math.abs(p.amount), 0);
+    const fee = totalDrawn * processingFeePercent / 100 + processingFeeFlat;
+    if (fee <= 0) return;
+    const detail = processingFeePercent > 0 ? `${processingFeePercent}% of ₹${totalDrawn.toLocaleString('en-IN')}` : 'flat';
+    costs.push(createCostEntry(`loan-cost-processing-${facilityKey}`, 'processing-fee', fee, toDate(drawdowns[0]), facilityKey, detail));
+  });
+
+  // Prepayment and foreclosure charges on each facility the payment reduces
+  processPaymentsWithLoanTracking(datedPayments, getReturnAllocation(projectData.settings)).forEach(p => {
+    if (p.source === 'emi' || p.type === 'drawdown' || p.type === 'interest') return;
+    Object.entries(p.facilityAdjustments || {}).forEach(([facilityKey, prepaid]) => {
+      const { prepaymentChargePercent = 0 } = getLoanCostRules(projectData, facilityKey);
+      const charge = prepaid * prepaymentChargePercent / 100;
+      if (charge <= 0) return;
+      costs.push(createCostEntry(
+        `loan-cost-prepayment-${p.id}-${facilityKey}`,
+        'prepayment-charge',
+        charge,
+        toDate(p),
+        facilityKey,
+        `${prepaymentChargePercent}% of ₹${prepaid.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`
+      ));
+    });
+  });
+
+  // Penal interest on late EMIs
+  const emi = projectData.emi;
+  const emiFacilityKey = emi?.facilityId || PRIMARY_FACILITY_ID;
+  const { penalRate = 0 } = getLoanCostRules(projectData, emiFacilityKey);
+  if (emi?.enabled && penalRate > 0) {
+    (emi.latePayments || []).forEach(late => {
+      const dueDate = parseISO(late.emiDate);
+      const paidDate = parseISO(late.paidDate);
+      const daysLate = differenceInCalendarDays(paidDate, dueDate);
+      if (isNaN(daysLate) || daysLate <= 0) return;
+
+      const emiAmount = datedPayments
+        .filter(p => p.source === 'emi' && getFacilityKey(p) === emiFacilityKey)
+        .filter(p => format(toDate(p), 'yyyy-MM') === format(dueDate, 'yyyy-MM'))
+        .reduce((sum, p) => sum + Math.abs(p.amount), 0);
+      const charge = emiAmount * penalRate / 100 * daysLate / 365;
+      if (charge <= 0) return;
+      costs.push(createCostEntry(
+        `loan-cost-penal-${late.id}`,
+        'penal-interest',
+        charge,
+        paidDate,
+        emiFacilityKey,
+        `${format(dueDate, 'MMM yyyy')} EMI, ${daysLate} days late @ ${penalRate}%`
+      ));
+    });
+  }
+
+  return costs;
+};
+
+/**
+ * Replaces previously generated fee entries with ones computed from the current entries and rules
+ * (manually entered fees are kept)
+ * @returns Entries sorted by date
+ */
+export const applyLoanCosts = (payments: Payment[], projectData: ProjectData): Payment[] => {
+  const basePayments = payments.filter(p => p.source !== 'loan-cost');
+  return [...basePayments, ...calculateLoanCosts(basePayments, projectData)].sort((a, b) => {
+    const dateA = a.date ? new Date(a.date) : monthToDate(a.month);
+    const dateB = b.date ? new Date(b.date) : monthToDate(b.month);
+    return dateA.getTime() - dateB.getTime();
+  });
+};
@@ -1,6 +1,17 @@
 import { describe, it, expect, vi } from 'vitest';
-import { calculateLoanBalance, processPaymentsWithLoanTracking, getIRRCashFlows } from './loanTracker';
-import { Payment } from '@/types/project';
+import { format } from 'date-fns';
+import {
+  allocateReturn,
+  calculateFacilityBalances,
+  calculateLoanBalance,
+  processPaymentsWithLoanTracking,
+  getIRRCashFlows,
+  getUnleveredCashFlows,
+  getDebtCashFlows,
+  PRIMARY_FACILITY_ID
+} from './loanTracker';
+import { calculateLeverageAnalysis } from './cashFlowAnalysis';
+import { Payment, ProjectData } from '@/types/project';
 
 describe('calculateLoanBalance', () => {
   it('should calculate outstanding balance with only drawdowns', () => {
@@ -534,4 +545,210 @@ describe('getIRRCashFlows', () => {
     // Should maintain chronological order
     expect(new Date(cashFlows[0].date).getTime()).toBeLessThan(new Date(cashFlows[1].date).getTime());
   });
-}); 
\ No newline at end of file
+}); 
+describe('capitalised interest', () => {
+  const payments: Payment[] = [
+    {
+      id: '1',
+      amount: 100000,
+      type: 'drawdown',
+      date: new Date('2025-01-01'),
+      month: 0,
+      description: 'Drawdown',
+    },
+    {
+      id: '2',
+      amount: 1000,
+      type: 'interest',
+      date: new Date('2025-01-31'),
+      month: 0,
+      description: 'Capitalised interest',
+      capitalised: true,
+    },
+    {
+      id: '3',
+      amount: 1010,
+      type: 'interest',
+      date: new Date('2025-02-28'),
+      month: 1,
+      description: 'Paid interest',
+    },
+    {
+      id: '4',
+      amount: 150000,
+      type: 'return',
+      date: new Date('2025-03-15'),
+      month: 2,
+      description: 'Sale',
+    }
+  ];
+
+  it('should add capitalised interest to the outstanding balance', () => {
+    const result = calculateLoanBalance(payments, 3);
+
+    expect(result.totalCapitalised).toBe(1000);
+    expect(result.outstanding).toBe(101000);
+  });
+
+  it('should repay capitalised interest from returns', () => {
+    const processed = processPaymentsWithLoanTracking(payments, true);
+    const sale = processed.find(p => p.id === '4')!;
+
+    expect(processed.find(p => p.id === '2')!.runningLoanBalance).toBe(101000);
+    expect(sale.calculatedLoanAdjustment).toBe(101000);
+    expect(sale.calculatedNetReturn).toBe(49000);
+  });
+
+  it('should exclude capitalised interest from investor cash flows', () => {
+    const cashFlows = getIRRCashFlows(processPaymentsWithLoanTracking(payments, true));
+
+    expect(cashFlows.map(cf => cf.amount)).toEqual([-1010, 49000]);
+  });
+});
+
+describe('loan facilities', () => {
+  const payments: Payment[] = [
+    { id: '1', amount: 100000, type: 'drawdown', date: new Date('2025-01-01'), month: 0 },
+    { id: '2', amount: 50000, type: 'drawdown', date: new Date('2025-02-01'), month: 1, facilityId: 'topup' },
+    { id: '3', amount: 80000, type: 'repayment', date: new Date('2025-03-01'), month: 2, facilityId: 'topup' },
+    { id: '4', amount: 120000, type: 'return', date: new Date('2025-04-01'), month: 3 }
+  ];
+
+  it('should limit a tagged repayment to its facility balance', () => {
+    const processed = processPaymentsWithLoanTracking(payments);
+    expect(processed[2].calculatedLoanAdjustment).toBe(50000);
+    expect(processed[2].calculatedNetReturn).toBe(30000);
+    expect(processed[2].facilityAdjustments).toEqual({ topup: 50000 });
+    expect(processed[2].facilityBalances).toEqual({ [PRIMARY_FACILITY_ID]: 100000, topup: 0 });
+  });
+
+  it('should split untagged returns across facilities in draw order', () => {
+    const processed = processPaymentsWithLoanTracking([
+      payments[0],
+      payments[1],
+      { ...payments[3], amount: 120000 }
+    ]);
+    expect(processed[2].facilityAdjustments).toEqual({ [PRIMARY_FACILITY_ID]: 100000, topup: 20000 });
+    expect(processed[2].runningLoanBalance).toBe(30000);
+  });
+
+  it('should report balances per facility before a payment', () => {
+    expect(calculateFacilityBalances(payments, 2)).toEqual({ [PRIMARY_FACILITY_ID]: 100000, topup: 50000 });
+    expect(calculateFacilityBalances([])).toEqual({});
+  });
+});
+
+describe('interest holidays', () => {
+  const payments: Payment[] = [
+    { id: '1', amount: 50000, type: 'payment', date: new Date('2025-01-01'), month: 0, description: 'Booking' },
+    { id: '2', amount: 1000, type: 'interest', date: new Date('2025-01-31'), month: 0, subvented: true },
+    { id: '3', amount: 1000, type: 'interest', date: new Date('2025-02-28'), month: 1, deferredTo: '2025-06-30' },
+    { id: '4', amount: 80000, type: 'return', date: new Date('2025-12-31'), month: 11, description: 'Sale' }
+  ];
+
+  it('should exclude subvented interest and move deferred interest to the moratorium end', () => {
+    const cashFlows = getIRRCashFlows(processPaymentsWithLoanTracking(payments, true));
+
+    expect(cashFlows.map(cf => cf.amount)).toEqual([-50000, -1000, 80000]);
+    expect(format(cashFlows[1].date, 'yyyy-MM-dd')).toBe('2025-06-30');
+  });
+});
+
+describe('loan costs', () => {
+  it('should count fees as investor outflows without moving the balance', () => {
+    const payments: Payment[] = [
+      { id: '1', amount: 100000, type: 'drawdown', date: new Date('2025-01-01'), month: 0 },
+      { id: '2', amount: 1500, type: 'fee', date: new Date('2025-01-01'), month: 0, costKind: 'processing-fee' },
+      { id: '3', amount: 150000, type: 'return', date: new Date('2025-12-31'), month: 11 }
+    ];
+    const processed = processPaymentsWithLoanTracking(payments, true);
+
+    expect(processed.find(p => p.id === '2')!.runningLoanBalance).toBe(100000);
+    expect(getIRRCashFlows(processed).map(cf => cf.amount)).toEqual([-1500, 50000]);
+  });
+});
+
+describe('return allocation strategies', () => {
+  const payments: Payment[] = [
+    { id: '1', amount: 60000, type: 'drawdown', date: new Date('2025-01-01'), month: 0 },
+    { id: '2', amount: 40000, type: 'drawdown', date: new Date('2025-01-01'), month: 0, facilityId: 'topup' },
+    { id: '3', amount: 50000, type: 'return', date: new Date('2025-06-01'), month: 5 }
+  ];
+  const saleSplit = (allocation: Parameters<typeof processPaymentsWithLoanTracking>[1]) => {
+    const sale = processPaymentsWithLoanTracking(payments, allocation).find(p => p.id === '3')!;
+    return [sale.calculatedLoanAdjustment, sale.calculatedNetReturn];
+  };
+
+  it('should apply a fixed percentage of each return', () => {
+    expect(saleSplit({ strategy: 'percentage', percentage: 40 })).toEqual([20000, 30000]);
+  });
+
+  it('should keep a cash buffer before repaying', () => {
+    expect(saleSplit({ strategy: 'cash-buffer', cashBuffer: 15000 })).toEqual([35000, 15000]);
+  });
+
+  it('should route returns to a specific facility', () => {
+    const sale = processPaymentsWithLoanTracking(payments, { strategy: 'facility', facilityId: 'topup' })
+      .find(p => p.id === '3')!;
+
+    expect(sale.calculatedLoanAdjustment).toBe(40000);
+    expect(sale.facilityAdjustments).toEqual({ topup: 40000 });
+    expect(sale.facilityBalances).toEqual({ [PRIMARY_FACILITY_ID]: 60000, topup: 0 });
+  });
+
+  it('should keep returns out of the loan with no strategy and follow booleans as before', () => {
+    expect(saleSplit({ strategy: 'none' })).toEqual([0, 50000]);
+    expect(saleSplit(false)).toEqual([0, 50000]);
+    expect(saleSplit(true)).toEqual([50000, 0]);
+  });
+
+  it('should carry the net return into the XIRR flows', () => {
+    const cashFlows = getIRRCashFlows(processPaymentsWithLoanTracking(payments, { strategy: 'percentage', percentage: 40 }));
+    expect(cashFlows.map(cf => cf.amount)).toEqual([30000]);
+  });
+
+  it('should never allocate more than is outstanding', () => {
+    expect(allocateReturn(50000, { primary: 10000 }, { strategy: 'cash-buffer', cashBuffer: 5000 })).toBe(10000);
+    expect(allocateReturn(50000, { primary: 10000 }, { strategy: 'facility', facilityId: 'topup' })).toBe(0);
+  });
+});
+
+describe('levered and unlevered cash flows', () => {
+  const payments: Payment[] = [
+    { id: 'p1', amount: 20000, type: 'payment', date: new Date(2024, 0, 1), month: 2024 * 12 },
+    { id: 'd1', amount: 80000, type: 'drawdown', date: new Date(2024, 0, 1), month: 2024 * 12 },
+    { id: 'f1', amount: -800, type: 'fee', date: new Date(2024, 0, 1), month: 2024 * 12, costKind: 'processing-fee' },
+    { id: 'i1', amount: 7200, type: 'interest', date: new Date(2024, 11, 31), month: 2024 * 12 + 11 },
+    { id: 'r1', amount: 120000, type: 'return', date: new Date(2025, 0, 1), month: 2025 * 12 }
+  ];
+  const sum = (cashFlows: Array<{ amount: number }>) => cashFlows.reduce((total, cf) => total + cf.amount, 0);
+
+  it('should count loan-funded costs and gross returns in the unlevered flows', () => {
+    const unlevered = getUnleveredCashFlows(processPaymentsWithLoanTracking(payments));
+    expect(unlevered.map(cf => cf.amount)).toEqual([-20000, -80000, 120000]);
+  });
+
+  it('should split the levered flows into property and debt flows', () => {
+    const processed = processPaymentsWithLoanTracking(payments);
+    const debt = getDebtCashFlows(processed);
+
+    expect(debt.map(cf => cf.amount)).toEqual([80000, -800, -7200, -80000]);
+    expect(sum(getUnleveredCashFlows(processed)) + sum(debt)).toBeCloseTo(sum(getIRRCashFlows(processed)), 6);
+  });
+
+  it('should repay an outstanding balance on the last entry date', () => {
+    const debt = getDebtCashFlows(processPaymentsWithLoanTracking(payments.slice(0, 4)));
+    expect(debt[debt.length - 1]).toEqual({ date: new Date(2024, 11, 31), amount: -80000 });
+  });
+
+  it('should compare levered and unlevered XIRR with the cost of debt', () => {
+    const analysis = calculateLeverageAnalysis(payments, { payments, rentalIncome: [] } as ProjectData);
+
+    expect(analysis.unlevered.rate).toBeCloseTo((Math.pow(1.2, 365 / 366) - 1) * 100, 6);
+    // Borrowing at about 10% to earn 20% lifts the equity return
+    expect(analysis.costOfDebt.rate).toBeGreaterThan(9);
+    expect(analysis.costOfDebt.rate).toBeLessThan(11);
+    expect(analysis.spread).toBeCloseTo((analysis.levered.rate as number) - (analysis.unlevered.rate as number), 10);
+    expect(analysis.spread).toBeGreaterThan(0);
+  });
+});
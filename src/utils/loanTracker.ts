@@ -1,15 +1,94 @@
-import { Payment } from '@/types/project';
+import { parseISO } from 'date-fns';
+import { LoanFacility, Payment, ProjectSettings, ReturnAllocation, ReturnAllocationStrategy } from '@/types/project';
 
 export interface LoanBalance {
   outstanding: number;
   totalDrawn: number;
   totalRepaid: number;
+  totalCapitalised: number;
 }
 
 export interface ProcessedPayment extends Payment {
   calculatedLoanAdjustment: number;
   calculatedNetReturn: number;
   runningLoanBalance: number;
+  facilityAdjustments?: Record<string, number>; // Loan adjustment split by facility
+  facilityBalances?: Record<string, number>; // Outstanding balance of each facility after this payment
+}
+
+// Balance key of entries that aren't tagged to a loan facility
+export const PRIMARY_FACILITY_ID = 'primary';
+
+/**
+ * Returns the facility whose balance a payment moves
+ */
+export const getFacilityKey = (payment: Payment): string => payment.facilityId || PRIMARY_FACILITY_ID;
+
+/**
+ * Display name of a facility balance key
+ */
+export const getFacilityName = (facilityKey: string, facilities: LoanFacility[] = []): string => {
+  if (facilityKey === PRIMARY_FACILITY_ID) return 'Primary loan';
+  return facilities.find(facility => facility.id === facilityKey)?.name || 'Removed facility';
+};
+
+export const RETURN_ALLOCATION_LABELS: Record<ReturnAllocationStrategy, string> = {
+  'full': 'Repay the loan in full first',
+  'percentage': 'Fixed percentage to the loan',
+  'cash-buffer': 'Keep a minimum cash buffer',
+  'facility': 'Repay a specific facility',
+  'none': 'Keep all returns',
+};
+
+/**
+ * Return allocation of a project (full auto-repay unless the legacy switch turned it off)
+ */
+export const getReturnAllocation = (settings?: ProjectSettings): ReturnAllocation =>
+  settings?.returnAllocation || { strategy: settings?.autoRepayInflow === false ? 'none' : 'full' };
+
+/**
+ * One-line description of a return allocation
+ */
+export const describeReturnAllocation = (allocation: ReturnAllocation, facilities: LoanFacility[] = []): string => {
+  switch (allocation.strategy) {
+    case 'percentage':
+      return `${allocation.percentage ?? 100}% of each return to the loan`;
+    case 'cash-buffer':
+      return `Keep ₹${(allocation.cashBuffer || 0).toLocaleString('en-IN')} of each return, rest to the loan`;
+    case 'facility':
+      return `Returns repay ${getFacilityName(allocation.facilityId || PRIMARY_FACILITY_ID, facilities)}`;
+    default:
+      return RETURN_ALLOCATION_LABELS[allocation.strategy];
+  }
+};
+
+/**
+ * Amount of a return that an allocation strategy applies to the loan
+ * @param amount Return amount
+ * @param facilityBalances Outstanding balance of each facility before the return
+ * @param allocation Project's return allocation
+ */
+export function allocateReturn(
+  amount: number,
+  facilityBalances: Record<string, number>,
+  allocation: ReturnAllocation
+): number {
+  const outstanding = Object.values(facilityBalances).reduce((sum, balance) => sum + balance, 0);
+
+  switch (allocation.strategy) {
+    case 'none':
+      return 0;
+    case 'percentage': {
+      const percentage = Math.min(100, Math.max(0, allocation.percentage ?? 100));
+      return Math.min(amount * percentage / 100, outstanding);
+    }
+    case 'cash-buffer':
+      return Math.min(Math.max(0, amount - (allocation.cashBuffer || 0)), outstanding);
+    case 'facility':
+      return Math.min(amount, facilityBalances[allocation.facilityId || PRIMARY_FACILITY_ID] || 0);
+    default:
+      return Math.min(amount, outstanding);
+  }
 }
 
 /**
@@ -22,6 +101,7 @@ export function calculateLoanBalance(payments: Payment[], upToIndex?: number): L
   const endIndex = upToIndex ?? payments.length;
   let totalDrawn = 0;
   let totalRepaid = 0;
+  let totalCapitalised = 0;
 
   for (let i = 0; i < endIndex; i++) {
     const payment = payments[i];
@@ -47,29 +127,57 @@ export function calculateLoanBalance(payments: Payment[], upToIndex?: number): L
           totalRepaid += Math.abs(payment.loanAdjustment);
         }
         break;
-      // Interest doesn't affect principal balance
+      case 'interest':
+        // Only capitalised interest is added to the principal balance
+        if (payment.capitalised) {
+          totalCapitalised += Math.abs(payment.amount);
+        }
+        break;
     }
   }
 
-  const outstanding = Math.max(0, totalDrawn - totalRepaid);
+  const outstanding = Math.max(0, totalDrawn + totalCapitalised - totalRepaid);
   
   return {
     outstanding,
     totalDrawn,
-    totalRepaid
+    totalRepaid,
+    totalCapitalised
   };
 }
 
+/**
+ * Calculates the outstanding balance of each loan facility before a payment
+ * @param payments Array of payments
+ * @param upToIndex Calculate balances up to this payment index (exclusive)
+ * @param returnAllocation How returns repay the loan
+ * @returns Outstanding balance keyed by facility id (PRIMARY_FACILITY_ID for untagged entries)
+ */
+export function calculateFacilityBalances(
+  payments: Payment[],
+  upToIndex?: number,
+  returnAllocation: boolean | ReturnAllocation = true
+): Record<string, number> {
+  const processed = processPaymentsWithLoanTracking(payments.slice(0, upToIndex ?? payments.length), returnAllocation);
+  return processed.length > 0 ? processed[processed.length - 1].facilityBalances || {} : {};
+}
+
 /**
  * Processes payments to calculate loan adjustments and net returns
  * @param payments Array of payments
- * @param autoApplyReturnsToLoan Whether to automatically apply returns to outstanding loan
+ * @param returnAllocation How returns repay the outstanding loan (true/false for full auto-repay or none)
  * @returns Array of processed payments with calculated loan adjustments
  */
 export function processPaymentsWithLoanTracking(
   payments: Payment[], 
-  autoApplyReturnsToLoan: boolean = true
+  returnAllocation: boolean | ReturnAllocation = true
 ): ProcessedPayment[] {
+  const allocation: ReturnAllocation = typeof returnAllocation === 'boolean'
+    ? { strategy: returnAllocation ? 'full' : 'none' }
+    : returnAllocation;
+  // Returns routed to a facility repay it before any other
+  const preferredFacility = allocation.strategy === 'facility' ? allocation.facilityId || PRIMARY_FACILITY_ID : undefined;
+
   // Sort payments by date
   const sortedPayments = [...payments].sort((a, b) => {
     const dateA = a.date ? new Date(a.date).getTime() : new Date(2024, 0, 1).getTime() + (a.month * 30 * 24 * 60 * 60 * 1000);
@@ -79,31 +187,69 @@ export function processPaymentsWithLoanTracking(
 
   const processedPayments: ProcessedPayment[] = [];
   let runningBalance = 0;
+  // Outstanding balance per facility, in the order the facilities were first drawn
+  const facilityBalances = new Map<string, number>();
+  
+  // Pays down facilities in draw order (a preferred facility first) until the amount is used up; returns the split
+  const applyToFacilities = (amount: number, preferredKey?: string): Record<string, number> => {
+    const adjustments: Record<string, number> = {};
+    let remaining = amount;
+    const facilityKeys = [...facilityBalances.keys()];
+    if (preferredKey && facilityBalances.has(preferredKey)) {
+      facilityKeys.sort((a, b) => Number(b === preferredKey) - Number(a === preferredKey));
+    }
+    facilityKeys.forEach(facilityKey => {
+      const balance = facilityBalances.get(facilityKey) || 0;
+      const applied = Math.min(remaining, balance);
+      if (applied <= 0) return;
+      facilityBalances.set(facilityKey, balance - applied);
+      adjustments[facilityKey] = applied;
+      remaining -= applied;
+    });
+    // Adjustments beyond the tracked balances (explicit overrides) stay on the primary loan
+    if (remaining > 0) {
+      adjustments[PRIMARY_FACILITY_ID] = (adjustments[PRIMARY_FACILITY_ID] || 0) + remaining;
+    }
+    return adjustments;
+  };
   
   sortedPayments.forEach((payment, index) => {
     let calculatedLoanAdjustment = 0;
     let calculatedNetReturn = 0;
+    let facilityAdjustments: Record<string, number> = {};
+    const facilityKey = getFacilityKey(payment);
+    const facilityBalance = facilityBalances.get(facilityKey) || 0;
     
     switch (payment.type) {
       case 'drawdown':
         // Drawdowns increase the balance
         runningBalance += Math.abs(payment.amount);
+        facilityBalances.set(facilityKey, facilityBalance + Math.abs(payment.amount));
         break;
         
       case 'repayment':
-        // Full repayment amount goes to loan first
-        calculatedLoanAdjustment = Math.min(Math.abs(payment.amount), runningBalance);
-        calculatedNetReturn = Math.max(0, Math.abs(payment.amount) - runningBalance);
-        runningBalance = Math.max(0, runningBalance - Math.abs(payment.amount));
+        // Full repayment amount goes to its facility first
+        calculatedLoanAdjustment = Math.min(Math.abs(payment.amount), facilityBalance);
+        // EMI principal is paid from pocket, so it never produces a return
+        calculatedNetReturn = payment.source === 'emi' ? 0 : Math.max(0, Math.abs(payment.amount) - facilityBalance);
+        runningBalance = Math.max(0, runningBalance - calculatedLoanAdjustment);
+        if (calculatedLoanAdjustment > 0) {
+          facilityBalances.set(facilityKey, facilityBalance - calculatedLoanAdjustment);
+          facilityAdjustments = { [facilityKey]: calculatedLoanAdjustment };
+        }
         break;
         
       case 'return':
-        if (autoApplyReturnsToLoan && runningBalance > 0) {
-          // Use explicit loanAdjustment if provided, otherwise auto-calculate
+        if (allocation.strategy !== 'none' && runningBalance > 0) {
+          // Use explicit loanAdjustment if provided, otherwise follow the allocation strategy
           if (payment.loanAdjustment !== undefined) {
             calculatedLoanAdjustment = Math.min(payment.loanAdjustment, runningBalance);
           } else {
-            calculatedLoanAdjustment = Math.min(Math.abs(payment.amount), runningBalance);
+            calculatedLoanAdjustment = allocateReturn(
+              Math.abs(payment.amount),
+              Object.fromEntries(facilityBalances),
+              allocation
+            );
           }
           calculatedNetReturn = Math.abs(payment.amount) - calculatedLoanAdjustment;
           runningBalance = Math.max(0, runningBalance - calculatedLoanAdjustment);
@@ -113,6 +259,7 @@ export function processPaymentsWithLoanTracking(
           calculatedNetReturn = payment.netReturn ?? (Math.abs(payment.amount) - calculatedLoanAdjustment);
           runningBalance = Math.max(0, runningBalance - calculatedLoanAdjustment);
         }
+        facilityAdjustments = applyToFacilities(calculatedLoanAdjustment, preferredFacility);
         break;
         
       case 'payment':
@@ -120,10 +267,19 @@ export function processPaymentsWithLoanTracking(
         calculatedLoanAdjustment = payment.loanAdjustment || 0;
         calculatedNetReturn = 0; // Payments don't generate returns
         runningBalance = Math.max(0, runningBalance - calculatedLoanAdjustment);
+        facilityAdjustments = applyToFacilities(calculatedLoanAdjustment);
         break;
         
       case 'interest':
-        // Interest doesn't affect loan balance or generate returns
+        // Capitalised interest increases the balance; paid interest doesn't affect it
+        if (payment.capitalised) {
+          runningBalance += Math.abs(payment.amount);
+          facilityBalances.set(facilityKey, facilityBalance + Math.abs(payment.amount));
+        }
+        break;
+        
+      case 'fee':
+        // Loan fees and charges are paid in cash and don't move the balance
         break;
         
       default:
@@ -131,13 +287,16 @@ export function processPaymentsWithLoanTracking(
         calculatedLoanAdjustment = payment.loanAdjustment || 0;
         calculatedNetReturn = payment.netReturn || 0;
         runningBalance = Math.max(0, runningBalance - calculatedLoanAdjustment);
+        facilityAdjustments = applyToFacilities(calculatedLoanAdjustment);
     }
     
     processedPayments.push({
       ...payment,
       calculatedLoanAdjustment,
       calculatedNetReturn,
-      runningLoanBalance: runningBalance
+      runningLoanBalance: runningBalance,
+      facilityAdjustments,
+      facilityBalances: Object.fromEntries(facilityBalances)
     });
   });
   
@@ -180,6 +339,14 @@ export function getIRRCashFlows(processedPayments: ProcessedPayment[]): Array<{d
         break;
         
       case 'repayment':
+        // EMI principal comes out of the investor's pocket
+        if (payment.source === 'emi') {
+          cashFlows.push({
+            date: paymentDate,
+            amount: -Math.abs(payment.amount)
+          });
+          break;
+        }
         // Repayments: only the net return portion (after loan adjustment) counts as positive cash flow
         if (payment.calculatedNetReturn > 0) {
           cashFlows.push({
@@ -190,7 +357,23 @@ export function getIRRCashFlows(processedPayments: ProcessedPayment[]): Array<{d
         break;
         
       case 'interest':
-        // Interest payments are negative cash flows (money going out)
+        // Capitalised interest is added to the loan, so the investor pays it later through repayments
+        if (payment.capitalised) {
+          break;
+        }
+        // Subvented interest is paid by the builder, not the investor
+        if (payment.subvented) {
+          break;
+        }
+        // Interest payments are negative cash flows (money going out); moratorium interest falls due later
+        cashFlows.push({
+          date: payment.deferredTo ? parseISO(payment.deferredTo) : paymentDate,
+          amount: -Math.abs(payment.amount)
+        });
+        break;
+        
+      case 'fee':
+        // Processing fees, prepayment charges and penal interest are part of the cost of borrowing
         cashFlows.push({
           date: paymentDate,
           amount: -Math.abs(payment.amount)
@@ -206,6 +389,105 @@ export function getIRRCashFlows(processedPayments: ProcessedPayment[]): Array<{d
   return cashFlows;
 }
 
+/**
+ * Cash flows of the property alone, as if bought without a loan: every property cost is an outflow
+ * (loan-funded ones included) and returns count in full; interest, fees and loan repayments are left out
+ * @param processedPayments Array of processed payments
+ */
+export function getUnleveredCashFlows(processedPayments: ProcessedPayment[]): Array<{date: Date, amount: number}> {
+  const cashFlows: Array<{date: Date, amount: number}> = [];
+
+  processedPayments.forEach(payment => {
+    const paymentDate = payment.date ? new Date(payment.date) : new Date(2024, 0, 1 + payment.month * 30);
+
+    switch (payment.type) {
+      case 'payment': {
+        // The part of a payment that repays the loan is financing, not property cost
+        const propertyCost = Math.abs(payment.amount) - payment.calculatedLoanAdjustment;
+        if (propertyCost > 0) {
+          cashFlows.push({ date: paymentDate, amount: -propertyCost });
+        }
+        break;
+      }
+
+      case 'drawdown':
+        // Loan-funded payments to the builder are property costs too
+        cashFlows.push({ date: paymentDate, amount: -Math.abs(payment.amount) });
+        break;
+
+      case 'return':
+        cashFlows.push({ date: paymentDate, amount: Math.abs(payment.amount) });
+        break;
+
+      case 'repayment':
+        // Proceeds paid straight to the lender are still property returns; EMI principal is financing
+        if (payment.source !== 'emi') {
+          cashFlows.push({ date: paymentDate, amount: Math.abs(payment.amount) });
+        }
+        break;
+    }
+  });
+
+  return cashFlows;
+}
+
+/**
+ * Cash flows between the investor and the lenders: drawdowns in; interest paid, fees and
+ * loan repayments out. A balance still outstanding is repaid on the last entry's date.
+ * @param processedPayments Array of processed payments
+ */
+export function getDebtCashFlows(processedPayments: ProcessedPayment[]): Array<{date: Date, amount: number}> {
+  const cashFlows: Array<{date: Date, amount: number}> = [];
+
+  processedPayments.forEach(payment => {
+    const paymentDate = payment.date ? new Date(payment.date) : new Date(2024, 0, 1 + payment.month * 30);
+
+    switch (payment.type) {
+      case 'drawdown':
+        cashFlows.push({ date: paymentDate, amount: Math.abs(payment.amount) });
+        break;
+
+      case 'interest':
+        // Capitalised interest is repaid with the balance; subvented interest is paid by the builder
+        if (!payment.capitalised && !payment.subvented) {
+          cashFlows.push({
+            date: payment.deferredTo ? parseISO(payment.deferredTo) : paymentDate,
+            amount: -Math.abs(payment.amount)
+          });
+        }
+        break;
+
+      case 'fee':
+        cashFlows.push({ date: paymentDate, amount: -Math.abs(payment.amount) });
+        break;
+
+      case 'repayment':
+        cashFlows.push({
+          date: paymentDate,
+          amount: payment.source === 'emi' ? -Math.abs(payment.amount) : -payment.calculatedLoanAdjustment
+        });
+        break;
+
+      case 'payment':
+      case 'return':
+        if (payment.calculatedLoanAdjustment > 0) {
+          cashFlows.push({ date: paymentDate, amount: -payment.calculatedLoanAdjustment });
+        }
+        break;
+    }
+  });
+
+  const lastPayment = processedPayments[processedPayments.length - 1];
+  if (lastPayment && lastPayment.runningLoanBalance > 0) {
+    cashFlows.push({
+      date: lastPayment.date ? new Date(lastPayment.date) : new Date(2024, 0, 1 + lastPayment.month * 30),
+      amount: -lastPayment.runningLoanBalance
+    });
+  }
+
+  return cashFlows.filter(cf => cf.amount !== 0);
+}
+
 /**
  * Creates a partial payment entry that shows breakdown of loan vs return
  * @param totalAmount Total amount of the payment/return
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildHistogram,
+  createRandom,
+  generateRatePath,
+  getPercentile,
+  MonteCarloConfig,
+  runMonteCarlo,
+  sampleDistribution
+} from './monteCarlo';
+import { runScenario } from './scenarioAnalysis';
+import { Payment, ProjectData } from '@/types/project';
+
+describe('Monte Carlo simulation', () => {
+  const payments: Payment[] = [
+    { id: 'p1', amount: 50000, type: 'payment', date: new Date(2024, 0, 10), month: 0 },
+    { id: 'd1', amount: 100000, type: 'drawdown', date: new Date(2024, 0, 10), month: 0 },
+    { id: 'p2', amount: 30000, type: 'payment', date: new Date(2024, 6, 10), month: 6 },
+    { id: 'r1', amount: 250000, type: 'return', date: new Date(2026, 0, 10), month: 24 }
+  ];
+  const projectData = {
+    projectName: 'Test',
+    annualInterestRate: 9,
+    purchasePrice: 0,
+    closingCosts: 0,
+    payments,
+    rentalIncome: []
+  } as ProjectData;
+  const projectEndDate = new Date(2026, 0, 31);
+  const fixedConfig: MonteCarloConfig = {
+    iterations: 5,
+    salePricePercent: { kind: 'normal', mean: 0, sd: 0 },
+    saleDelayMonths: { kind: 'triangular', min: 0, mode: 0, max: 0 },
+    rateChangePerYear: { kind: 'normal', mean: 0, sd: 0 },
+    vacancyPercent: { kind: 'uniform', min: 0, max: 0 },
+    seed: 1
+  };
+
+  it('should draw repeatable values within each distribution', () => {
+    const first = createRandom(42);
+    const second = createRandom(42);
+    const draws = Array.from({ length: 200 }, () => first());
+    expect(draws).toEqual(Array.from({ length: 200 }, () => second()));
+
+    const random = createRandom(7);
+    for (let i = 0; i < 200; i++) {
+      const triangular = sampleDistribution({ kind: 'triangular', min: 0, mode: 3, max: 12 }, random);
+      const uniform = sampleDistribution({ kind: 'uniform', min: 5, max: 10 }, random);
+      expect(triangular).toBeGreaterThanOrEqual(0);
+      expect(triangular).toBeLessThanOrEqual(12);
+      expect(uniform).toBeGreaterThanOrEqual(5);
+      expect(uniform).toBeLessThan(10);
+    }
+
+    const normals = Array.from({ length: 2000 }, () => sampleDistribution({ kind: 'normal', mean: 5, sd: 2 }, random));
+    const mean = normals.reduce((sum, value) => sum + value, 0) / normals.length;
+    expect(mean).toBeCloseTo(5, 0);
+  });
+
+  it('should interpolate percentiles and bin a sample', () => {
+    const sorted = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+    expect(getPercentile(sorted, 10)).toBe(2);
+    expect(getPercentile(sorted, 50)).toBe(6);
+    expect(getPercentile([0, 10], 25)).toBe(2.5);
+
+    const bins = buildHistogram([0, 1, 2, 3, 10], 5);
+    expect(bins).toHaveLength(5);
+    expect(bins[0]).toEqual({ from: 0, to: 2, count: 2 });
+    expect(bins[4].count).toBe(1);
+    expect(bins.reduce((sum, bin) => sum + bin.count, 0)).toBe(5);
+  });
+
+  it('should match the current plan when nothing varies', () => {
+    const base = runScenario(projectData, payments, projectEndDate, {});
+    const result = runMonteCarlo(projectData, payments, projectEndDate, fixedConfig);
+
+    expect(result.xirrValues).toHaveLength(5);
+    expect(result.xirr!.p10).toBeCloseTo(base.xirrValue!, 6);
+    expect(result.xirr!.p90).toBeCloseTo(base.xirrValue!, 6);
+    expect(result.netProfit.p50).toBeCloseTo(base.netProfit, 2);
+    expect(result.probabilityOfLoss).toBe(0);
+  });
+
+  it('should repeat a seeded run and count losses', () => {
+    const config: MonteCarloConfig = {
+      ...fixedConfig,
+      iterations: 20,
+      salePricePercent: { kind: 'normal', mean: -20, sd: 15 },
+      saleDelayMonths: { kind: 'triangular', min: 0, mode: 3, max: 12 },
+      seed: 99
+    };
+    const progress: number[] = [];
+    const first = runMonteCarlo(projectData, payments, projectEndDate, config, completed => progress.push(completed));
+    const second = runMonteCarlo(projectData, payments, projectEndDate, config);
+
+    expect(second.netProfits).toEqual(first.netProfits);
+    expect(progress[progress.length - 1]).toBe(20);
+    const losses = first.netProfits.filter(profit => profit < 0).length;
+    expect(losses).toBeGreaterThan(0);
+    expect(first.probabilityOfLoss).toBeCloseTo(losses / 20, 10);
+    expect(first.netProfit.p10).toBeLessThanOrEqual(first.netProfit.p50);
+    expect(first.netProfit.p50).toBeLessThanOrEqual(first.netProfit.p90);
+  });
+
+  it('should raise interest along a rising rate path', () => {
+    const path = generateRatePath(payments, projectEndDate, { kind: 'normal', mean: 1, sd: 0 }, createRandom(1));
+    expect(path).toEqual([
+      { effectiveFrom: '2025-01-10', change: 1 },
+      { effectiveFrom: '2026-01-10', change: 2 }
+    ]);
+
+    const base = runScenario(projectData, payments, projectEndDate, {});
+    const rising = runScenario(projectData, payments, projectEndDate, { ratePath: path });
+    expect(rising.totalInterest).toBeGreaterThan(base.totalInterest);
+  });
+});
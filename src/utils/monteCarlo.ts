@@ -0,0 +1,202 @@
+import { addMonths, format } from 'date-fns';
+import { Payment, ProjectData } from '@/types/project';
+import { monthToDate } from '@/utils/paymentEntries';
+import { RatePathStep, runScenario, ScenarioResult } from '@/utils/scenarioAnalysis';
+
+export type Distribution =
+  | { kind: 'normal'; mean: number; sd: number }
+  | { kind: 'triangular'; min: number; mode: number; max: number }
+  | { kind: 'uniform'; min: number; max: number };
+
+export interface MonteCarloConfig {
+  iterations: number;
+  salePricePercent: Distribution; // Change in sale proceeds, as a percentage
+  saleDelayMonths: Distribution; // Months the sale slips; rounded to whole months
+  rateChangePerYear: Distribution; // Yearly move of the main loan's rate in percentage points (a random walk)
+  vacancyPercent: Distribution; // Share of rental income lost, as a percentage
+  seed?: number; // Fixes the random draws so a run can be repeated
+}
+
+export const DEFAULT_MONTE_CARLO_CONFIG: MonteCarloConfig = {
+  iterations: 1000,
+  salePricePercent: { kind: 'normal', mean: 0, sd: 10 },
+  saleDelayMonths: { kind: 'triangular', min: 0, mode: 3, max: 12 },
+  rateChangePerYear: { kind: 'normal', mean: 0, sd: 0.75 },
+  vacancyPercent: { kind: 'uniform', min: 0, max: 15 },
+};
+
+export interface PercentileSummary {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  base: ScenarioResult;
+  xirrValues: number[]; // Solved XIRRs (%), ascending
+  netProfits: number[]; // Ascending
+  unsolved: number; // Iterations without an XIRR solution
+  xirr: PercentileSummary | null;
+  netProfit: PercentileSummary;
+  probabilityOfLoss: number; // Share of iterations with a negative net profit (0-1)
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+/**
+ * Small seeded generator (mulberry32); Math.random can't be replayed
+ * @returns Function returning numbers in [0, 1)
+ */
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Draws one value from a distribution
+ * @param random Uniform generator in [0, 1)
+ */
+export const sampleDistribution = (distribution: Distribution, random: () => number): number => {
+  switch (distribution.kind) {
+    case 'normal': {
+      if (!distribution.sd) return distribution.mean;
+      // Box-Muller; 1 - random() keeps the logarithm away from zero
+      const u = 1 - random();
+      const v = random();
+      return distribution.mean + distribution.sd * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    }
+    case 'triangular': {
+      const { min, mode, max } = distribution;
+      if (max <= min) return min;
+      const u = random();
+      const split = (mode - min) / (max - min);
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }
+    case 'uniform':
+      return distribution.min + random() * (distribution.max - distribution.min);
+  }
+};
+
+/**
+ * Value below which a share of a sorted sample falls, interpolating between neighbours
+ * @param sorted Values in ascending order
+ * @param percentile 0-100
+ */
+export const getPercentile = (sorted: number[], percentile: number): number => {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * percentile / 100;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const summarise = (sorted: number[]): PercentileSummary => ({
+  p10: getPercentile(sorted, 10),
+  p50: getPercentile(sorted, 50),
+  p90: getPercentile(sorted, 90)
+});
+
+/**
+ * Groups a sample into equal-width bins for a histogram
+ * @param values Sample in any order
+ * @param binCount Number of bins
+ */
+export const buildHistogram = (values: number[], binCount = 20): HistogramBin[] => {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (max === min) return [{ from: min, to: max, count: values.length }];
+
+  const width = (max - min) / binCount;
+  const bins = Array.from({ length: binCount }, (_, index) => ({ from: min + index * width, to: min + (index + 1) * width, count: 0 }));
+  values.forEach(value => {
+    bins[Math.min(binCount - 1, Math.floor((value - min) / width))].count++;
+  });
+  return bins;
+};
+
+/**
+ * Random walk of the main loan's rate with one step a year from the first drawdown
+ * @returns Cumulative changes; empty when nothing was borrowed
+ */
+export const generateRatePath = (
+  payments: Payment[],
+  projectEndDate: Date,
+  step: Distribution,
+  random: () => number
+): RatePathStep[] => {
+  const drawdownTimes = payments
+    .filter(p => p.type === 'drawdown')
+    .map(p => (p.date ? new Date(p.date) : monthToDate(p.month)).getTime())
+    .filter(time => !isNaN(time));
+  if (drawdownTimes.length === 0) return [];
+
+  const path: RatePathStep[] = [];
+  let change = 0;
+  for (let date = addMonths(new Date(Math.min(...drawdownTimes)), 12); date <= projectEndDate; date = addMonths(date, 12)) {
+    change += sampleDistribution(step, random);
+    path.push({ effectiveFrom: format(date, 'yyyy-MM-dd'), change });
+  }
+  return path;
+};
+
+/**
+ * Runs the analysis engine many times with random sale price, sale delay, rate path and rental vacancy
+ * @param projectData Project with loan settings and rental income
+ * @param payments Current entries (calculated interest is regenerated each iteration)
+ * @param projectEndDate Last date of interest calculation; extended by each iteration's sale delay
+ * @param onProgress Called with the number of finished iterations every few iterations
+ */
+export const runMonteCarlo = (
+  projectData: ProjectData,
+  payments: Payment[],
+  projectEndDate: Date,
+  config: MonteCarloConfig,
+  onProgress?: (completed: number) => void
+): MonteCarloResult => {
+  const random = createRandom(config.seed ?? Date.now());
+  const basePayments = payments.filter(p => p.type !== 'interest');
+  const xirrValues: number[] = [];
+  const netProfits: number[] = [];
+  const progressStep = Math.max(1, Math.floor(config.iterations / 50));
+
+  for (let i = 0; i < config.iterations; i++) {
+    const saleDelayMonths = Math.round(sampleDistribution(config.saleDelayMonths, random));
+    const result = runScenario(projectData, basePayments, projectEndDate, {
+      saleAmountPercent: sampleDistribution(config.salePricePercent, random),
+      saleDelayMonths,
+      rentalIncomePercent: -Math.min(100, Math.max(0, sampleDistribution(config.vacancyPercent, random))),
+      ratePath: generateRatePath(basePayments, addMonths(projectEndDate, Math.max(0, saleDelayMonths)), config.rateChangePerYear, random)
+    });
+    if (result.xirrValue !== null) xirrValues.push(result.xirrValue);
+    netProfits.push(result.netProfit);
+    if (onProgress && ((i + 1) % progressStep === 0 || i + 1 === config.iterations)) onProgress(i + 1);
+  }
+
+  xirrValues.sort((a, b) => a - b);
+  netProfits.sort((a, b) => a - b);
+
+  return {
+    iterations: config.iterations,
+    base: runScenario(projectData, basePayments, projectEndDate, {}),
+    xirrValues,
+    netProfits,
+    unsolved: config.iterations - xirrValues.length,
+    xirr: xirrValues.length > 0 ? summarise(xirrValues) : null,
+    netProfit: summarise(netProfits),
+    probabilityOfLoss: netProfits.length > 0 ? netProfits.filter(profit => profit < 0).length / netProfits.length : 0
+  };
+};
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { calculateNPV, findNpvZeroCrossings, getDiscountRatePercent, getNpvCurve } from './npv';
+import { ProjectData } from '@/types/project';
+
+describe('calculateNPV', () => {
+  const cashFlows = [
+    { date: new Date(2024, 0, 1), amount: -100000 },
+    { date: new Date(2024, 11, 31), amount: 112000 } // 365 days later
+  ];
+
+  it('should discount flows by their years from the first flow', () => {
+    expect(calculateNPV(cashFlows, 0)).toBeCloseTo(12000, 6);
+    expect(calculateNPV(cashFlows, 12)).toBeCloseTo(0, 6);
+    expect(calculateNPV(cashFlows, 10)).toBeCloseTo(112000 / 1.1 - 100000, 6);
+  });
+
+  it('should be undefined at or below -100%', () => {
+    expect(calculateNPV(cashFlows, -100)).toBeNaN();
+    expect(calculateNPV([], 10)).toBe(0);
+  });
+
+  it('should find where the curve crosses zero', () => {
+    const curve = getNpvCurve(cashFlows, 0, 20, 1);
+
+    expect(curve).toHaveLength(21);
+    expect(curve[5]).toEqual({ rate: 5, npv: calculateNPV(cashFlows, 5) });
+    const [crossing] = findNpvZeroCrossings(curve);
+    expect(crossing).toBeCloseTo(12, 6);
+  });
+
+  it('should read the project discount rate as a decimal', () => {
+    expect(getDiscountRatePercent({ discountRate: 0.09 } as ProjectData)).toBeCloseTo(9, 10);
+    expect(getDiscountRatePercent({} as ProjectData)).toBeCloseTo(12, 10);
+  });
+});
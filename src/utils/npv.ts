@@ -0,0 +1,76 @@
+import { ProjectData } from '@/types/project';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Discount rate used when a project hasn't set one (as a decimal, like ProjectData.discountRate)
+export const DEFAULT_DISCOUNT_RATE = 0.12;
+
+export interface NpvPoint {
+  rate: number; // Annual discount rate as a percentage
+  npv: number;
+}
+
+/**
+ * Discount rate of a project as a percentage
+ */
+export const getDiscountRatePercent = (projectData: ProjectData): number =>
+  (projectData.discountRate ?? DEFAULT_DISCOUNT_RATE) * 100;
+
+/**
+ * Net present value of dated cash flows, discounted to the first flow on an actual/365 basis (as XIRR is)
+ * @param cashFlows Investor cash flows (negative out, positive in)
+ * @param annualRate Annual discount rate as a percentage
+ * @returns NPV, or NaN for rates at or below -100%
+ */
+export const calculateNPV = (cashFlows: Array<{ date: Date; amount: number }>, annualRate: number): number => {
+  if (cashFlows.length === 0) return 0;
+  if (annualRate <= -100) return NaN;
+
+  const startTime = Math.min(...cashFlows.map(cf => cf.date.getTime()));
+  return cashFlows.reduce((sum, cf) => {
+    const years = (cf.date.getTime() - startTime) / MS_PER_DAY / 365;
+    return sum + cf.amount / Math.pow(1 + annualRate / 100, years);
+  }, 0);
+};
+
+/**
+ * NPV at evenly spaced discount rates
+ * @param minRate Lowest rate as a percentage
+ * @param maxRate Highest rate as a percentage
+ * @param step Rate step in percentage points
+ */
+export const getNpvCurve = (
+  cashFlows: Array<{ date: Date; amount: number }>,
+  minRate = 0,
+  maxRate = 40,
+  step = 1
+): NpvPoint[] => {
+  const points: NpvPoint[] = [];
+  for (let rate = minRate; rate <= maxRate + step / 2; rate += step) {
+    const roundedRate = Math.round(rate * 100) / 100;
+    points.push({ rate: roundedRate, npv: calculateNPV(cashFlows, roundedRate) });
+  }
+  return points;
+};
+
+/**
+ * Rates where the NPV curve crosses zero, interpolated between neighbouring points
+ * @returns Rates as percentages, lowest first
+ */
+export const findNpvZeroCrossings = (curve: NpvPoint[]): number[] => {
+  const crossings: number[] = [];
+  for (let i = 1; i < curve.length; i++) {
+    const previous = curve[i - 1];
+    const current = curve[i];
+    if (!isFinite(previous.npv) || !isFinite(current.npv)) continue;
+    if (previous.npv === 0) {
+      crossings.push(previous.rate);
+    } else if (Math.sign(previous.npv) !== Math.sign(current.npv) && current.npv !== 0) {
+      crossings.push(previous.rate + (current.rate - previous.rate) * previous.npv / (previous.npv - current.npv));
+    }
+  }
+  if (curve.length > 0 && curve[curve.length - 1].npv === 0) {
+    crossings.push(curve[curve.length - 1].rate);
+  }
+  return crossings;
+};
@@ -0,0 +1,77 @@
+import { IncomeItem, Payment } from '@/types/project';
+
+// Payment.month and IncomeItem.month count months from January 2024
+const BASE_YEAR = 2024;
+
+/**
+ * First day of an entry month
+ * @param monthNumber Months since January 2024 (negative months clamp to January 2024)
+ */
+export const monthToDate = (monthNumber: number): Date => {
+  // Handle invalid month values
+  if (typeof monthNumber !== 'number' || isNaN(monthNumber)) {
+    console.error('Invalid month number passed to monthToDate:', monthNumber);
+    return new Date(); // Return current date as fallback
+  }
+
+  const totalMonths = Math.max(0, monthNumber);
+  return new Date(BASE_YEAR + Math.floor(totalMonths / 12), totalMonths % 12, 1);
+};
+
+/**
+ * Entry month of a date, counted from January 2024
+ */
+export const dateToMonth = (date: Date): number => {
+  // Make sure we have a valid Date object
+  if (!(date instanceof Date) || isNaN(date.getTime())) {
+    console.error('Invalid date passed to dateToMonth:', date);
+    return 0; // Return a safe default
+  }
+
+  return (date.getFullYear() - BASE_YEAR) * 12 + date.getMonth();
+};
+
+/**
+ * Date of an entry or income item: its own date, else the first day of its month
+ */
+export const getEntryDate = (entry: Pick<Payment | IncomeItem, 'date' | 'month'>): Date =>
+  entry.date ? new Date(entry.date) : monthToDate(entry.month);
+
+/**
+ * Date of the earliest drawdown, when the loan starts
+ * @returns Null when nothing has been drawn
+ */
+export const getFirstDrawdownDate = (payments: Payment[]): Date | null => {
+  const times = payments
+    .filter(payment => payment.type === 'drawdown')
+    .map(payment => getEntryDate(payment).getTime())
+    .filter(time => !isNaN(time));
+  return times.length > 0 ? new Date(Math.min(...times)) : null;
+};
+
+// Entries carry no category, so interiors are recognised by their description
+const INTERIORS_PATTERN = /interior|furnish|fit-?out|renovat|modular/i;
+
+export const isInteriorsEntry = (payment: Payment): boolean =>
+  payment.type === 'payment' && typeof payment.description === 'string' && INTERIORS_PATTERN.test(payment.description);
+
+// Sale proceeds reach the investor as a return or go straight to the lender as a repayment
+const canHoldSale = (payment: Payment): boolean =>
+  payment.type === 'return' || (payment.type === 'repayment' && payment.source !== 'emi');
+
+/**
+ * Entries holding the proceeds of the property sale: the ones marked as the sale, or every return
+ * when none is marked. Prepayments and EMI principal never count unless marked.
+ */
+export const getSaleEntries = (payments: Payment[]): Payment[] => {
+  const marked = payments.filter(payment => payment.sale && canHoldSale(payment));
+  return marked.length > 0 ? marked : payments.filter(payment => payment.type === 'return');
+};
+
+/**
+ * Dated proceeds of the property sale: the sale entries and sale income
+ */
+export const getSaleProceeds = (payments: Payment[], rentalIncome: IncomeItem[] = []): Array<{ date: Date; amount: number }> => [
+  ...getSaleEntries(payments).map(payment => ({ date: getEntryDate(payment), amount: Math.abs(payment.amount) })),
+  ...rentalIncome.filter(income => income.type === 'sale').map(income => ({ date: getEntryDate(income), amount: income.amount }))
+].filter(sale => !isNaN(sale.date.getTime()));
@@ -1,6 +1,6 @@
 import { Payment } from '@/types/project';
 import { endOfMonth, max } from 'date-fns';
-import { monthToDate } from '@/components/payments/utils'; // Assuming this path is correct
+import { monthToDate } from '@/utils/paymentEntries';
 
 /**
  * Calculates the project end date based on the latest cash flow entry.
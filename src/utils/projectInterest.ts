@@ -0,0 +1,37 @@
+import { Payment, ProjectData } from '@/types/project';
+import { calculateMonthlyInterestLogic, CalculatedInterestResult } from '@/utils/interestCalculator';
+import { applyEmiSchedule } from '@/utils/emiSchedule';
+import { applyLoanCosts } from '@/utils/loanCosts';
+
+/**
+ * Runs the interest engine with every loan setting of a project.
+ * The EMI schedule is regenerated first so rate changes and prepayments flow into it;
+ * fees from the loan cost rules are regenerated last, once interest and EMIs are known.
+ * @param projectData Project whose loan settings apply
+ * @param basePayments Entries without calculated interest
+ * @param projectEndDate Last date of interest calculation
+ */
+export const calculateProjectInterest = (
+  projectData: ProjectData,
+  basePayments: Payment[],
+  projectEndDate: Date
+): CalculatedInterestResult => {
+  const result = calculateMonthlyInterestLogic({
+    payments: applyEmiSchedule(basePayments, projectData, projectEndDate),
+    interestRate: projectData.annualInterestRate,
+    projectEndDate,
+    rateSchedule: projectData.rateSchedule,
+    floatingRate: projectData.floatingRate,
+    benchmarkRates: projectData.benchmarkRates,
+    interestMode: projectData.interestMode,
+    capitaliseUntil: projectData.capitaliseUntil,
+    dayCountConvention: projectData.dayCountConvention,
+    restPeriod: projectData.restPeriod,
+    facilities: projectData.loanFacilities,
+    interestHolidays: projectData.interestHolidays
+  });
+  return {
+    ...result,
+    allPaymentsWithInterest: applyLoanCosts(result.allPaymentsWithInterest, projectData)
+  };
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { calculateMIRR, calculateReturnMetrics } from './returnMetrics';
+import { Payment, ProjectData } from '@/types/project';
+
+describe('calculateMIRR', () => {
+  it('should equal the growth of reinvested inflows over financed outflows', () => {
+    const cashFlows = [
+      { date: new Date(2024, 0, 1), amount: -100000 },
+      { date: new Date(2024, 11, 31), amount: 50000 }, // 365 days in
+      { date: new Date(2025, 11, 31), amount: 70000 } // 730 days in
+    ];
+    // 50000 grows one year at 10%: 55000 + 70000 = 125000 after two years
+    expect(calculateMIRR(cashFlows, 8, 10)).toBeCloseTo((Math.sqrt(1.25) - 1) * 100, 6);
+  });
+
+  it('should be null without both inflows and outflows', () => {
+    expect(calculateMIRR([{ date: new Date(2024, 0, 1), amount: -1 }, { date: new Date(2025, 0, 1), amount: -1 }], 8, 10)).toBeNull();
+  });
+});
+
+describe('calculateReturnMetrics', () => {
+  const payments: Payment[] = [
+    { id: '1', amount: -100000, type: 'payment', date: new Date(2024, 0, 1), month: 2024 * 12 },
+    { id: '2', amount: -50000, type: 'payment', date: new Date(2024, 5, 1), month: 2024 * 12 + 5 },
+    { id: '3', amount: 100000, type: 'drawdown', date: new Date(2024, 5, 1), month: 2024 * 12 + 5 },
+    { id: '4', amount: 1000, type: 'interest', date: new Date(2025, 0, 31), month: 2025 * 12 },
+    { id: '5', amount: 300000, type: 'return', date: new Date(2025, 11, 1), month: 2025 * 12 + 11 }
+  ];
+  const projectData = {
+    projectName: 'Test',
+    annualInterestRate: 9,
+    purchasePrice: 0,
+    closingCosts: 0,
+    payments,
+    rentalIncome: [
+      { month: 2025 * 12, amount: 12000, type: 'rental', date: new Date(2025, 0, 5) },
+      { month: 2025 * 12 + 1, amount: 12000, type: 'rental', date: new Date(2025, 1, 5) }
+    ]
+  } as ProjectData;
+
+  it('should track peak capital and payback from the investor cash flows', () => {
+    const metrics = calculateReturnMetrics(payments, projectData);
+
+    expect(metrics.peakCapital).toBe(150000);
+    expect(metrics.peakCapitalDate).toEqual(new Date(2024, 5, 1));
+    // Rent brings the requirement down to 127000; the sale's 200000 net return pays it back
+    expect(metrics.paybackDate).toEqual(new Date(2025, 11, 1));
+    expect(metrics.equityMultiple).toBeCloseTo(224000 / 151000, 10);
+  });
+
+  it('should annualise rent net of loan servicing over peak capital', () => {
+    const metrics = calculateReturnMetrics(payments, projectData);
+    expect(metrics.cashOnCashYield).toBeCloseTo((24000 - 1000) * 12 / 2 / 150000 * 100, 10);
+  });
+
+  it('should default the MIRR rates to the loan and discount rates', () => {
+    const metrics = calculateReturnMetrics(payments, projectData);
+    expect(metrics.financeRate).toBe(9);
+    expect(metrics.reinvestmentRate).toBeCloseTo(12, 10);
+    expect(calculateReturnMetrics(payments, { ...projectData, mirrFinanceRate: 0.07 }).financeRate).toBeCloseTo(7, 10);
+  });
+});
@@ -0,0 +1,133 @@
+import { differenceInCalendarMonths, endOfMonth, startOfMonth } from 'date-fns';
+import { Payment, ProjectData } from '@/types/project';
+import { monthToDate } from '@/utils/paymentEntries';
+import { getInvestorCashFlows } from '@/utils/cashFlowAnalysis';
+import { getDiscountRatePercent } from '@/utils/npv';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export interface ReturnMetrics {
+  equityMultiple: number | null; // Cash returned per rupee invested (MOIC)
+  paybackDate: Date | null; // When cumulative investor cash flow turns non-negative again
+  peakCapital: number; // Largest cumulative cash requirement
+  peakCapitalDate: Date | null;
+  cashOnCashYield: number | null; // Annual rent net of loan servicing over peak capital, as a percentage
+  mirr: number | null; // As a percentage
+  financeRate: number; // MIRR rate on outflows, as a percentage
+  reinvestmentRate: number; // MIRR rate on inflows, as a percentage
+}
+
+/**
+ * MIRR rates of a project as percentages: outflows are financed at the loan rate
+ * and inflows reinvested at the discount rate unless set
+ */
+export const getMirrRates = (projectData: ProjectData): { financeRate: number; reinvestmentRate: number } => ({
+  financeRate: projectData.mirrFinanceRate !== undefined
+    ? projectData.mirrFinanceRate * 100
+    : projectData.annualInterestRate,
+  reinvestmentRate: projectData.mirrReinvestmentRate !== undefined
+    ? projectData.mirrReinvestmentRate * 100
+    : getDiscountRatePercent(projectData)
+});
+
+/**
+ * Modified IRR of dated cash flows: outflows discounted to the first date at the finance rate,
+ * inflows compounded to the last date at the reinvestment rate
+ * @param financeRate Annual rate as a percentage
+ * @param reinvestmentRate Annual rate as a percentage
+ * @returns MIRR as a percentage, or null without both inflows and outflows over a positive period
+ */
+export const calculateMIRR = (
+  cashFlows: Array<{ date: Date; amount: number }>,
+  financeRate: number,
+  reinvestmentRate: number
+): number | null => {
+  if (cashFlows.length < 2) return null;
+  const times = cashFlows.map(cf => cf.date.getTime());
+  const startTime = Math.min(...times);
+  const endTime = Math.max(...times);
+  const years = (endTime - startTime) / MS_PER_DAY / 365;
+  if (years <= 0) return null;
+
+  let presentOutflows = 0;
+  let futureInflows = 0;
+  cashFlows.forEach(cf => {
+    if (cf.amount < 0) {
+      presentOutflows += -cf.amount / Math.pow(1 + financeRate / 100, (cf.date.getTime() - startTime) / MS_PER_DAY / 365);
+    } else {
+      futureInflows += cf.amount * Math.pow(1 + reinvestmentRate / 100, (endTime - cf.date.getTime()) / MS_PER_DAY / 365);
+    }
+  });
+  if (presentOutflows === 0 || futureInflows === 0) return null;
+
+  return (Math.pow(futureInflows / presentOutflows, 1 / years) - 1) * 100;
+};
+
+// Interest, EMI principal and loan fees paid from pocket
+const isLoanServicing = (payment: Payment) =>
+  (payment.type === 'interest' && !payment.capitalised && !payment.subvented) ||
+  (payment.type === 'repayment' && payment.source === 'emi') ||
+  payment.type === 'fee';
+
+/**
+ * Investment-committee metrics derived from the investor cash flows after loan tracking
+ * @param paymentsData Entries including calculated interest
+ * @param projectData Project with rental income, return allocation and MIRR rates
+ */
+export const calculateReturnMetrics = (paymentsData: Payment[], projectData: ProjectData): ReturnMetrics => {
+  const cashFlows = getInvestorCashFlows(paymentsData, projectData)
+    .filter(cf => !isNaN(cf.date.getTime()))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  const { financeRate, reinvestmentRate } = getMirrRates(projectData);
+
+  const totalIn = cashFlows.filter(cf => cf.amount > 0).reduce((sum, cf) => sum + cf.amount, 0);
+  const totalOut = cashFlows.filter(cf => cf.amount < 0).reduce((sum, cf) => sum - cf.amount, 0);
+
+  // Peak capital is the deepest point of the cumulative cash flow; payback is when it recovers afterwards
+  let cumulative = 0;
+  let peakCapital = 0;
+  let peakCapitalDate: Date | null = null;
+  let paybackDate: Date | null = null;
+  cashFlows.forEach(cf => {
+    cumulative += cf.amount;
+    if (-cumulative > peakCapital) {
+      peakCapital = -cumulative;
+      peakCapitalDate = cf.date;
+      paybackDate = null;
+    } else if (peakCapital > 0 && cumulative >= 0 && !paybackDate) {
+      paybackDate = cf.date;
+    }
+  });
+
+  // Cash-on-cash: rent less loan servicing over the rented months, annualised
+  let cashOnCashYield: number | null = null;
+  const rentals = (projectData.rentalIncome || [])
+    .filter(ri => ri.type !== 'sale')
+    .map(ri => ({ date: ri.date ? new Date(ri.date) : monthToDate(ri.month), amount: ri.amount }))
+    .filter(ri => !isNaN(ri.date.getTime()));
+  if (rentals.length > 0 && peakCapital > 0) {
+    const rentStart = startOfMonth(new Date(Math.min(...rentals.map(ri => ri.date.getTime()))));
+    const rentEnd = endOfMonth(new Date(Math.max(...rentals.map(ri => ri.date.getTime()))));
+    const months = differenceInCalendarMonths(rentEnd, rentStart) + 1;
+    const rent = rentals.reduce((sum, ri) => sum + ri.amount, 0);
+    const servicing = paymentsData
+      .filter(p => isLoanServicing(p) && p.date)
+      .filter(p => {
+        const date = new Date(p.date as Date | string);
+        return date >= rentStart && date <= rentEnd;
+      })
+      .reduce((sum, p) => sum + Math.abs(p.amount), 0);
+    cashOnCashYield = (rent - servicing) * 12 / months / peakCapital * 100;
+  }
+
+  return {
+    equityMultiple: totalOut > 0 ? totalIn / totalOut : null,
+    paybackDate,
+    peakCapital,
+    peakCapitalDate,
+    cashOnCashYield,
+    mirr: calculateMIRR(cashFlows, financeRate, reinvestmentRate),
+    financeRate,
+    reinvestmentRate
+  };
+};
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { applyScenarioAdjustments, buildSensitivityGrid, buildTornado, runScenario } from './scenarioAnalysis';
+import { Payment, ProjectData } from '@/types/project';
+
+describe('scenario analysis', () => {
+  const payments: Payment[] = [
+    { id: 'p1', amount: 50000, type: 'payment', date: new Date(2024, 0, 10), month: 0 },
+    { id: 'd1', amount: 100000, type: 'drawdown', date: new Date(2024, 0, 10), month: 0 },
+    { id: 'p2', amount: 30000, type: 'payment', date: new Date(2024, 6, 10), month: 6 },
+    { id: 'r1', amount: 250000, type: 'return', date: new Date(2025, 0, 10), month: 12 }
+  ];
+  const projectData = {
+    projectName: 'Test',
+    annualInterestRate: 9,
+    purchasePrice: 0,
+    closingCosts: 0,
+    payments,
+    rentalIncome: [],
+    loanFacilities: [{ id: 'topup', name: 'Top-up loan', annualRate: 10 }]
+  } as ProjectData;
+  const projectEndDate = new Date(2025, 0, 31);
+  const asOf = new Date(2024, 2, 1);
+
+  it('should adjust a copy of the project and leave the saved data alone', () => {
+    const scenario = applyScenarioAdjustments(projectData, payments, {
+      saleAmountPercent: -10,
+      saleDelayMonths: 6,
+      interestRateChange: 1,
+      milestoneDelayMonths: 3
+    }, asOf);
+    const sale = scenario.payments.find(p => p.id === 'r1')!;
+
+    expect(sale.amount).toBeCloseTo(225000, 6);
+    expect(sale.date).toEqual(new Date(2025, 6, 10));
+    expect(sale.month).toBe(18);
+    // Only the milestone not yet due slips
+    expect(scenario.payments.find(p => p.id === 'p1')!.date).toEqual(new Date(2024, 0, 10));
+    expect(scenario.payments.find(p => p.id === 'p2')!.date).toEqual(new Date(2024, 9, 10));
+    expect(scenario.annualInterestRate).toBe(10);
+    expect(scenario.loanFacilities![0].annualRate).toBe(11);
+
+    expect(payments[3].amount).toBe(250000);
+    expect(projectData.annualInterestRate).toBe(9);
+  });
+
+  it('should move and scale the same sale entries and leave prepayments alone', () => {
+    const prepayment: Payment = { id: 'pp1', amount: 20000, type: 'repayment', date: new Date(2024, 8, 10), month: 8 };
+    const adjustments = { saleAmountPercent: 10, saleDelayMonths: 3 };
+
+    const unmarked = applyScenarioAdjustments(projectData, [...payments, prepayment], adjustments, asOf);
+    expect(unmarked.payments.find(p => p.id === 'r1')!.amount).toBeCloseTo(275000, 6);
+    expect(unmarked.payments.find(p => p.id === 'pp1')).toEqual(prepayment);
+
+    // Once the sale is marked, unmarked returns stay put too
+    const lenderSale: Payment = { id: 's1', amount: 80000, type: 'repayment', sale: true, date: new Date(2025, 0, 10), month: 12 };
+    const marked = applyScenarioAdjustments(projectData, [...payments, prepayment, lenderSale], adjustments, asOf);
+    const sale = marked.payments.find(p => p.id === 's1')!;
+    expect(sale.amount).toBeCloseTo(88000, 6);
+    expect(sale.date).toEqual(new Date(2025, 3, 10));
+    expect(marked.payments.find(p => p.id === 'r1')).toEqual(payments[3]);
+    expect(marked.payments.find(p => p.id === 'pp1')).toEqual(prepayment);
+  });
+
+  it('should layer a rate path on the rate schedule or the floating benchmark', () => {
+    const ratePath = [{ effectiveFrom: '2024-07-01', change: 0.5 }, { effectiveFrom: '2024-10-01', change: 1.5 }];
+    const fixed = applyScenarioAdjustments({
+      ...projectData,
+      rateSchedule: [{ id: 'c1', effectiveFrom: '2024-09-01', annualRate: 8 }]
+    }, payments, { ratePath }, asOf);
+    expect(fixed.rateSchedule!.map(change => [change.effectiveFrom, change.annualRate]).sort()).toEqual([
+      ['2024-07-01', 9.5],
+      ['2024-09-01', 8.5],
+      ['2024-10-01', 9.5]
+    ]);
+
+    const floating = applyScenarioAdjustments({
+      ...projectData,
+      floatingRate: { enabled: true, benchmark: 'REPO', spread: 2.5, resetFrequency: 'quarterly', firstResetDate: '2024-04-01' },
+      benchmarkRates: [
+        { id: 'b1', benchmark: 'REPO', effectiveFrom: '2023-02-08', rate: 6.5 },
+        { id: 'b2', benchmark: 'REPO', effectiveFrom: '2024-08-01', rate: 6.25 }
+      ]
+    }, payments, { ratePath }, asOf);
+    expect(floating.benchmarkRates!.map(rate => [rate.effectiveFrom, rate.rate]).sort()).toEqual([
+      ['2023-02-08', 6.5],
+      ['2024-07-01', 7],
+      ['2024-08-01', 6.75],
+      ['2024-10-01', 7.75]
+    ]);
+  });
+
+  it('should recalculate interest for each scenario', () => {
+    const base = runScenario(projectData, payments, projectEndDate, {}, asOf);
+    const higherRate = runScenario(projectData, payments, projectEndDate, { interestRateChange: 2 }, asOf);
+
+    expect(higherRate.totalInterest).toBeGreaterThan(base.totalInterest);
+    expect(higherRate.netProfit).toBeLessThan(base.netProfit);
+    expect(higherRate.xirrValue!).toBeLessThan(base.xirrValue!);
+  });
+
+  it('should build a grid of every combination', () => {
+    const grid = buildSensitivityGrid(
+      projectData, payments, projectEndDate,
+      'sale-date', [0, 6, 12],
+      'sale-amount', [-10, 0, 10],
+      asOf
+    );
+
+    expect(grid.cells).toHaveLength(3);
+    expect(grid.cells.every(row => row.length === 3)).toBe(true);
+    expect(grid.cells[0][1].xirrValue).toBeCloseTo(grid.base.xirrValue!, 8);
+    // A bigger sale helps and a later one hurts
+    expect(grid.cells[0][2].xirrValue!).toBeGreaterThan(grid.cells[0][1].xirrValue!);
+    expect(grid.cells[2][1].xirrValue!).toBeLessThan(grid.cells[0][1].xirrValue!);
+    // Waiting longer for the sale costs more interest
+    expect(grid.cells[2][1].totalInterest).toBeGreaterThan(grid.cells[0][1].totalInterest);
+  });
+});
+
+describe('buildTornado', () => {
+  const payments: Payment[] = [
+    { id: 'p1', amount: 50000, type: 'payment', date: new Date(2024, 0, 10), month: 0 },
+    { id: 'd1', amount: 100000, type: 'drawdown', date: new Date(2024, 0, 10), month: 0 },
+    { id: 'd2', amount: 20000, type: 'drawdown', date: new Date(2024, 1, 10), month: 1, facilityId: 'topup' },
+    { id: 'p2', amount: 10000, type: 'payment', date: new Date(2024, 5, 10), month: 5, description: 'Modular kitchen and interiors' },
+    { id: 'r1', amount: 260000, type: 'return', date: new Date(2026, 0, 10), month: 24 }
+  ];
+  const projectData = {
+    projectName: 'Test',
+    annualInterestRate: 9,
+    purchasePrice: 0,
+    closingCosts: 0,
+    payments,
+    rentalIncome: [{ month: 12, amount: 2000, type: 'rental', date: new Date(2025, 0, 5) }],
+    loanFacilities: [{ id: 'topup', name: 'Top-up loan', annualRate: 12 }]
+  } as ProjectData;
+
+  it('should rank every driver present in the project by its XIRR swing', () => {
+    const tornado = buildTornado(projectData, payments, new Date(2026, 0, 31), 10, new Date(2024, 0, 1));
+
+    expect(tornado.drivers.map(driver => driver.key).sort()).toEqual(
+      ['interiors', 'rate-primary', 'rate-topup', 'rental', 'sale-amount', 'sale-date']
+    );
+    // The sale dominates a leveraged flip; swings are sorted largest first
+    expect(tornado.drivers[0].key).toBe('sale-amount');
+    const swings = tornado.drivers.map(driver => driver.swing as number);
+    expect(swings).toEqual([...swings].sort((a, b) => b - a));
+
+    const sale = tornado.drivers[0];
+    expect(sale.low.xirrValue!).toBeLessThan(tornado.base.xirrValue!);
+    expect(sale.high.xirrValue!).toBeGreaterThan(tornado.base.xirrValue!);
+    // A dearer loan lowers the return
+    const primaryRate = tornado.drivers.find(driver => driver.key === 'rate-primary')!;
+    expect(primaryRate.high.xirrValue!).toBeLessThan(primaryRate.low.xirrValue!);
+    expect(tornado.drivers.find(driver => driver.key === 'sale-date')!.label).toBe('Sale date (±2 mo)');
+  });
+});
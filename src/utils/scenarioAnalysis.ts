@@ -0,0 +1,330 @@
+import { addMonths, parseISO } from 'date-fns';
+import { IncomeItem, Payment, ProjectData } from '@/types/project';
+import { calculateProjectInterest } from '@/utils/projectInterest';
+import { computeCashFlowAnalysis } from '@/utils/cashFlowAnalysis';
+import { getAnnualRateOn, sortRateSchedule } from '@/utils/interestCalculator';
+import { getBenchmarkSeries } from '@/utils/floatingRate';
+import { getValueOn } from '@/utils/datedSeries';
+import { getFacilityKey, getFacilityName, PRIMARY_FACILITY_ID } from '@/utils/loanTracker';
+import { getEntryDate, getSaleEntries, isInteriorsEntry } from '@/utils/paymentEntries';
+import { XirrResult } from '@/utils/xirr';
+
+export type ScenarioVariable = 'sale-amount' | 'sale-date' | 'interest-rate' | 'milestone-delay';
+
+// Changes to a project's inputs; every field is relative to the saved data
+export interface ScenarioAdjustments {
+  saleAmountPercent?: number; // Change in the sale entries and sale income, as a percentage
+  saleDelayMonths?: number; // Months the sale entries and sale income move (negative is earlier)
+  interestRateChange?: number; // Percentage points added to every loan rate
+  milestoneDelayMonths?: number; // Months the payments and drawdowns not yet due move
+  loanRateChanges?: Record<string, number>; // Percentage points added to one loan's rate, keyed like facility balances
+  rentalIncomePercent?: number; // Change in rental income, as a percentage
+  interiorsCostPercent?: number; // Change in interiors payments, as a percentage
+  ratePath?: RatePathStep[]; // Future moves of the main loan's rate (or its benchmark when floating)
+}
+
+export interface RatePathStep {
+  effectiveFrom: string; // ISO date (yyyy-MM-dd)
+  change: number; // Percentage points above today's rate from this date on (cumulative, not per step)
+}
+
+export interface ScenarioVariableConfig {
+  label: string;
+  unit: string;
+  adjustment: keyof ScenarioAdjustments;
+  defaultValues: number[];
+}
+
+export const SCENARIO_VARIABLES: Record<ScenarioVariable, ScenarioVariableConfig> = {
+  'sale-amount': { label: 'Sale amount', unit: '%', adjustment: 'saleAmountPercent', defaultValues: [-10, -5, 0, 5, 10] },
+  'sale-date': { label: 'Sale date', unit: 'months', adjustment: 'saleDelayMonths', defaultValues: [0, 6, 12, 18] },
+  'interest-rate': { label: 'Interest rate', unit: 'pp', adjustment: 'interestRateChange', defaultValues: [-1, -0.5, 0, 0.5, 1] },
+  'milestone-delay': { label: 'Milestone delay', unit: 'months', adjustment: 'milestoneDelayMonths', defaultValues: [0, 3, 6, 12] },
+};
+
+export interface ScenarioResult {
+  xirr: XirrResult;
+  xirrValue: number | null; // As a percentage; null when XIRR has no solution
+  netProfit: number;
+  totalInterest: number; // Including capitalised interest
+}
+
+export interface SensitivityGrid {
+  rowVariable: ScenarioVariable;
+  columnVariable: ScenarioVariable;
+  rowValues: number[];
+  columnValues: number[];
+  cells: ScenarioResult[][]; // cells[row][column]
+  base: ScenarioResult;
+}
+
+export const shiftPayment = (payment: Payment, months: number): Payment => ({
+  ...payment,
+  date: addMonths(getEntryDate(payment), months),
+  month: payment.month + months
+});
+
+export const shiftIncome = (income: IncomeItem, months: number): IncomeItem => ({
+  ...income,
+  date: addMonths(getEntryDate(income), months),
+  month: income.month + months
+});
+
+const getPathChangeOn = (ratePath: RatePathStep[], isoDate: string): number => {
+  let change = 0;
+  for (const step of ratePath) {
+    if (step.effectiveFrom <= isoDate) change = step.change;
+  }
+  return change;
+};
+
+/**
+ * Layers a rate path on the main loan. Floating loans move their benchmark, so resets still apply;
+ * other loans get dated changes on top of their rate schedule.
+ */
+const applyRatePath = (projectData: ProjectData, ratePath: RatePathStep[]): Partial<ProjectData> => {
+  // Steps that leave the rate where it was would only split interest periods
+  const steps = [...ratePath]
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))
+    .filter((step, index, sorted) => step.change !== (index > 0 ? sorted[index - 1].change : 0));
+
+  if (projectData.floatingRate?.enabled) {
+    const benchmark = projectData.floatingRate.benchmark;
+    const series = getBenchmarkSeries(projectData.benchmarkRates || [], benchmark);
+    const isBenchmark = (rate: { benchmark: string }) => rate.benchmark.toUpperCase() === benchmark.toUpperCase();
+    return {
+      benchmarkRates: [
+        ...(projectData.benchmarkRates || []).map(rate =>
+          isBenchmark(rate) ? { ...rate, rate: rate.rate + getPathChangeOn(steps, rate.effectiveFrom) } : rate
+        ),
+        ...steps.flatMap((step, index) => {
+          const value = getValueOn(series, parseISO(step.effectiveFrom));
+          return value === null ? [] : [{ id: `rate-path-${index}`, benchmark, effectiveFrom: step.effectiveFrom, rate: value + step.change }];
+        })
+      ]
+    };
+  }
+
+  const schedule = sortRateSchedule(projectData.rateSchedule);
+  return {
+    rateSchedule: [
+      ...schedule.map(change => ({ ...change, annualRate: change.annualRate + getPathChangeOn(steps, change.effectiveFrom) })),
+      ...steps.map((step, index) => ({
+        id: `rate-path-${index}`,
+        effectiveFrom: step.effectiveFrom,
+        annualRate: getAnnualRateOn(parseISO(step.effectiveFrom), projectData.annualInterestRate, schedule) + step.change
+      }))
+    ]
+  };
+};
+
+/**
+ * Applies scenario adjustments to a copy of the project; the saved data is left untouched
+ * @param projectData Project with loan settings and rental income
+ * @param basePayments Entries without calculated interest
+ * @param asOf Milestones dated after this can slip
+ * @returns Scenario project whose payments are the adjusted entries
+ */
+export const applyScenarioAdjustments = (
+  projectData: ProjectData,
+  basePayments: Payment[],
+  adjustments: ScenarioAdjustments,
+  asOf: Date = new Date()
+): ProjectData => {
+  const {
+    saleAmountPercent = 0,
+    saleDelayMonths = 0,
+    interestRateChange = 0,
+    milestoneDelayMonths = 0,
+    loanRateChanges = {},
+    rentalIncomePercent = 0,
+    interiorsCostPercent = 0,
+    ratePath = []
+  } = adjustments;
+  const saleFactor = 1 + saleAmountPercent / 100;
+  const rateChange = (facilityKey: string) => interestRateChange + (loanRateChanges[facilityKey] || 0);
+  const primaryRateChange = rateChange(PRIMARY_FACILITY_ID);
+
+  // The sale moves and scales as one; prepayments keep their date and amount
+  const saleEntries = new Set(getSaleEntries(basePayments));
+  const payments = basePayments.map(payment => {
+    if (saleEntries.has(payment)) {
+      const scaled = { ...payment, amount: payment.amount * saleFactor };
+      return saleDelayMonths ? shiftPayment(scaled, saleDelayMonths) : scaled;
+    }
+    const costed = interiorsCostPercent && isInteriorsEntry(payment)
+      ? { ...payment, amount: payment.amount * (1 + interiorsCostPercent / 100) }
+      : payment;
+    if ((costed.type === 'payment' || costed.type === 'drawdown') && milestoneDelayMonths && getEntryDate(costed) > asOf) {
+      return shiftPayment(costed, milestoneDelayMonths);
+    }
+    return costed;
+  });
+
+  const rentalIncome = (projectData.rentalIncome || []).map(income => {
+    if (income.type !== 'sale') {
+      return rentalIncomePercent ? { ...income, amount: income.amount * (1 + rentalIncomePercent / 100) } : income;
+    }
+    const scaled = { ...income, amount: income.amount * saleFactor };
+    return saleDelayMonths ? shiftIncome(scaled, saleDelayMonths) : scaled;
+  });
+
+  const adjusted: ProjectData = {
+    ...projectData,
+    payments,
+    rentalIncome,
+    ...(primaryRateChange ? {
+      annualInterestRate: projectData.annualInterestRate + primaryRateChange,
+      rateSchedule: projectData.rateSchedule?.map(change => ({ ...change, annualRate: change.annualRate + primaryRateChange })),
+      floatingRate: projectData.floatingRate && { ...projectData.floatingRate, spread: projectData.floatingRate.spread + primaryRateChange }
+    } : {}),
+    loanFacilities: projectData.loanFacilities?.map(facility => {
+      const change = rateChange(facility.id);
+      return change ? { ...facility, annualRate: facility.annualRate + change } : facility;
+    })
+  };
+
+  return ratePath.length > 0 ? { ...adjusted, ...applyRatePath(adjusted, ratePath) } : adjusted;
+};
+
+/**
+ * Recalculates interest, EMIs, loan costs and returns for one scenario
+ * @param projectData Project with loan settings and rental income
+ * @param payments Current entries (calculated interest, EMI and loan cost rows are regenerated)
+ * @param projectEndDate Last date of interest calculation; extended by any delay
+ * @param asOf Milestones dated after this can slip
+ */
+export const runScenario = (
+  projectData: ProjectData,
+  payments: Payment[],
+  projectEndDate: Date,
+  adjustments: ScenarioAdjustments,
+  asOf: Date = new Date()
+): ScenarioResult => {
+  const basePayments = payments.filter(p => p.type !== 'interest');
+  const scenario = applyScenarioAdjustments(projectData, basePayments, adjustments, asOf);
+  const delayMonths = Math.max(0, adjustments.saleDelayMonths || 0, adjustments.milestoneDelayMonths || 0);
+  const { allPaymentsWithInterest } = calculateProjectInterest(scenario, scenario.payments, addMonths(projectEndDate, delayMonths));
+  const analysis = computeCashFlowAnalysis(allPaymentsWithInterest, scenario);
+
+  return {
+    xirr: analysis.xirr,
+    xirrValue: analysis.xirrValue,
+    netProfit: analysis.netProfit,
+    totalInterest: analysis.totalInterestPaid + analysis.totalInterestCapitalised
+  };
+};
+
+/**
+ * Runs a scenario for every combination of two inputs
+ * @param rowValues Values of the row variable, in its unit
+ * @param columnValues Values of the column variable, in its unit
+ */
+export const buildSensitivityGrid = (
+  projectData: ProjectData,
+  payments: Payment[],
+  projectEndDate: Date,
+  rowVariable: ScenarioVariable,
+  rowValues: number[],
+  columnVariable: ScenarioVariable,
+  columnValues: number[],
+  asOf: Date = new Date()
+): SensitivityGrid => {
+  const rowKey = SCENARIO_VARIABLES[rowVariable].adjustment;
+  const columnKey = SCENARIO_VARIABLES[columnVariable].adjustment;
+
+  return {
+    rowVariable,
+    columnVariable,
+    rowValues,
+    columnValues,
+    cells: rowValues.map(rowValue => columnValues.map(columnValue =>
+      runScenario(projectData, payments, projectEndDate, { [rowKey]: rowValue, [columnKey]: columnValue }, asOf)
+    )),
+    base: runScenario(projectData, payments, projectEndDate, {}, asOf)
+  };
+};
+
+export interface TornadoDriver {
+  key: string;
+  label: string;
+  low: ScenarioResult; // With the driver lowered (an earlier sale for the sale date)
+  high: ScenarioResult; // With the driver raised
+  swing: number | null; // Gap between the two XIRRs in percentage points
+}
+
+export interface TornadoAnalysis {
+  percent: number;
+  base: ScenarioResult;
+  drivers: TornadoDriver[]; // Largest swing first
+}
+
+/**
+ * Moves each key driver down and up by the same percentage, one at a time, and ranks them by their effect on XIRR.
+ * Drivers are the sale amount, the sale date (as a share of the holding period), the rate of each loan that was
+ * drawn, rental income and interiors payments; those absent from the project are left out.
+ * @param percent Size of each move, as a percentage of the driver's value
+ * @param asOf Passed on to each scenario
+ */
+export const buildTornado = (
+  projectData: ProjectData,
+  payments: Payment[],
+  projectEndDate: Date,
+  percent = 10,
+  asOf: Date = new Date()
+): TornadoAnalysis => {
+  const candidates: Array<{ key: string; label: string; adjust: (direction: 1 | -1) => ScenarioAdjustments }> = [];
+  const basePayments = payments.filter(p => p.type !== 'interest');
+  const saleEntries = getSaleEntries(basePayments);
+
+  if (saleEntries.length > 0 || projectData.rentalIncome?.some(income => income.type === 'sale')) {
+    candidates.push({ key: 'sale-amount', label: 'Sale amount', adjust: direction => ({ saleAmountPercent: direction * percent }) });
+  }
+
+  if (saleEntries.length > 0) {
+    const times = basePayments.map(p => getEntryDate(p).getTime()).filter(time => !isNaN(time));
+    const lastSale = Math.max(...saleEntries.map(p => getEntryDate(p).getTime()));
+    const holdMonths = (lastSale - Math.min(...times)) / (1000 * 60 * 60 * 24 * 30.44);
+    const shift = Math.max(1, Math.round(holdMonths * percent / 100));
+    candidates.push({ key: 'sale-date', label: `Sale date (±${shift} mo)`, adjust: direction => ({ saleDelayMonths: direction * shift }) });
+  }
+
+  const drawnLoans = [...new Set(basePayments.filter(p => p.type === 'drawdown').map(getFacilityKey))];
+  drawnLoans.forEach(facilityKey => {
+    const rate = facilityKey === PRIMARY_FACILITY_ID
+      ? projectData.annualInterestRate
+      : projectData.loanFacilities?.find(facility => facility.id === facilityKey)?.annualRate;
+    if (!rate) return;
+    candidates.push({
+      key: `rate-${facilityKey}`,
+      label: `${getFacilityName(facilityKey, projectData.loanFacilities)} rate`,
+      adjust: direction => ({ loanRateChanges: { [facilityKey]: direction * rate * percent / 100 } })
+    });
+  });
+
+  if (projectData.rentalIncome?.some(income => income.type !== 'sale')) {
+    candidates.push({ key: 'rental', label: 'Rental income', adjust: direction => ({ rentalIncomePercent: direction * percent }) });
+  }
+
+  if (basePayments.some(isInteriorsEntry)) {
+    candidates.push({ key: 'interiors', label: 'Interiors cost', adjust: direction => ({ interiorsCostPercent: direction * percent }) });
+  }
+
+  const drivers = candidates.map(candidate => {
+    const low = runScenario(projectData, payments, projectEndDate, candidate.adjust(-1), asOf);
+    const high = runScenario(projectData, payments, projectEndDate, candidate.adjust(1), asOf);
+    return {
+      key: candidate.key,
+      label: candidate.label,
+      low,
+      high,
+      swing: low.xirrValue !== null && high.xirrValue !== null ? Math.abs(high.xirrValue - low.xirrValue) : null
+    };
+  });
+
+  return {
+    percent,
+    base: runScenario(projectData, payments, projectEndDate, {}, asOf),
+    drivers: drivers.sort((a, b) => (b.swing ?? -1) - (a.swing ?? -1))
+  };
+};
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { calculateXIRR, countSignChanges, describeXirrResult } from './xirr';
+
+const flow = (isoDate: string, amount: number) => ({ date: new Date(`${isoDate}T00:00:00`), amount });
+
+describe('calculateXIRR', () => {
+  it('should match the spreadsheet XIRR example', () => {
+    // Excel's documented example: =XIRR(...) gives 37.34%
+    const result = calculateXIRR([
+      flow('2008-01-01', -10000),
+      flow('2008-03-01', 2750),
+      flow('2008-10-30', 4250),
+      flow('2009-02-15', 3250),
+      flow('2009-04-01', 2750)
+    ]);
+
+    expect(result.status).toBe('ok');
+    expect(result.method).toBe('newton');
+    expect(result.rate).toBeCloseTo(37.3362535, 5);
+    expect(result.roots).toHaveLength(1);
+  });
+
+  it('should match spreadsheet results for a one-year hold', () => {
+    // =XIRR({-1000,1100}, {1-Jan-2023,1-Jan-2024}) gives exactly 10%
+    const result = calculateXIRR([flow('2023-01-01', -1000), flow('2024-01-01', 1100)]);
+
+    expect(result.rate).toBeCloseTo(10, 8);
+  });
+
+  it('should solve the same flows in any order', () => {
+    const flows = [flow('2024-01-01', -100000), flow('2025-06-30', 40000), flow('2024-07-01', 70000)];
+    expect(calculateXIRR(flows).rate).toBeCloseTo(calculateXIRR([...flows].reverse()).rate as number, 8);
+  });
+
+  it('should fall back to bisection when Newton diverges', () => {
+    // Losing 99.9% in a year: Newton from 10% steps past -100%
+    const result = calculateXIRR([flow('2023-01-01', -1000), flow('2024-01-01', 1)]);
+
+    expect(result.status).toBe('ok');
+    expect(result.method).toBe('bisection');
+    expect(result.rate).toBeCloseTo(-99.9, 6);
+  });
+
+  it('should report every root when the flows change sign more than once', () => {
+    // -100, +230, -132 a year apart: NPV is zero at 10% and 20%
+    const result = calculateXIRR([flow('2023-01-01', -100), flow('2024-01-01', 230), flow('2024-12-31', -132)]);
+
+    expect(result.signChanges).toBe(2);
+    expect(result.roots).toHaveLength(2);
+    expect(result.roots[0]).toBeCloseTo(10, 6);
+    expect(result.roots[1]).toBeCloseTo(20, 6);
+    expect(result.rate).toBeCloseTo(10, 6);
+    expect(describeXirrResult(result)).toContain('20.00%');
+  });
+
+  it('should explain why there is no rate', () => {
+    expect(calculateXIRR([]).status).toBe('insufficient-flows');
+    expect(calculateXIRR([flow('2024-01-01', -100)]).status).toBe('insufficient-flows');
+    expect(calculateXIRR([flow('2024-01-01', -100), flow('2025-01-01', -50)]).status).toBe('no-sign-change');
+
+    // Borrowing 100 and repaying 100 plus a fee straight after leaves NPV negative at every rate
+    const noSolution = calculateXIRR([flow('2024-01-01', -100), flow('2024-06-01', 50), flow('2025-01-01', -100)]);
+    expect(noSolution.status).toBe('no-solution');
+    expect(noSolution.rate).toBeNull();
+  });
+});
+
+describe('countSignChanges', () => {
+  it('should count switches between in and out in date order, ignoring zeros', () => {
+    expect(countSignChanges([
+      flow('2024-03-01', 500),
+      flow('2024-01-01', -100),
+      flow('2024-02-01', 0),
+      flow('2024-04-01', -50)
+    ])).toBe(2);
+  });
+});
@@ -0,0 +1,163 @@
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+const NEWTON_MAX_ITERATIONS = 50;
+const BISECTION_MAX_ITERATIONS = 200;
+const RATE_TOLERANCE = 1e-10;
+// Lowest rate tried; -100% makes the discount factor infinite
+const MIN_RATE = -0.9999;
+const MAX_RATE = 1e6;
+
+export type XirrStatus = 'ok' | 'insufficient-flows' | 'no-sign-change' | 'no-solution';
+
+export interface XirrResult {
+  status: XirrStatus;
+  rate: number | null; // As a percentage; null unless status is 'ok'
+  roots: number[]; // Every rate (as a percentage) where NPV is zero, lowest first
+  signChanges: number; // Sign changes in the chronological cash flows; more than one allows several roots
+  method: 'newton' | 'bisection' | null;
+}
+
+export const XIRR_STATUS_LABELS: Record<XirrStatus, string> = {
+  'ok': 'Annualized return',
+  'insufficient-flows': 'Needs at least two dated cash flows',
+  'no-sign-change': 'Needs both money in and money out',
+  'no-solution': 'No rate makes NPV zero',
+};
+
+interface TimedFlow {
+  amount: number;
+  years: number;
+}
+
+// Whole days from the first flow over 365, as spreadsheet XIRR counts them
+const toTimedFlows = (cashFlows: Array<{ date: Date; amount: number }>): TimedFlow[] => {
+  const startTime = Math.min(...cashFlows.map(cf => cf.date.getTime()));
+  return cashFlows.map(cf => ({
+    amount: cf.amount,
+    years: Math.round((cf.date.getTime() - startTime) / MS_PER_DAY) / 365
+  }));
+};
+
+const npvAt = (flows: TimedFlow[], rate: number): number =>
+  flows.reduce((sum, flow) => sum + flow.amount / Math.pow(1 + rate, flow.years), 0);
+
+const npvDerivativeAt = (flows: TimedFlow[], rate: number): number =>
+  flows.reduce((sum, flow) => sum - flow.years * flow.amount / Math.pow(1 + rate, flow.years + 1), 0);
+
+/**
+ * Number of times the chronological cash flows switch between in and out, ignoring zeros
+ */
+export const countSignChanges = (cashFlows: Array<{ date: Date; amount: number }>): number => {
+  const signs = [...cashFlows]
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map(cf => Math.sign(cf.amount))
+    .filter(sign => sign !== 0);
+  return signs.reduce((count, sign, i) => (i > 0 && sign !== signs[i - 1] ? count + 1 : count), 0);
+};
+
+const newton = (flows: TimedFlow[], guess: number): number | null => {
+  let rate = guess;
+  for (let i = 0; i < NEWTON_MAX_ITERATIONS; i++) {
+    const derivative = npvDerivativeAt(flows, rate);
+    if (!isFinite(derivative) || derivative === 0) return null;
+    const next = rate - npvAt(flows, rate) / derivative;
+    if (!isFinite(next) || next <= -1) return null;
+    if (Math.abs(next - rate) < RATE_TOLERANCE) return next;
+    rate = next;
+  }
+  return null;
+};
+
+const bisect = (flows: TimedFlow[], low: number, high: number): number => {
+  let lowNpv = npvAt(flows, low);
+  for (let i = 0; i < BISECTION_MAX_ITERATIONS && high - low > RATE_TOLERANCE; i++) {
+    const mid = (low + high) / 2;
+    const midNpv = npvAt(flows, mid);
+    if (midNpv === 0) return mid;
+    if (Math.sign(midNpv) === Math.sign(lowNpv)) {
+      low = mid;
+      lowNpv = midNpv;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+};
+
+// Rates to scan for brackets: fine around everyday returns, coarser beyond
+const scanRates = (): number[] => {
+  const rates: number[] = [MIN_RATE];
+  for (let percent = -99; percent < 100; percent++) rates.push(percent / 100);
+  for (let tenths = 10; tenths <= 100; tenths++) rates.push(tenths / 10);
+  for (let rate = 20; rate <= MAX_RATE; rate *= 2) rates.push(rate);
+  return rates;
+};
+
+// Every bracketed root across the scanned rates, each refined by bisection
+const findRoots = (flows: TimedFlow[]): number[] => {
+  const rates = scanRates();
+  const roots: number[] = [];
+  let previousRate = rates[0];
+  let previousNpv = npvAt(flows, previousRate);
+  for (const rate of rates.slice(1)) {
+    const npv = npvAt(flows, rate);
+    if (isFinite(previousNpv) && isFinite(npv)) {
+      if (npv === 0) {
+        roots.push(rate);
+      } else if (previousNpv !== 0 && Math.sign(previousNpv) !== Math.sign(npv)) {
+        roots.push(bisect(flows, previousRate, rate));
+      }
+    }
+    previousRate = rate;
+    previousNpv = npv;
+  }
+  return roots;
+};
+
+/**
+ * Solves XIRR for dated cash flows: Newton's method from the guess, with bisection
+ * over a scan of rates when Newton doesn't converge or several roots are possible
+ * @param cashFlows Investor cash flows (negative out, positive in)
+ * @param guess Starting rate as a decimal
+ * @returns Rate as a percentage with diagnostics; status explains a missing rate
+ */
+export const calculateXIRR = (
+  cashFlows: Array<{ date: Date; amount: number }>,
+  guess = 0.1
+): XirrResult => {
+  const validFlows = cashFlows.filter(cf => cf.date && !isNaN(cf.date.getTime()) && isFinite(cf.amount));
+  const signChanges = countSignChanges(validFlows);
+  const result = (status: XirrStatus, rate: number | null = null, roots: number[] = [], method: XirrResult['method'] = null): XirrResult =>
+    ({ status, rate, roots, signChanges, method });
+
+  if (validFlows.length < 2) return result('insufficient-flows');
+  if (signChanges === 0) return result('no-sign-change');
+
+  const flows = toTimedFlows(validFlows);
+  const newtonRoot = newton(flows, guess);
+
+  // With one sign change there's at most one root, so a converged Newton root is the answer
+  if (newtonRoot !== null && signChanges === 1) {
+    return result('ok', newtonRoot * 100, [newtonRoot * 100], 'newton');
+  }
+
+  const roots = findRoots(flows);
+  if (newtonRoot !== null && !roots.some(root => Math.abs(root - newtonRoot) < 1e-6)) {
+    roots.push(newtonRoot);
+    roots.sort((a, b) => a - b);
+  }
+  if (roots.length === 0) return result('no-solution');
+
+  // Prefer Newton's root, as spreadsheets do; otherwise the root nearest the guess
+  const rate = newtonRoot ?? roots.reduce((best, root) => (Math.abs(root - guess) < Math.abs(best - guess) ? root : best));
+  return result('ok', rate * 100, roots.map(root => root * 100), newtonRoot !== null ? 'newton' : 'bisection');
+};
+
+/**
+ * One-line explanation of an XIRR result for display, flagging other roots
+ */
+export const describeXirrResult = (result: XirrResult): string => {
+  if (result.status !== 'ok' || result.roots.length < 2) return XIRR_STATUS_LABELS[result.status];
+  const others = result.roots.filter(root => Math.abs(root - (result.rate as number)) > 1e-6);
+  return `Multiple solutions; NPV is also zero at ${others.map(root => `${root.toFixed(2)}%`).join(', ')}`;
+};
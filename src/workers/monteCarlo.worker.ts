@@ -0,0 +1,25 @@
+import { Payment, ProjectData } from '@/types/project';
+import { MonteCarloConfig, MonteCarloResult, runMonteCarlo } from '@/utils/monteCarlo';
+
+export interface MonteCarloRequest {
+  projectData: ProjectData;
+  payments: Payment[];
+  projectEndDate: Date;
+  config: MonteCarloConfig;
+}
+
+export type MonteCarloMessage =
+  | { type: 'progress'; completed: number }
+  | { type: 'done'; result: MonteCarloResult }
+  | { type: 'error'; message: string };
+
+self.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const { projectData, payments, projectEndDate, config } = event.data;
+  const post = (message: MonteCarloMessage) => self.postMessage(message);
+  try {
+    const result = runMonteCarlo(projectData, payments, projectEndDate, config, completed => post({ type: 'progress', completed }));
+    post({ type: 'done', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};